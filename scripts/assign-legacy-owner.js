@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+// 예전 디자이너 문서 소유 계정 지정 - 이름으로 저장된 문서(designers/{이름})에 ownerUid를 기록
+// 기록한 뒤 그 계정으로 로그인하면 designerMigrationService가 UID 문서로 합침
+//
+// 사용법:
+//   npm run designers:assign-owner -- "<예전 디자이너 이름>" <계정 이메일 또는 UID>
+//   (.env.local 의 VITE_FIREBASE_* 값을 읽음)
+//
+// 환경변수:
+//   ADMIN_EMAIL / ADMIN_PASSWORD   관리자 계정 (Firestore 규칙에서 다른 디자이너 문서 수정이 허용된 계정)
+//
+// 이메일로 지정하면 users 컬렉션에서 계정을 찾고, 디자이너 계정이 정확히 하나일 때만 기록
+import { initializeApp } from 'firebase/app';
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  getFirestore,
+  query,
+  updateDoc,
+  where
+} from 'firebase/firestore';
+
+const fail = (message) => {
+  console.error(`❌ ${message}`);
+  process.exit(1);
+};
+
+const [legacyName, owner] = process.argv.slice(2);
+if (!legacyName || !owner) {
+  fail('사용법: npm run designers:assign-owner -- "<예전 디자이너 이름>" <계정 이메일 또는 UID>');
+}
+if (!process.env.ADMIN_EMAIL || !process.env.ADMIN_PASSWORD) {
+  fail('ADMIN_EMAIL / ADMIN_PASSWORD 환경변수를 설정해주세요.');
+}
+
+const app = initializeApp({
+  apiKey: process.env.VITE_FIREBASE_API_KEY,
+  authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.VITE_FIREBASE_PROJECT_ID,
+  appId: process.env.VITE_FIREBASE_APP_ID
+});
+const db = getFirestore(app);
+
+// 이메일 또는 UID → 디자이너 계정 UID
+const resolveOwnerUid = async () => {
+  if (owner.includes('@')) {
+    const snapshot = await getDocs(query(collection(db, 'users'), where('email', '==', owner.trim().toLowerCase())));
+    const designerAccounts = snapshot.docs.filter(userDoc => userDoc.data().userType === 'designer');
+    if (designerAccounts.length !== 1) {
+      fail(`${owner} 이메일의 디자이너 계정이 ${designerAccounts.length}개입니다. UID로 지정해주세요.`);
+    }
+    return designerAccounts[0].id;
+  }
+
+  const userSnap = await getDoc(doc(db, 'users', owner));
+  if (!userSnap.exists() || userSnap.data().userType !== 'designer') {
+    fail(`${owner} 디자이너 계정을 찾지 못했습니다.`);
+  }
+  return owner;
+};
+
+try {
+  await signInWithEmailAndPassword(getAuth(app), process.env.ADMIN_EMAIL, process.env.ADMIN_PASSWORD);
+
+  const legacyRef = doc(db, 'designers', legacyName);
+  const legacySnap = await getDoc(legacyRef);
+  if (!legacySnap.exists()) {
+    fail(`'${legacyName}' 디자이너 문서가 없습니다.`);
+  }
+  // UID로 저장된 문서는 이미 계정 문서
+  if ((await getDoc(doc(db, 'users', legacyName))).exists()) {
+    fail(`'${legacyName}'은 계정 UID 문서라 지정할 수 없습니다.`);
+  }
+
+  const ownerUid = await resolveOwnerUid();
+  const legacy = legacySnap.data();
+  if (legacy.ownerUid && legacy.ownerUid !== ownerUid) {
+    console.warn(`⚠️ 기존 소유 계정 ${legacy.ownerUid}을(를) ${ownerUid}(으)로 바꿉니다.`);
+  }
+
+  await updateDoc(legacyRef, { ownerUid });
+  console.log(`✅ '${legacyName}' 소유 계정: ${ownerUid}`);
+  console.log('   이 계정으로 다음에 로그인하면 UID 문서로 합쳐집니다.');
+  process.exit(0);
+} catch (error) {
+  fail(`소유 계정 지정 실패: ${error.message}`);
+}
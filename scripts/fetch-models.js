@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+// 머리카락 분할 모델 받기 - npm 패키지에 없는 MediaPipe 모델을 public/models 에 받아 앱과 같은 주소에서 제공
+//
+// 사용법:
+//   npm run models:fetch   (npm run dev / npm run build 전에 자동 실행)
+//   이미 받은 파일이 있으면 다시 받지 않으므로, 한 번 받은 뒤에는 오프라인에서도 개발 / 빌드 가능
+//
+// 환경변수:
+//   HAIR_SEGMENTER_SOURCE_URL   받을 주소 (기본: MediaPipe 공개 모델)
+//
+// 받지 못해도 실패로 끝내지 않음 - 모델이 없으면 얼굴 분석은 머리카락 마스크 없이 진행
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+export const HAIR_SEGMENTER_PATH = path.join(ROOT, 'public', 'models', 'hair_segmenter.tflite');
+const SOURCE_URL = process.env.HAIR_SEGMENTER_SOURCE_URL
+  || 'https://storage.googleapis.com/mediapipe-models/image_segmenter/hair_segmenter/float32/latest/hair_segmenter.tflite';
+const TIMEOUT_MS = 60_000;
+
+const fetchModel = async () => {
+  if (fs.existsSync(HAIR_SEGMENTER_PATH)) {
+    console.log(`✅ 머리카락 분할 모델 있음: ${path.relative(ROOT, HAIR_SEGMENTER_PATH)}`);
+    return;
+  }
+
+  try {
+    console.log(`⬇️ 머리카락 분할 모델 받는 중: ${SOURCE_URL}`);
+    const response = await fetch(SOURCE_URL, { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    // 중간에 끊겨도 깨진 파일이 남지 않도록 임시 파일에 쓴 뒤 이름 변경
+    const data = Buffer.from(await response.arrayBuffer());
+    const tempPath = `${HAIR_SEGMENTER_PATH}.download`;
+    fs.mkdirSync(path.dirname(HAIR_SEGMENTER_PATH), { recursive: true });
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, HAIR_SEGMENTER_PATH);
+    console.log(`✅ 머리카락 분할 모델 저장: ${path.relative(ROOT, HAIR_SEGMENTER_PATH)} (${data.length} bytes)`);
+  } catch (error) {
+    console.warn(`⚠️ 머리카락 분할 모델을 받지 못했습니다 (${error.message}).`);
+    console.warn(`   ${SOURCE_URL} 파일을 ${path.relative(ROOT, HAIR_SEGMENTER_PATH)} 에 직접 두면 됩니다.`);
+    console.warn('   모델이 없으면 얼굴 분석은 머리카락 마스크 없이 진행됩니다.');
+  }
+};
+
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  await fetchModel();
+}
@@ -0,0 +1,496 @@
+#!/usr/bin/env node
+// 오프라인 개발용 목 서버 - VModel / Cloudinary / Gemini / QR 코드 API 응답 형태를 흉내냄
+//
+// 사용법:
+//   npm run mock
+//   .env.local 에 아래 값 설정 후 npm run dev
+//     VITE_VMODEL_API_BASE_URL=http://localhost:4010
+//     VITE_CLOUDINARY_API_BASE_URL=http://localhost:4010
+//     VITE_GEMINI_API_BASE_URL=http://localhost:4010
+//     VITE_QR_API_BASE_URL=http://localhost:4010
+//   (API 키/토큰/클라우드 이름은 아무 값이나 입력 - 예: mock)
+//   머리카락 분할 모델(public/models/hair_segmenter.tflite)도 /models/hair_segmenter.tflite 로 제공
+//
+// 환경변수:
+//   MOCK_PORT              포트 (기본 4010)
+//   MOCK_TASK_SECONDS      VModel Task 처리 시간 (기본 8초)
+//   MOCK_TASK_FAIL_RATE    VModel Task 실패 확률 0~1 (기본 0)
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import zlib from 'node:zlib';
+import { HAIR_SEGMENTER_PATH } from './fetch-models.js';
+
+const PORT = Number(process.env.MOCK_PORT || 4010);
+const TASK_SECONDS = Number(process.env.MOCK_TASK_SECONDS || 8);
+const TASK_FAIL_RATE = Number(process.env.MOCK_TASK_FAIL_RATE || 0);
+const TASK_COST = 0.1;
+const BASE_URL = `http://localhost:${PORT}`;
+
+// 업로드된 이미지 (메모리 보관, 서버를 끄면 사라짐)
+const assets = new Map(); // assetId -> { data: Buffer, contentType: string }
+// VModel Task
+const tasks = new Map();  // taskId -> { task, input, canceled }
+
+// ============================================================================
+// 공통 유틸
+// ============================================================================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Requested-With'
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendBinary = (res, contentType, data) => {
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+  res.end(data);
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const readJson = async (req) => {
+  const body = await readBody(req);
+  return body.length > 0 ? JSON.parse(body.toString('utf8')) : {};
+};
+
+// multipart/form-data 파싱 (Node 18+ 내장 Response.formData 사용)
+const readFormData = async (req) => {
+  const body = await readBody(req);
+  return new Response(body, { headers: { 'Content-Type': req.headers['content-type'] || '' } }).formData();
+};
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================================================
+// 업로드 이미지 저장소
+// ============================================================================
+
+const saveAsset = (data, contentType) => {
+  const assetId = crypto.randomBytes(8).toString('hex');
+  assets.set(assetId, { data, contentType });
+  return assetId;
+};
+
+// 업로드 파일 또는 URL(목 서버 자신의 주소만 가능 - 오프라인)을 이미지로 읽기
+const readUploadedFile = async (file) => {
+  if (typeof file !== 'string') {
+    return { data: Buffer.from(await file.arrayBuffer()), contentType: file.type || 'image/jpeg' };
+  }
+
+  if (file.startsWith('data:')) {
+    const [meta, base64] = file.split(',');
+    return { data: Buffer.from(base64, 'base64'), contentType: meta.slice(5).split(';')[0] || 'image/jpeg' };
+  }
+
+  const response = await fetch(file);
+  if (!response.ok) {
+    throw new Error(`Error in loading ${file} - HTTP ${response.status}`);
+  }
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get('content-type') || 'image/jpeg'
+  };
+};
+
+// ============================================================================
+// Cloudinary
+// ============================================================================
+
+// POST /v1_1/:cloudName/image/upload
+const handleCloudinaryUpload = async (req, res, cloudName) => {
+  const form = await readFormData(req);
+  const file = form.get('file');
+  const uploadPreset = form.get('upload_preset');
+
+  if (!file) {
+    return sendJson(res, 400, { error: { message: 'Missing required parameter - file' } });
+  }
+  if (!uploadPreset) {
+    return sendJson(res, 400, { error: { message: 'Upload preset must be specified when using unsigned upload' } });
+  }
+
+  let asset;
+  try {
+    asset = await readUploadedFile(file);
+  } catch (error) {
+    return sendJson(res, 400, { error: { message: error.message } });
+  }
+
+  const assetId = saveAsset(asset.data, asset.contentType);
+  const format = asset.contentType.split('/')[1] || 'jpg';
+  const folder = form.get('folder');
+  const publicId = folder ? `${folder}/${assetId}` : assetId;
+  const version = Math.floor(Date.now() / 1000);
+  // 클라이언트가 '/upload/'를 변환 옵션으로 바꾸므로 실제 Cloudinary와 같은 경로 구조 사용
+  const secureUrl = `${BASE_URL}/${cloudName}/image/upload/v${version}/${publicId}.${format}`;
+
+  console.log(`☁️  Cloudinary 업로드: ${publicId} (${asset.data.length} bytes)`);
+  sendJson(res, 200, {
+    asset_id: assetId,
+    public_id: publicId,
+    version,
+    signature: crypto.createHash('sha1').update(publicId).digest('hex'),
+    width: 800,
+    height: 800,
+    format,
+    resource_type: 'image',
+    created_at: new Date().toISOString(),
+    tags: String(form.get('tags') || '').split(',').filter(Boolean),
+    bytes: asset.data.length,
+    type: 'upload',
+    etag: crypto.createHash('md5').update(asset.data).digest('hex'),
+    placeholder: false,
+    url: secureUrl,
+    secure_url: secureUrl,
+    access_mode: 'public',
+    original_filename: typeof file === 'string' ? 'remote' : (file.name || 'upload').replace(/\.[^.]+$/, '')
+  });
+};
+
+// GET /:cloudName/image/upload/[변환 옵션/]v123/folder/assetId.jpg
+const handleAssetGet = (res, pathname) => {
+  const fileName = pathname.split('/').pop() || '';
+  const asset = assets.get(fileName.replace(/\.[^.]+$/, ''));
+  if (!asset) {
+    return sendJson(res, 404, { error: { message: 'Resource not found' } });
+  }
+  sendBinary(res, asset.contentType, asset.data);
+};
+
+// ============================================================================
+// VModel
+// ============================================================================
+
+const getTaskStatus = (entry) => {
+  if (entry.canceled) return 'canceled';
+  const elapsed = (Date.now() - entry.task.create_at * 1000) / 1000;
+  if (elapsed < 1) return 'starting';
+  if (elapsed < TASK_SECONDS) return 'processing';
+  return entry.fails ? 'failed' : 'succeeded';
+};
+
+const toTaskResponse = (entry) => {
+  const status = getTaskStatus(entry);
+  const finished = status === 'succeeded' || status === 'failed' || status === 'canceled';
+  return {
+    ...entry.task,
+    status,
+    error: status === 'failed' ? 'Mock task failed (MOCK_TASK_FAIL_RATE)' : null,
+    predict_time: TASK_SECONDS,
+    total_time: finished ? TASK_SECONDS : 0,
+    logs: '',
+    // 결과 이미지: 얼굴 사진을 그대로 돌려줌
+    output: status === 'succeeded' ? [entry.input.target] : null,
+    completed_at: finished ? entry.task.create_at + TASK_SECONDS : null
+  };
+};
+
+const isAuthorized = (req) => /^Bearer \S+/.test(req.headers.authorization || '');
+
+// POST /api/tasks/v1/create
+const handleTaskCreate = async (req, res) => {
+  if (!isAuthorized(req)) {
+    return sendJson(res, 401, { code: 401, message: { en: 'Unauthorized' } });
+  }
+
+  const { version, input } = await readJson(req);
+  if (!version || !input?.source || !input?.target) {
+    return sendJson(res, 200, { code: 400, result: null, message: { en: 'Invalid input: version, input.source and input.target are required' } });
+  }
+
+  const taskId = crypto.randomBytes(6).toString('hex');
+  tasks.set(taskId, {
+    input,
+    canceled: false,
+    fails: Math.random() < TASK_FAIL_RATE,
+    task: {
+      task_id: taskId,
+      user_id: 1,
+      version,
+      create_at: Math.floor(Date.now() / 1000)
+    }
+  });
+
+  console.log(`🤖 VModel Task 생성: ${taskId}`);
+  sendJson(res, 200, {
+    code: 200,
+    result: { task_id: taskId, task_cost: TASK_COST },
+    message: { en: 'success' }
+  });
+};
+
+// GET /api/tasks/v1/get/:taskId
+const handleTaskGet = (req, res, taskId) => {
+  if (!isAuthorized(req)) {
+    return sendJson(res, 401, { code: 401, message: { en: 'Unauthorized' } });
+  }
+
+  const entry = tasks.get(taskId);
+  if (!entry) {
+    return sendJson(res, 404, { code: 404, result: null, message: { en: 'Task not found' } });
+  }
+  sendJson(res, 200, { code: 200, result: toTaskResponse(entry), message: {} });
+};
+
+// POST /api/tasks/v1/cancel/:taskId
+const handleTaskCancel = (req, res, taskId) => {
+  const entry = tasks.get(taskId);
+  if (!entry) {
+    return sendJson(res, 404, { code: 404, result: null, message: { en: 'Task not found' } });
+  }
+  if (getTaskStatus(entry) === 'starting' || getTaskStatus(entry) === 'processing') {
+    entry.canceled = true;
+    console.log(`🛑 VModel Task 취소: ${taskId}`);
+  }
+  sendJson(res, 200, { code: 200, result: toTaskResponse(entry), message: { en: 'success' } });
+};
+
+// ============================================================================
+// Gemini
+// ============================================================================
+
+// 프롬프트 종류별 JSON 응답 (각 서비스의 프롬프트 예시 형태와 동일)
+const buildAnalysisJson = (prompt) => {
+  if (prompt.includes('skinToneAnalysis')) {
+    return {
+      hairAnalysis: { currentColor: 'brown', texture: 'straight', length: 'medium', clarity: 0.8 },
+      skinToneAnalysis: {
+        type: 'warm',
+        undertone: 'peach',
+        rgbValue: 'rgb(200,170,145)',
+        suitableColors: ['browns', 'caramel'],
+        avoidColors: ['neon', 'icy blue']
+      }
+    };
+  }
+
+  if (prompt.includes('dominantColors')) {
+    return {
+      dominantColors: ['#8B4513', '#C49A6C'],
+      technique: 'full-color',
+      gradientPattern: 'uniform',
+      difficulty: 'easy',
+      suitableSkinTones: ['warm', 'neutral'],
+      compatibility: 0.8
+    };
+  }
+
+  if (prompt.includes('"fringe"')) {
+    // 헤어스타일 분석 - 프롬프트의 "a|b|c" 중 첫 번째 값 사용
+    const field = (name) => (prompt.match(new RegExp(`"${name}": "([^"]+)"`))?.[1] || '').split('|')[0];
+    return {
+      length: field('length') === 'buzz' ? 'medium' : field('length'),
+      texture: field('texture'),
+      fringe: field('fringe'),
+      parting: field('parting'),
+      volume: 'natural',
+      color: { name: 'ash brown', hex: '#6B5A4E' }
+    };
+  }
+
+  return { message: 'mock response' };
+};
+
+const textCandidate = (text) => ({
+  candidates: [{
+    content: { role: 'model', parts: [{ text }] },
+    finishReason: 'STOP',
+    index: 0
+  }],
+  usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 }
+});
+
+// POST /v1beta/models/:model:generateContent?key=...
+const handleGeminiGenerate = async (req, res, model, searchParams) => {
+  if (!searchParams.get('key')) {
+    return sendJson(res, 403, { error: { code: 403, message: 'Method doesn\'t allow unregistered callers.', status: 'PERMISSION_DENIED' } });
+  }
+
+  const body = await readJson(req);
+  const parts = body.contents?.[0]?.parts || [];
+  const prompt = parts.map(part => part.text || '').join('\n');
+  const image = parts.find(part => part.inline_data || part.inlineData);
+
+  // 이미지 생성 모델: 입력 이미지를 그대로 돌려줌
+  if (model.includes('image')) {
+    await delay(1500);
+    const inlineData = image?.inline_data || image?.inlineData;
+    console.log(`🎨 Gemini 이미지 생성 (${model})`);
+    return sendJson(res, 200, {
+      candidates: [{
+        content: {
+          role: 'model',
+          parts: [
+            { text: 'Here is the recolored image.' },
+            ...(inlineData ? [{ inlineData: { mimeType: inlineData.mime_type || inlineData.mimeType, data: inlineData.data } }] : [])
+          ]
+        },
+        finishReason: 'STOP',
+        index: 0
+      }]
+    });
+  }
+
+  await delay(500);
+  console.log(`🔍 Gemini 분석 (${model})`);
+  sendJson(res, 200, textCandidate(JSON.stringify(buildAnalysisJson(prompt), null, 2)));
+};
+
+// ============================================================================
+// QR 코드 (실제 QR이 아닌 데이터별 고유 패턴 PNG)
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type, data) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+// 흑백 PNG 생성 (isDark(x, y) => boolean)
+const createPng = (size, isDark) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8;  // bit depth
+  header[9] = 0;  // grayscale
+
+  const rows = Buffer.alloc(size * (size + 1));
+  for (let y = 0; y < size; y++) {
+    rows[y * (size + 1)] = 0; // filter: none
+    for (let x = 0; x < size; x++) {
+      rows[y * (size + 1) + 1 + x] = isDark(x, y) ? 0 : 255;
+    }
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(rows)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+// GET /v1/create-qr-code/?size=180x180&data=...
+const handleQrCode = (res, searchParams) => {
+  const size = Math.min(Number((searchParams.get('size') || '180x180').split('x')[0]) || 180, 1000);
+  const modules = 25;
+  const hash = crypto.createHash('sha256').update(searchParams.get('data') || '').digest();
+
+  const isFinder = (mx, my) => {
+    const corners = [[0, 0], [modules - 7, 0], [0, modules - 7]];
+    return corners.some(([cx, cy]) => {
+      const dx = mx - cx;
+      const dy = my - cy;
+      if (dx < 0 || dx > 6 || dy < 0 || dy > 6) return false;
+      return dx === 0 || dx === 6 || dy === 0 || dy === 6 || (dx >= 2 && dx <= 4 && dy >= 2 && dy <= 4);
+    });
+  };
+  const inFinderArea = (mx, my) => (mx < 8 && my < 8) || (mx >= modules - 8 && my < 8) || (mx < 8 && my >= modules - 8);
+
+  const png = createPng(size, (x, y) => {
+    const mx = Math.floor((x / size) * modules);
+    const my = Math.floor((y / size) * modules);
+    if (inFinderArea(mx, my)) return isFinder(mx, my);
+    const bit = my * modules + mx;
+    return ((hash[bit % hash.length] >> (bit % 8)) & 1) === 1;
+  });
+
+  sendBinary(res, 'image/png', png);
+};
+
+// ============================================================================
+// 머리카락 분할 모델 (npm run models:fetch 로 받은 파일)
+// ============================================================================
+
+// GET /models/hair_segmenter.tflite
+const handleHairSegmenterModel = (res) => {
+  if (!fs.existsSync(HAIR_SEGMENTER_PATH)) {
+    return sendJson(res, 404, { error: { message: 'hair_segmenter.tflite not found - run npm run models:fetch' } });
+  }
+  sendBinary(res, 'application/octet-stream', fs.readFileSync(HAIR_SEGMENTER_PATH));
+};
+
+// ============================================================================
+// 라우팅
+// ============================================================================
+
+const server = http.createServer(async (req, res) => {
+  const { pathname, searchParams } = new URL(req.url || '/', BASE_URL);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    return res.end();
+  }
+
+  try {
+    let match;
+
+    if (req.method === 'POST' && pathname === '/api/tasks/v1/create') {
+      return await handleTaskCreate(req, res);
+    }
+    if (req.method === 'GET' && (match = pathname.match(/^\/api\/tasks\/v1\/get\/([^/]+)$/))) {
+      return handleTaskGet(req, res, match[1]);
+    }
+    if (req.method === 'POST' && (match = pathname.match(/^\/api\/tasks\/v1\/cancel\/([^/]+)$/))) {
+      return handleTaskCancel(req, res, match[1]);
+    }
+    if (req.method === 'POST' && (match = pathname.match(/^\/v1_1\/([^/]+)\/image\/upload$/))) {
+      return await handleCloudinaryUpload(req, res, match[1]);
+    }
+    if (req.method === 'GET' && (match = pathname.match(/^\/v1_1\/([^/]+)\/image\/list$/))) {
+      return sendJson(res, 200, { resources: [] });
+    }
+    if (req.method === 'GET' && /^\/[^/]+\/image\/upload\//.test(pathname)) {
+      return handleAssetGet(res, pathname);
+    }
+    if (req.method === 'POST' && (match = pathname.match(/^\/v1beta\/models\/([^/:]+):generateContent$/))) {
+      return await handleGeminiGenerate(req, res, match[1], searchParams);
+    }
+    if (req.method === 'GET' && pathname.replace(/\/$/, '') === '/v1/create-qr-code') {
+      return handleQrCode(res, searchParams);
+    }
+    if (req.method === 'GET' && pathname === '/models/hair_segmenter.tflite') {
+      return handleHairSegmenterModel(res);
+    }
+
+    sendJson(res, 404, { error: { message: `Mock route not found: ${req.method} ${pathname}` } });
+  } catch (error) {
+    console.error('❌ 목 서버 오류:', error);
+    sendJson(res, 500, { error: { message: error instanceof Error ? error.message : String(error) } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🧪 Hairfolio 목 서버 실행 중: ${BASE_URL}`);
+  console.log(`   VModel Task 처리 시간 ${TASK_SECONDS}초, 실패 확률 ${TASK_FAIL_RATE}`);
+});
@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import * as firebaseService from './services/firebaseService';
 import * as authService from './services/firebaseAuthService';
+import { migrateEmbeddedPortfolio, migrateNameKeyedDesigner } from './services/designerMigrationService';
 import { UserType } from './types';
 import ClientView from './components/ClientView';
 import DesignerView from './components/DesignerView';
@@ -50,8 +51,10 @@ const App: React.FC = () => {
         const unsubscribe = authService.onAuthStateChange(async (user) => {
           // 🔥 최우선: URL에 designer 파라미터가 있으면 ClientView (포트폴리오 보기)
           if (designerFromUrl) {
-            console.log('🎯 고객용 포트폴리오 링크:', designerFromUrl);
-            setClientViewDesigner(designerFromUrl);
+            // 공개 주소 / UID / 예전 이름 링크를 디자이너 ID로 변환 (찾지 못하면 그대로 넘겨 '없는 디자이너' 화면 표시)
+            const designerId = await firebaseService.resolveDesignerId(designerFromUrl);
+            console.log('🎯 고객용 포트폴리오 링크:', designerFromUrl, '→', designerId);
+            setClientViewDesigner(designerId || designerFromUrl);
             setLoggedInDesigner(null);
             setLoggedInUserId(null);
             setLoggedInClient(null);
@@ -91,7 +94,15 @@ const App: React.FC = () => {
 
             if (currentUserType === 'designer') {
               // 디자이너 로그인
-              const designerData = await firebaseService.getDesignerDataById(user.uid);
+              // 문서 안의 포트폴리오 배열을 스타일 컬렉션으로 옮기고,
+              // 이름으로 저장되던 예전 문서 중 이 계정이 소유자로 기록된 문서는 UID 문서로 합치고, 공개 주소가 없으면 생성
+              await migrateEmbeddedPortfolio(user.uid);
+              let designerData = await firebaseService.getDesignerDataById(user.uid);
+              const migratedNames = await migrateNameKeyedDesigner(user.uid);
+              if (migratedNames.length > 0) {
+                designerData = await firebaseService.getDesignerDataById(user.uid);
+              }
+              await firebaseService.ensureDesignerSlug(user.uid, user.displayName || undefined);
               const displayName = user.displayName || designerData.profile?.name || t('common.designer');
               
               setLoggedInDesigner(displayName);
@@ -268,14 +279,8 @@ const App: React.FC = () => {
   } : null);
   const effectiveUserType = userType || storedUserType;
 
-  // URL 파라미터 재확인
-  const urlParams = new URLSearchParams(window.location.search);
-  const designerParam = urlParams.get('designer');
-  const designerFromUrl = designerParam ? decodeURIComponent(designerParam) : null;
-
   // 디버그 로그
   console.log('🎯 App 렌더링 상태:', {
-    designerFromUrl,
     clientViewDesigner,
     effectiveUserType,
     effectiveDesigner,
@@ -289,17 +294,17 @@ const App: React.FC = () => {
     <ErrorBoundary>
       <div className="min-h-screen bg-gray-50">
         {/* 1순위: URL 파라미터 (고객용 포트폴리오 링크) */}
-        {(designerFromUrl || clientViewDesigner) ? (
+        {clientViewDesigner ? (
           <>
-            {console.log('👤 ClientView 렌더링 (포트폴리오 보기):', designerFromUrl || clientViewDesigner)}
-            <ClientView designerName={designerFromUrl || clientViewDesigner!} />
+            {console.log('👤 ClientView 렌더링 (포트폴리오 보기):', clientViewDesigner)}
+            <ClientView designerId={clientViewDesigner} />
           </>
         ) : 
         // 2순위: 디자이너 로그인
         effectiveUserType === 'designer' && effectiveDesigner && effectiveUserId ? (
           <>
             {console.log('✅ DesignerView 렌더링:', { effectiveDesigner, effectiveUserId })}
-            <DesignerView designerName={effectiveUserId} onLogout={handleLogout} />
+            <DesignerView designerId={effectiveUserId} onLogout={handleLogout} />
           </>
         ) : 
         // 3순위: 일반 사용자 로그인 (신규)
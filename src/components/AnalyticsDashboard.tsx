@@ -1,28 +1,80 @@
-import React, { useMemo, useState } from 'react';
-import { DesignerStats, Hairstyle } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalyticsEventType, ColorTryOnResultKind, DesignerStats, Hairstyle, TryOnLedgerEntry } from '../types';
+import { getMonthStart, sumLedgerCost } from '../services/tryOnLedgerService';
+import {
+  AnalyticsSummary,
+  getRecentDateRange,
+  loadDailyRollups,
+  summarizeRollups,
+  toDateKey,
+  toDateKeyTimeRange
+} from '../services/analyticsService';
 
 interface AnalyticsDashboardProps {
+  designerId?: string;
   stats: DesignerStats;
   portfolio: Hairstyle[];
+  tryOnLedger?: TryOnLedgerEntry[];
+  monthlyTryOnBudget?: number;
 }
 
 type DatePreset = '7days' | '30days' | '90days' | 'all' | 'custom';
 
+// 키는 누적 통계면 이미지 URL, 기간 집계면 스타일 ID (ID 없는 예전 스타일은 URL)
 const findTopStyle = (
-  statsMap: { [url: string]: number },
+  statsMap: { [key: string]: number },
   portfolio: Hairstyle[]
 ): { style: Hairstyle | null; count: number } => {
   if (!statsMap || Object.keys(statsMap).length === 0) {
     return { style: null, count: 0 };
   }
 
-  const topUrl = Object.entries(statsMap).reduce((a, b) => (b[1] > a[1] ? b : a))[0];
-  const topStyle = portfolio.find((img) => img.url === topUrl) || null;
-  const topCount = statsMap[topUrl];
+  const topKey = Object.entries(statsMap).reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+  const topStyle = portfolio.find((img) => img.id === topKey || img.url === topKey) || null;
+  const topCount = statsMap[topKey];
 
   return { style: topStyle, count: topCount };
 };
 
+// 스타일별 집계에서 한 종류의 이벤트 수만 추출
+const pickStyleCounts = (summary: AnalyticsSummary, type: AnalyticsEventType): { [styleId: string]: number } => {
+  const counts: { [styleId: string]: number } = {};
+  Object.entries(summary.styles).forEach(([styleId, styleCounts]) => {
+    if (styleCounts[type]) counts[styleId] = styleCounts[type]!;
+  });
+  return counts;
+};
+
+// 크레딧 사용량을 날짜별(기간이 길면 월별)로 묶음
+const groupLedgerCost = (
+  entries: TryOnLedgerEntry[],
+  byMonth: boolean
+): { label: string; cost: number }[] => {
+  const buckets = new Map<string, number>();
+
+  entries.forEach(entry => {
+    const date = new Date(entry.createdAt);
+    const key = byMonth
+      ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+      : `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    buckets.set(key, (buckets.get(key) || 0) + (entry.cost || 0));
+  });
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, cost]) => ({ label: byMonth ? key : key.slice(5), cost }));
+};
+
+const COLOR_RESULT_KINDS: { kind: ColorTryOnResultKind; label: string; description: string; className: string }[] = [
+  { kind: 'generated', label: 'AI Generated', description: 'AI가 만든 결과', className: 'text-purple-600' },
+  { kind: 'fallback', label: 'Fallback', description: 'AI 실패 → 로컬 미리보기', className: 'text-amber-600' },
+  { kind: 'demo', label: 'Demo', description: 'API 키 없음 → 로컬 미리보기', className: 'text-gray-600' }
+];
+
+const formatCredits = (value: number): string => {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+};
+
 const StatCard: React.FC<{ title: string; children: React.ReactNode; className?: string }> = ({ title, children, className = '' }) => (
   <div className={`bg-white p-6 rounded-xl shadow-md ${className}`}>
     <h3 className="text-lg font-semibold text-gray-500 mb-4">{title}</h3>
@@ -30,85 +82,118 @@ const StatCard: React.FC<{ title: string; children: React.ReactNode; className?:
   </div>
 );
 
-const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ stats, portfolio }) => {
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ designerId, stats, portfolio, tryOnLedger = [], monthlyTryOnBudget = 0 }) => {
   const [datePreset, setDatePreset] = useState<DatePreset>('30days');
   const [customStartDate, setCustomStartDate] = useState('');
   const [customEndDate, setCustomEndDate] = useState('');
   const [showCustomDatePicker, setShowCustomDatePicker] = useState(false);
 
+  // 기간은 이벤트 날짜 키와 같은 UTC 날짜 (YYYY-MM-DD, 양 끝 포함)
   const dateRange = useMemo(() => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    
-    let startDate: Date;
-    let endDate = today;
-
     switch (datePreset) {
       case '7days':
-        startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - 7);
-        break;
+        return getRecentDateRange(7);
       case '30days':
-        startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - 30);
-        break;
+        return getRecentDateRange(30);
       case '90days':
-        startDate = new Date(today);
-        startDate.setDate(startDate.getDate() - 90);
-        break;
+        return getRecentDateRange(90);
       case 'custom':
-        if (customStartDate && customEndDate) {
-          startDate = new Date(customStartDate);
-          endDate = new Date(customEndDate);
-        } else {
-          startDate = new Date(today);
-          startDate.setDate(startDate.getDate() - 30);
-        }
-        break;
+        return customStartDate && customEndDate
+          ? { startDate: customStartDate, endDate: customEndDate }
+          : getRecentDateRange(30);
       case 'all':
       default:
-        startDate = new Date(2020, 0, 1);
-        break;
+        return { startDate: '2020-01-01', endDate: toDateKey(new Date()) };
     }
-
-    return { startDate, endDate };
   }, [datePreset, customStartDate, customEndDate]);
 
+  // 체험 결과 / 크레딧 내역을 거를 시각 범위 (종료일 당일까지 포함)
+  const timeRange = useMemo(() => toDateKeyTimeRange(dateRange.startDate, dateRange.endDate), [dateRange]);
+
   const filteredTrialResults = useMemo(() => {
     if (!stats.trialResults) return [];
     
     return stats.trialResults.filter(trial => {
       const trialDate = new Date(trial.timestamp);
-      return trialDate >= dateRange.startDate && trialDate <= dateRange.endDate;
+      return trialDate >= timeRange.start && trialDate < timeRange.end;
     });
-  }, [stats.trialResults, dateRange]);
+  }, [stats.trialResults, timeRange]);
+
+  // 기간을 고르면 이벤트 로그의 일별 집계로 계산 ('전체'는 누적 카운터 사용)
+  const [rangeSummary, setRangeSummary] = useState<AnalyticsSummary | null>(null);
+
+  useEffect(() => {
+    if (!designerId || datePreset === 'all') {
+      setRangeSummary(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadDailyRollups(designerId, dateRange.startDate, dateRange.endDate)
+      .then(rollups => {
+        if (!cancelled) setRangeSummary(summarizeRollups(rollups));
+      })
+      .catch(error => console.error('❌ Error loading daily rollups:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [designerId, datePreset, dateRange]);
 
   const filteredStats = useMemo(() => {
-    if (datePreset === 'all' || !stats.trialResults || stats.trialResults.length === 0) {
+    if (!rangeSummary) {
       return stats;
     }
 
-    const styleViews: { [url: string]: number } = {};
-    
-    filteredTrialResults.forEach(trial => {
-      styleViews[trial.styleUrl] = (styleViews[trial.styleUrl] || 0) + 1;
-    });
-
     return {
       ...stats,
-      styleViews,
+      visits: rangeSummary.counts.visit || 0,
+      styleViews: pickStyleCounts(rangeSummary, 'style_view'),
+      bookings: pickStyleCounts(rangeSummary, 'booking_click'),
+      colorTryOnResults: rangeSummary.colorResults
     };
-  }, [stats, filteredTrialResults, datePreset]);
+  }, [stats, rangeSummary]);
+
+  const periodLabel = rangeSummary ? '선택 기간' : '전체 기간';
 
   const topViewed = useMemo(() => findTopStyle(filteredStats.styleViews, portfolio), [filteredStats.styleViews, portfolio]);
   const topBooked = useMemo(() => findTopStyle(filteredStats.bookings, portfolio), [filteredStats.bookings, portfolio]);
   
   const totalStyleViews = useMemo(() => Object.values(filteredStats.styleViews || {}).reduce((sum, count) => sum + count, 0), [filteredStats.styleViews]);
   const totalBookings = useMemo(() => Object.values(filteredStats.bookings || {}).reduce((sum, count) => sum + count, 0), [filteredStats.bookings]);
-  const totalTrialResults = useMemo(() => filteredTrialResults.length, [filteredTrialResults]);
+  // 전체 기간은 누적 카운터 (카운터가 생기기 전에 기록된 결과는 목록 개수로)
+  const totalTrialResults = rangeSummary
+    ? rangeSummary.counts.try_on_succeeded || 0
+    : Math.max(stats.totalTrialResults || 0, filteredTrialResults.length);
 
   const hasData = stats.visits > 0 || totalStyleViews > 0;
 
+  const colorResultCounts = filteredStats.colorTryOnResults || {};
+  const totalColorResults = COLOR_RESULT_KINDS.reduce((sum, { kind }) => sum + (colorResultCounts[kind] || 0), 0);
+  const localColorResults = totalColorResults - (colorResultCounts.generated || 0);
+
+  // 크레딧 사용 내역 (종료일 당일까지 포함)
+  const filteredLedger = useMemo(() => {
+    return tryOnLedger.filter(entry => {
+      const createdAt = new Date(entry.createdAt);
+      return createdAt >= timeRange.start && createdAt < timeRange.end;
+    });
+  }, [tryOnLedger, timeRange]);
+
+  const totalSpend = useMemo(() => sumLedgerCost(filteredLedger), [filteredLedger]);
+  const monthlySpend = useMemo(() => {
+    const monthStart = getMonthStart();
+    return sumLedgerCost(tryOnLedger.filter(entry => new Date(entry.createdAt) >= monthStart));
+  }, [tryOnLedger]);
+  const failedTasks = useMemo(() => filteredLedger.filter(entry => entry.outcome === 'failed').length, [filteredLedger]);
+
+  const spendBuckets = useMemo(() => {
+    const rangeDays = (timeRange.end.getTime() - timeRange.start.getTime()) / (24 * 60 * 60 * 1000) - 1;
+    return groupLedgerCost(filteredLedger, rangeDays > 90);
+  }, [filteredLedger, timeRange]);
+  const maxBucketCost = Math.max(...spendBuckets.map(bucket => bucket.cost), 0);
+  const budgetUsage = monthlyTryOnBudget > 0 ? Math.min(monthlySpend / monthlyTryOnBudget, 1) : 0;
+
   const handlePresetChange = (preset: DatePreset) => {
     setDatePreset(preset);
     if (preset !== 'custom') {
@@ -116,21 +201,18 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ stats, portfoli
     } else {
       setShowCustomDatePicker(true);
       if (!customStartDate || !customEndDate) {
-        const today = new Date().toISOString().split('T')[0];
-        const monthAgo = new Date();
-        monthAgo.setDate(monthAgo.getDate() - 30);
-        const monthAgoStr = monthAgo.toISOString().split('T')[0];
-        
-        setCustomStartDate(monthAgoStr);
-        setCustomEndDate(today);
+        const { startDate, endDate } = getRecentDateRange(30);
+        setCustomStartDate(startDate);
+        setCustomEndDate(endDate);
       }
     }
   };
 
   const getDateRangeText = () => {
-    const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
-    const start = dateRange.startDate.toLocaleDateString('ko-KR', options);
-    const end = dateRange.endDate.toLocaleDateString('ko-KR', options);
+    // 날짜 키는 UTC 날짜이므로 UTC로 표시 (기기 시간대로 바꾸면 하루 어긋날 수 있음)
+    const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' };
+    const start = timeRange.start.toLocaleDateString('ko-KR', options);
+    const end = new Date(timeRange.end.getTime() - 1).toLocaleDateString('ko-KR', options);
     
     if (datePreset === 'all') return '전체 기간';
     return `${start} ~ ${end}`;
@@ -190,7 +272,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ stats, portfoli
                   type="date"
                   value={customStartDate}
                   onChange={(e) => setCustomStartDate(e.target.value)}
-                  max={customEndDate || new Date().toISOString().split('T')[0]}
+                  max={customEndDate || toDateKey(new Date())}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 />
               </div>
@@ -204,7 +286,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ stats, portfoli
                   value={customEndDate}
                   onChange={(e) => setCustomEndDate(e.target.value)}
                   min={customStartDate}
-                  max={new Date().toISOString().split('T')[0]}
+                  max={toDateKey(new Date())}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 />
               </div>
@@ -246,32 +328,121 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ stats, portfoli
         <StatCard title="Portfolio Overview">
           <div className="flex flex-col sm:flex-row justify-around text-center gap-6">
             <div>
-              <p className="text-5xl font-bold text-indigo-600">{stats.visits}</p>
+              <p className="text-5xl font-bold text-indigo-600">{filteredStats.visits}</p>
               <p className="text-sm text-gray-500 mt-1">Total Visits</p>
-              <p className="text-xs text-gray-400">전체 기간</p>
+              <p className="text-xs text-gray-400">{periodLabel}</p>
             </div>
             <div className="border-l border-gray-200 hidden sm:block"></div>
             <div>
               <p className="text-5xl font-bold text-indigo-600">{totalStyleViews}</p>
               <p className="text-sm text-gray-500 mt-1">Style Try-ons</p>
-              <p className="text-xs text-gray-400">{datePreset === 'all' ? '전체 기간' : '선택 기간'}</p>
+              <p className="text-xs text-gray-400">{periodLabel}</p>
             </div>
             <div className="border-l border-gray-200 hidden sm:block"></div>
             <div>
               <p className="text-5xl font-bold text-purple-600">{totalTrialResults}</p>
               <p className="text-sm text-gray-500 mt-1">Client Results</p>
-              <p className="text-xs text-gray-400">{datePreset === 'all' ? '전체 기간' : '선택 기간'}</p>
+              <p className="text-xs text-gray-400">
+                {periodLabel}
+                {rangeSummary && ` · 실패 ${rangeSummary.counts.try_on_failed || 0}건`}
+              </p>
             </div>
             <div className="border-l border-gray-200 hidden sm:block"></div>
             <div>
               <p className="text-5xl font-bold text-green-600">{totalBookings}</p>
               <p className="text-sm text-gray-500 mt-1">Bookings</p>
-              <p className="text-xs text-gray-400">전체 기간</p>
+              <p className="text-xs text-gray-400">{periodLabel}</p>
             </div>
+            {rangeSummary && (
+              <>
+                <div className="border-l border-gray-200 hidden sm:block"></div>
+                <div>
+                  <p className="text-5xl font-bold text-pink-600">{rangeSummary.counts.favorite || 0}</p>
+                  <p className="text-sm text-gray-500 mt-1">Favorites</p>
+                  <p className="text-xs text-gray-400">{periodLabel}</p>
+                </div>
+              </>
+            )}
           </div>
         </StatCard>
       )}
 
+      {tryOnLedger.length > 0 && (
+        <StatCard title={`AI Credit Spend (${datePreset === 'all' ? '전체' : '선택 기간'})`}>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 text-center">
+            <div>
+              <p className="text-4xl font-bold text-indigo-600">{formatCredits(totalSpend)}</p>
+              <p className="text-sm text-gray-500 mt-1">Credits Used</p>
+              <p className="text-xs text-gray-400">{filteredLedger.length}건 · 실패 {failedTasks}건</p>
+            </div>
+            <div className="sm:col-span-2 text-left">
+              <div className="flex items-baseline justify-between mb-2">
+                <p className="text-sm font-medium text-gray-700">이번 달 사용량</p>
+                <p className="text-sm text-gray-600">
+                  {formatCredits(monthlySpend)}
+                  {monthlyTryOnBudget > 0 ? ` / ${formatCredits(monthlyTryOnBudget)}` : ' (한도 없음)'}
+                </p>
+              </div>
+              {monthlyTryOnBudget > 0 && (
+                <>
+                  <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all duration-300 ${budgetUsage >= 1 ? 'bg-red-500' : budgetUsage >= 0.8 ? 'bg-yellow-500' : 'bg-indigo-600'}`}
+                      style={{ width: `${budgetUsage * 100}%` }}
+                    ></div>
+                  </div>
+                  {budgetUsage >= 1 && (
+                    <p className="text-xs text-red-600 mt-2">이번 달 한도를 모두 사용해 고객 가상체험이 중단되었습니다. 설정에서 한도를 조정할 수 있습니다.</p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          {spendBuckets.length > 0 ? (
+            <div className="mt-6 flex items-end gap-1 h-32 border-b border-gray-200">
+              {spendBuckets.map(bucket => (
+                <div key={bucket.label} className="flex-1 min-w-0 h-full flex flex-col justify-end items-center group">
+                  <span className="text-[10px] text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity">{formatCredits(bucket.cost)}</span>
+                  <div
+                    className="w-full max-w-[24px] bg-indigo-400 group-hover:bg-indigo-600 rounded-t transition-colors"
+                    style={{ height: `${maxBucketCost > 0 ? Math.max((bucket.cost / maxBucketCost) * 100, 2) : 0}%` }}
+                    title={`${bucket.label}: ${formatCredits(bucket.cost)}`}
+                  ></div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-6 text-center text-sm text-gray-500">선택한 기간에 크레딧 사용 내역이 없습니다.</p>
+          )}
+          {spendBuckets.length > 0 && (
+            <div className="flex justify-between text-xs text-gray-400 mt-1">
+              <span>{spendBuckets[0].label}</span>
+              <span>{spendBuckets[spendBuckets.length - 1].label}</span>
+            </div>
+          )}
+        </StatCard>
+      )}
+
+      {totalColorResults > 0 && (
+        <StatCard title={`Color Try-on Results (${periodLabel})`}>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 text-center">
+            {COLOR_RESULT_KINDS.map(({ kind, label, description, className }) => (
+              <div key={kind}>
+                <p className={`text-4xl font-bold ${className}`}>{colorResultCounts[kind] || 0}</p>
+                <p className="text-sm text-gray-500 mt-1">{label}</p>
+                <p className="text-xs text-gray-400">{description}</p>
+              </div>
+            ))}
+          </div>
+          {localColorResults > 0 && (
+            <p className="mt-4 text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+              고객이 본 염색 결과 중 {Math.round((localColorResults / totalColorResults) * 100)}%({localColorResults}건)는 AI 생성이 아닌 로컬 미리보기였습니다.
+            </p>
+          )}
+        </StatCard>
+      )}
+
       {hasData && totalStyleViews > 0 && (
         <StatCard title={`Recent Client Try-ons (${datePreset === 'all' ? '전체' : '선택 기간'})`}>
           {filteredTrialResults && filteredTrialResults.length > 0 ? (
@@ -297,6 +468,12 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ stats, portfoli
                         </svg>
                       </div>
                       
+                      {trial.resultKind && trial.resultKind !== 'generated' && (
+                        <div className="absolute top-2 left-2 bg-amber-500/90 text-white text-[10px] font-medium px-1.5 py-0.5 rounded">
+                          {trial.resultKind === 'demo' ? 'Demo' : 'Fallback'}
+                        </div>
+                      )}
+
                       {trial.styleName && (
                         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
                           <p className="text-white text-xs font-medium text-center truncate">
@@ -352,7 +529,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ stats, portfoli
             )}
           </StatCard>
           
-          <StatCard title="Top Booking Driver (전체 기간)">
+          <StatCard title={`Top Booking Driver (${periodLabel})`}>
             {topBooked.style ? (
               <div className="flex flex-col items-center justify-center text-center h-full">
                 <img src={topBooked.style.url} alt={topBooked.style.name} className="w-24 h-24 rounded-md object-cover mb-3" />
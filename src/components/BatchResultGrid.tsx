@@ -0,0 +1,174 @@
+import React, { useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Hairstyle, TryOnBatchItemState, TryOnProgressStage } from '../types';
+
+// 진행 단계 라벨 (ResultDisplay 타임라인과 같은 번역 키 사용)
+const STAGE_LABELS: Record<TryOnProgressStage, { labelKey: string; defaultLabel: string }> = {
+  'face-upload': { labelKey: 'result.timeline.faceUpload', defaultLabel: '얼굴 사진 업로드' },
+  'style-upload': { labelKey: 'result.timeline.styleUpload', defaultLabel: '스타일 이미지 업로드' },
+  'task-queued': { labelKey: 'result.timeline.taskQueued', defaultLabel: 'AI 작업 대기열 등록' },
+  'processing': { labelKey: 'result.timeline.processing', defaultLabel: 'AI 변환 처리' },
+  'saving-result': { labelKey: 'result.timeline.savingResult', defaultLabel: '결과 이미지 저장' }
+};
+
+interface BatchResultGridProps {
+  beforeSrc: string;
+  hairstyles: Hairstyle[];
+  items: Record<string, TryOnBatchItemState>;  // 스타일 URL별 진행 상태
+  onClose: () => void;
+  reservationUrl?: string;
+  onBookNow?: (hairstyle: Hairstyle) => void;
+}
+
+const BatchResultGrid: React.FC<BatchResultGridProps> = ({
+  beforeSrc,
+  hairstyles,
+  items,
+  onClose,
+  reservationUrl,
+  onBookNow
+}) => {
+  const { t } = useTranslation();
+
+  const states = hairstyles.map(hairstyle => items[hairstyle.url] || { status: 'queued' as const });
+  const finishedCount = states.filter(state => state.status === 'done' || state.status === 'error').length;
+  const isFinished = finishedCount === hairstyles.length;
+
+  // Close modal with escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = 'unset';
+    };
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-75 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="batch-result-title"
+    >
+      <div
+        className="bg-white w-full max-w-5xl max-h-[90vh] rounded-2xl shadow-2xl overflow-hidden animate-slide-up flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 id="batch-result-title" className="text-2xl font-bold text-gray-800">
+              {isFinished ? t('batch.completed', '스타일 비교') : t('result.processing', '처리중...')}
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {t('batch.progressCount', '{{finished}} / {{total}}개 스타일 완료', { finished: finishedCount, total: hairstyles.length })}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-gray-300"
+            aria-label={t('common.close', '닫기')}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Comparison Grid */}
+        <div className="p-6 overflow-y-auto">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {/* Before */}
+            <div className="space-y-2">
+              <div className="relative aspect-square bg-gray-100 rounded-xl overflow-hidden shadow-md">
+                <img
+                  src={beforeSrc}
+                  alt={t('result.originalPhoto', '원본 사진')}
+                  className="w-full h-full object-cover"
+                />
+              </div>
+              <p className="text-sm font-semibold text-gray-700 text-center">{t('result.before', '변환 전')}</p>
+            </div>
+
+            {hairstyles.map((hairstyle, index) => {
+              const state = states[index];
+
+              return (
+                <div key={hairstyle.url} className="space-y-2">
+                  <div className="relative aspect-square bg-gray-100 rounded-xl overflow-hidden shadow-md">
+                    {state.status === 'done' ? (
+                      <img
+                        src={state.result.imageUrl}
+                        alt={t('result.styleResult', '{{styleName}} 스타일 적용 결과', { styleName: hairstyle.name })}
+                        className="w-full h-full object-cover animate-fade-in"
+                      />
+                    ) : (
+                      <>
+                        <img
+                          src={hairstyle.url}
+                          alt={hairstyle.name}
+                          className="w-full h-full object-cover opacity-40"
+                        />
+                        <div className="absolute inset-0 flex flex-col items-center justify-center p-3 text-center">
+                          {state.status === 'error' ? (
+                            <>
+                              <div className="w-10 h-10 bg-red-100 rounded-full flex items-center justify-center mb-2">
+                                <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                              </div>
+                              <p className="text-xs text-red-700 font-medium line-clamp-3">
+                                {state.i18nKey ? t(state.i18nKey, state.error) : state.error}
+                              </p>
+                            </>
+                          ) : (
+                            <>
+                              <div className={`w-10 h-10 border-4 border-indigo-200 border-t-indigo-600 rounded-full mb-2 ${state.status === 'running' ? 'animate-spin' : ''}`}></div>
+                              <p className="text-xs text-gray-700 font-medium">
+                                {state.status === 'queued'
+                                  ? t('batch.queued', '순서 대기 중')
+                                  : state.progress
+                                  ? t(STAGE_LABELS[state.progress.stage].labelKey, STAGE_LABELS[state.progress.stage].defaultLabel)
+                                  : t('result.processing', '처리중...')}
+                              </p>
+                            </>
+                          )}
+                        </div>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-semibold text-gray-700 truncate">{hairstyle.name}</p>
+                    {state.status === 'done' && reservationUrl && onBookNow && (
+                      <button
+                        onClick={() => onBookNow(hairstyle)}
+                        className="flex-shrink-0 px-3 py-1 bg-green-600 text-white text-xs font-semibold rounded-lg hover:bg-green-700 transition-colors focus:outline-none focus:ring-2 focus:ring-green-500"
+                      >
+                        {t('result.bookNow', '예약하기')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchResultGrid;
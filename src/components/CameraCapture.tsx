@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { trackFaceInWorker } from '../services/faceMeshService';
+import { getCameraGuidance } from '../services/photoQualityService';
+import { CameraGuidance, FaceLandmark } from '../types';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+// 가이드 타원 (프레임 대비 비율, SVG viewBox 0-1)
+const GUIDE_OVAL = { cx: 0.5, cy: 0.45, rx: 0.22, ry: 0.34 };
+
+// 연속으로 이만큼 ready가 나오면 자동 촬영
+const READY_FRAMES_TO_CAPTURE = 3;
+
+// 프레임 분석 간격 (ms) - 워커가 한 번에 한 프레임씩 처리
+const TRACK_INTERVAL_MS = 150;
+
+const CAPTURE_QUALITY = 0.92;
+
+// 얼굴 중심과 가이드 중심의 거리 (프레임 대비)
+const getCenterOffset = (landmarks: FaceLandmark[]): number => {
+  const xs = landmarks.map(lm => lm.x);
+  const ys = landmarks.map(lm => lm.y);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  return Math.hypot(centerX - GUIDE_OVAL.cx, centerY - GUIDE_OVAL.cy);
+};
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const capturedRef = useRef(false);
+  const [isVideoReady, setIsVideoReady] = useState(false);
+  const [isTrackingAvailable, setIsTrackingAvailable] = useState(true);
+  const [guidance, setGuidance] = useState<CameraGuidance | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopStream = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  // 카메라 시작
+  useEffect(() => {
+    let cancelled = false;
+
+    const startCamera = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+          setIsVideoReady(true);
+        }
+      } catch (err) {
+        console.error('❌ 카메라 시작 실패:', err);
+        const denied = err instanceof DOMException && err.name === 'NotAllowedError';
+        setError(denied
+          ? t('camera.permissionDenied', '카메라 권한이 필요합니다. 브라우저 설정에서 카메라를 허용해주세요.')
+          : t('camera.unavailable', '카메라를 사용할 수 없습니다. 사진 파일을 업로드해주세요.'));
+      }
+    };
+
+    startCamera();
+    return () => {
+      cancelled = true;
+      stopStream();
+    };
+  }, [t]);
+
+  // 현재 프레임을 사진 파일로 저장
+  const capture = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || capturedRef.current || video.videoWidth === 0) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    capturedRef.current = true;
+
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        capturedRef.current = false;
+        setError(t('camera.captureFailed', '촬영에 실패했습니다. 다시 시도해주세요.'));
+        return;
+      }
+      console.log('📸 카메라 촬영 완료:', `${canvas.width}x${canvas.height}`);
+      stopStream();
+      onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', CAPTURE_QUALITY);
+  }, [onCapture, t]);
+
+  // 실시간 얼굴 추적 → 촬영 안내 → 자동 촬영
+  useEffect(() => {
+    if (!isVideoReady || !isTrackingAvailable) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let readyFrames = 0;
+
+    const trackNextFrame = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video || capturedRef.current) return;
+
+      try {
+        const frame = await createImageBitmap(video);
+        const result = await trackFaceInWorker(frame);
+        if (cancelled) return;
+
+        if (!result.detectorAvailable) {
+          console.warn('⚠️ 얼굴 추적을 사용할 수 없어 수동 촬영으로 전환');
+          setIsTrackingAvailable(false);
+          return;
+        }
+
+        const [primary] = result.faces;
+        const next = getCameraGuidance(result.metrics, primary ? getCenterOffset(primary) : 0);
+        setGuidance(next);
+
+        readyFrames = next.code === 'ready' ? readyFrames + 1 : 0;
+        if (readyFrames >= READY_FRAMES_TO_CAPTURE) {
+          capture();
+          return;
+        }
+      } catch (err) {
+        console.error('❌ 얼굴 추적 오류:', err);
+        setIsTrackingAvailable(false);
+        return;
+      }
+
+      timer = setTimeout(trackNextFrame, TRACK_INTERVAL_MS);
+    };
+
+    trackNextFrame();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [isVideoReady, isTrackingAvailable, capture]);
+
+  const isReady = guidance?.code === 'ready';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center p-4 z-50 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white flex items-center justify-between">
+          <h2 className="text-lg font-bold">{t('camera.title', '카메라로 촬영')}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white hover:bg-opacity-20 rounded-lg transition-colors"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 카메라 미리보기 + 가이드 */}
+        <div className="relative bg-black aspect-video">
+          {/* 셀카처럼 좌우 반전해서 보여주고, 저장은 원본 방향으로 */}
+          <video
+            ref={videoRef}
+            className="w-full h-full object-cover"
+            style={{ transform: 'scaleX(-1)' }}
+            playsInline
+            muted
+          />
+
+          {isVideoReady && (
+            <svg
+              className="absolute inset-0 w-full h-full"
+              viewBox="0 0 1 1"
+              preserveAspectRatio="none"
+              style={{ pointerEvents: 'none' }}
+            >
+              <defs>
+                <mask id="camera-guide-mask">
+                  <rect x="0" y="0" width="1" height="1" fill="white" />
+                  <ellipse {...GUIDE_OVAL} fill="black" />
+                </mask>
+              </defs>
+              <rect x="0" y="0" width="1" height="1" fill="rgba(0, 0, 0, 0.45)" mask="url(#camera-guide-mask)" />
+              <ellipse
+                {...GUIDE_OVAL}
+                fill="none"
+                stroke={isReady ? 'rgba(52, 211, 153, 0.95)' : 'rgba(255, 255, 255, 0.85)'}
+                strokeWidth="0.006"
+                strokeDasharray={isReady ? undefined : '0.02 0.012'}
+              />
+            </svg>
+          )}
+
+          {error && (
+            <div className="absolute inset-0 flex items-center justify-center p-6">
+              <p className="text-sm text-white text-center">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* 안내 + 촬영 버튼 */}
+        <div className="px-6 py-4 space-y-3">
+          <p className={`text-center text-sm font-medium ${isReady ? 'text-green-600' : 'text-gray-700'}`}>
+            {!isVideoReady
+              ? t('camera.starting', '카메라를 준비하는 중...')
+              : !isTrackingAvailable
+                ? t('camera.manualCapture', '얼굴을 가이드에 맞추고 촬영 버튼을 눌러주세요')
+                : guidance
+                  ? t(guidance.i18nKey, guidance.message)
+                  : t('camera.guidance.noFace', '얼굴을 가이드 안에 맞춰주세요')}
+          </p>
+          <button
+            onClick={capture}
+            disabled={!isVideoReady || !!error}
+            className="w-full py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('camera.capture', '촬영하기')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
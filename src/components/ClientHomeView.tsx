@@ -1,16 +1,27 @@
 // src/components/ClientHomeView.tsx - 일반 사용자 메인 화면 (전체 포트폴리오 통합)
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { analyzeHairstyle, applyHairstyle } from '../services/vmodelService';
+import { applyHairstyle, resumeTryOnTask } from '../services/tryOnService';
+import { getPendingTryOnTasks, isAbortError, TryOnTaskPendingError } from '../services/tryOnTaskManager';
+import { getTryOnCacheScope } from '../services/tryOnCacheService';
+import { getDescriptorKeywords, getHairstyleDescription } from '../services/hairstyleAnalysisService';
 import { analyzeFace } from '../services/faceAnalysisService';
+import { FACE_ANALYSIS_VERSION } from '../services/faceAnalysisSchema';
+import { getBlockingIssues, getQualityWarnings } from '../services/photoQualityService';
+import { toTryOnError, TryOnError } from '../services/tryOnErrors';
 import * as firebaseService from '../services/firebaseService';
+import { trackEvent } from '../services/analyticsService';
 import { 
   LoadingState, 
   Hairstyle, 
+  DesignerSettings,
   FaceAnalysis, 
   FaceShapeType,
   Gender,
   ServiceMajorCategory,
+  TryOnProgressEvent,
+  TryOnResult,
+  TryOnTaskRecord,
   getRecommendationScore
 } from '../types';
 import ImageUploader from './ImageUploader';
@@ -28,7 +39,9 @@ interface ClientHomeViewProps {
 interface PortfolioItem {
   designerId: string;
   designerName: string;
+  designerSlug?: string;
   designerProfile?: any;
+  designerSettings?: DesignerSettings;
   style: Hairstyle;
 }
 
@@ -42,6 +55,9 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
   const [isFaceAnalyzing, setIsFaceAnalyzing] = useState(false);
   const [showFaceAnalysisModal, setShowFaceAnalysisModal] = useState(false);
   
+  // 품질 경고를 확인하고 진행하기로 한 사진 (사진마다 한 번만 묻기)
+  const qualityWarningAcceptedRef = useRef<File | null>(null);
+  
   // 전체 포트폴리오 데이터
   const [allPortfolios, setAllPortfolios] = useState<PortfolioItem[]>([]);
   const [filteredPortfolios, setFilteredPortfolios] = useState<PortfolioItem[]>([]);
@@ -59,8 +75,16 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [loadingState, setLoadingState] = useState<LoadingState>('idle');
   const [error, setError] = useState<string | null>(null);
+  const [tryOnError, setTryOnError] = useState<TryOnError | null>(null);
   const [isResultModalOpen, setIsResultModalOpen] = useState(false);
   
+  // 진행 중인 가상체험 작업 (취소 / 새로고침 후 이어서 확인)
+  const tryOnAbortRef = useRef<AbortController | null>(null);
+  const [pendingTask, setPendingTask] = useState<TryOnTaskRecord | null>(null);
+  const [tryOnProgress, setTryOnProgress] = useState<TryOnProgressEvent | null>(null);
+  const hasCheckedPendingRef = useRef(false);
+  const tryOnScope = `client:${userId}`;
+  
   // 찜하기
   const [favorites, setFavorites] = useState<string[]>([]);
 
@@ -81,7 +105,9 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
             allStyles.push({
               designerId: portfolio.designerId,
               designerName: portfolio.designerName,
+              designerSlug: portfolio.designerSlug,
               designerProfile: portfolio.data.profile,
+              designerSettings: portfolio.data.settings,
               style: style
             });
           });
@@ -127,7 +153,8 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
         item.style.name.toLowerCase().includes(query) ||
         item.designerName.toLowerCase().includes(query) ||
         item.style.description?.toLowerCase().includes(query) ||
-        item.style.tags?.some(tag => tag.toLowerCase().includes(query))
+        item.style.tags?.some(tag => tag.toLowerCase().includes(query)) ||
+        getDescriptorKeywords(item.style.descriptor).some(keyword => keyword.toLowerCase().includes(query))
       );
     }
     
@@ -203,6 +230,7 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
       } catch (err) {
         console.error('❌ 얼굴 분석 오류:', err);
         setFaceAnalysis({
+          analysisVersion: FACE_ANALYSIS_VERSION,
           detected: false,
           faceShape: null,
           personalColor: null,
@@ -223,40 +251,26 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
     }
   }, [facePreview, error]);
 
-  // 스타일 선택 & AI 가상체험
-  const handleStyleSelect = useCallback(async (item: PortfolioItem) => {
-    if (!faceFile) {
-      setError('먼저 얼굴 사진을 업로드해주세요.');
-      return;
-    }
-
-    setSelectedStyle(item);
-    setLoadingState('analyzing');
-    setError(null);
-    setGeneratedImage(null);
-    setIsResultModalOpen(true);
+  // 가상체험 결과 처리 (새 요청 / 이어서 확인 공용)
+  const runTryOn = useCallback(async (
+    item: PortfolioItem,
+    run: (signal: AbortSignal) => Promise<TryOnResult>
+  ) => {
+    tryOnAbortRef.current?.abort();
+    const controller = new AbortController();
+    tryOnAbortRef.current = controller;
 
     try {
-      // 스타일 이미지 URL을 File로 변환
-      const response = await fetch(item.style.url);
-      const blob = await response.blob();
-      const styleFile = new File([blob], `${item.style.name}.jpg`, { type: 'image/jpeg' });
-
-      // AI 분석 & 적용
-      setLoadingState('analyzing');
-      const hairstyleDescription = await analyzeHairstyle(
-        styleFile,
-        faceAnalysis?.faceShape || undefined
-      );
-      
-      setLoadingState('generating');
-      const finalImage = await applyHairstyle(faceFile, styleFile, hairstyleDescription);
+      const tryOnResult = await run(controller.signal);
+      const finalImage = tryOnResult.imageUrl;
       
       setGeneratedImage(finalImage);
+      setPendingTask(null);
       setLoadingState('done');
 
       // 체험 기록 저장
       if (finalImage) {
+        trackEvent(item.designerId, 'try_on_succeeded', { source: 'client_home', style: item.style });
         await firebaseService.saveTryOnHistory({
           userId,
           designerId: item.designerId,
@@ -269,11 +283,138 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
         });
       }
     } catch (err) {
+      // 결과 창을 닫아 취소한 경우
+      if (isAbortError(err)) return;
+
+      // 대기 시간을 넘겼지만 작업은 계속 진행 중
+      if (err instanceof TryOnTaskPendingError) {
+        const [record] = await getPendingTryOnTasks(tryOnScope);
+        setPendingTask(record || null);
+        setLoadingState('pending');
+        return;
+      }
+
       console.error('가상체험 실패:', err);
-      setError('가상체험 중 오류가 발생했습니다.');
+      trackEvent(item.designerId, 'try_on_failed', { source: 'client_home', style: item.style });
+      const cause = toTryOnError(err);
+      setTryOnError(cause);
+      setError(cause.i18nKey ? t(cause.i18nKey, cause.message) : '가상체험 중 오류가 발생했습니다.');
       setLoadingState('error');
+    } finally {
+      if (tryOnAbortRef.current === controller) {
+        tryOnAbortRef.current = null;
+      }
+    }
+  }, [facePreview, faceAnalysis, userId, tryOnScope, t]);
+
+  // 스타일 선택 & AI 가상체험
+  // 가상체험 전 사진 품질 확인 - 막히는 문제가 있으면 중단, 경고만 있으면 확인 후 진행
+  const confirmPhotoQuality = useCallback((): boolean => {
+    const report = faceAnalysis?.quality;
+    const [blocking] = getBlockingIssues(report);
+    if (blocking) {
+      alert(`${t('quality.blocked', '이 사진으로는 가상체험을 할 수 없습니다.')}\n\n${t(blocking.i18nKey, blocking.message)}`);
+      return false;
+    }
+
+    const warnings = getQualityWarnings(report);
+    if (warnings.length === 0 || qualityWarningAcceptedRef.current === faceFile) {
+      return true;
+    }
+
+    const details = warnings.map(issue => `• ${t(issue.i18nKey, issue.message)}`).join('\n');
+    if (!window.confirm(`${t('quality.warnConfirm', '사진 상태 때문에 결과가 어색할 수 있습니다. 그래도 진행할까요?')}\n\n${details}`)) {
+      return false;
+    }
+    qualityWarningAcceptedRef.current = faceFile;
+    return true;
+  }, [faceAnalysis, faceFile, t]);
+
+  const handleStyleSelect = useCallback(async (item: PortfolioItem) => {
+    if (!faceFile) {
+      setError('먼저 얼굴 사진을 업로드해주세요.');
+      return;
     }
-  }, [faceFile, facePreview, faceAnalysis, userId]);
+    if (!confirmPhotoQuality()) return;
+
+    setSelectedStyle(item);
+    setLoadingState('analyzing');
+    setError(null);
+    setTryOnError(null);
+    setGeneratedImage(null);
+    setPendingTask(null);
+    setTryOnProgress(null);
+    setIsResultModalOpen(true);
+
+    trackEvent(item.designerId, 'style_view', { source: 'client_home', style: item.style });
+    trackEvent(item.designerId, 'try_on_started', { source: 'client_home', style: item.style });
+
+    await runTryOn(item, async (signal) => {
+      // 같은 얼굴 + 스타일로 체험한 적이 있으면 applyHairstyle이 저장된 결과를 바로 반환
+      const cacheScope = getTryOnCacheScope(item.designerId, item.designerSettings);
+      const cache = cacheScope && { ...cacheScope, styleId: item.style.id || item.style.url };
+
+      // 스타일 이미지 URL을 File로 변환
+      const response = await fetch(item.style.url);
+      const blob = await response.blob();
+      const styleFile = new File([blob], `${item.style.name}.jpg`, { type: 'image/jpeg' });
+
+      // 업로드 시 분석해 둔 스타일 정보로 설명 생성 & 적용
+      const hairstyleDescription = getHairstyleDescription(item.style);
+      
+      setLoadingState('generating');
+      return applyHairstyle(faceFile, styleFile, hairstyleDescription, {
+        signal,
+        onProgress: setTryOnProgress,
+        task: { scope: tryOnScope, styleUrl: item.style.url, styleName: item.style.name },
+        cache,
+        ledger: {
+          designerName: item.designerId,
+          styleUrl: item.style.url,
+          styleName: item.style.name,
+          monthlyBudget: item.designerSettings?.monthlyTryOnBudget
+        }
+      });
+    });
+  }, [faceFile, tryOnScope, runTryOn, confirmPhotoQuality]);
+
+  // 저장된 작업 이어서 확인
+  const resumePendingTask = useCallback(async (record: TryOnTaskRecord) => {
+    const item = allPortfolios.find(portfolioItem => portfolioItem.style.url === record.styleUrl) || {
+      designerId: '',
+      designerName: '',
+      style: { name: record.styleName || '', url: record.styleUrl }
+    };
+
+    setSelectedStyle(item);
+    setPendingTask(record);
+    setTryOnProgress(null);
+    setLoadingState('generating');
+    setError(null);
+    setTryOnError(null);
+    setGeneratedImage(null);
+    setIsResultModalOpen(true);
+
+    await runTryOn(item, (signal) => resumeTryOnTask(record, { signal, onProgress: setTryOnProgress }));
+  }, [allPortfolios, runTryOn]);
+
+  // 새로고침 전에 진행 중이던 작업이 있으면 이어서 확인
+  useEffect(() => {
+    if (isDataLoading || hasCheckedPendingRef.current) return;
+    hasCheckedPendingRef.current = true;
+
+    getPendingTryOnTasks(tryOnScope).then(([record]) => {
+      if (record) {
+        console.log('🔁 진행 중이던 가상체험 발견:', record.taskId);
+        resumePendingTask(record);
+      }
+    });
+  }, [isDataLoading, tryOnScope, resumePendingTask]);
+
+  // 언마운트 시 진행 중인 폴링 중단
+  useEffect(() => {
+    return () => tryOnAbortRef.current?.abort();
+  }, []);
 
   // 찜하기 토글
   const handleToggleFavorite = useCallback(async (item: PortfolioItem) => {
@@ -300,6 +441,7 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
           styleImageUrl: item.style.url
         });
         setFavorites(prev => [...prev, styleId]);
+        trackEvent(item.designerId, 'favorite', { source: 'client_home', style: item.style });
       }
     } catch (error) {
       console.error('찜하기 실패:', error);
@@ -308,13 +450,40 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
   }, [userId, favorites]);
 
   const handleCloseModal = useCallback(() => {
+    // 처리 중이면 작업 취소 ('pending' 상태의 작업은 다음 방문 때 이어서 확인)
+    tryOnAbortRef.current?.abort();
+    tryOnAbortRef.current = null;
+    setPendingTask(null);
+    setTryOnProgress(null);
     setIsResultModalOpen(false);
     setGeneratedImage(null);
     setSelectedStyle(null);
     setLoadingState('idle');
     setError(null);
+    setTryOnError(null);
   }, []);
 
+  // 오류 화면 - 같은 스타일로 다시 시도
+  const handleRetryTryOn = useCallback(() => {
+    if (selectedStyle) {
+      handleStyleSelect(selectedStyle);
+    }
+  }, [selectedStyle, handleStyleSelect]);
+
+  // 오류 화면 - 결과 창을 닫고 새 얼굴 사진 선택
+  const handleChangePhoto = useCallback(() => {
+    handleCloseModal();
+    handleFaceFileChange(null);
+    document.getElementById('face-uploader')?.click();
+  }, [handleCloseModal, handleFaceFileChange]);
+
+  // 오류 화면 - 디자이너 포트폴리오 페이지 열기 (예약 / 연락처)
+  const handleContactDesigner = useCallback(() => {
+    if (!selectedStyle?.designerId) return;
+    const designerUrl = `${window.location.origin}${window.location.pathname}?designer=${encodeURIComponent(selectedStyle.designerSlug || selectedStyle.designerId)}`;
+    window.open(designerUrl, '_blank', 'noopener,noreferrer');
+  }, [selectedStyle]);
+
   const isAIProcessing = loadingState === 'analyzing' || loadingState === 'generating' || isFaceAnalyzing;
 
   if (isDataLoading) {
@@ -408,6 +577,9 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
                 onFileChange={handleFaceFileChange}
                 icon={<UserIcon />}
                 disabled={isAIProcessing}
+                qualityReport={faceAnalysis?.quality}
+                isCheckingQuality={isFaceAnalyzing}
+                enableCamera
               />
               <div className="mt-3 text-xs text-gray-500 space-y-1">
                 <p>• AI 얼굴형 분석</p>
@@ -585,11 +757,17 @@ const ClientHomeView: React.FC<ClientHomeViewProps> = ({ userId, userName, onLog
       {/* 가상체험 결과 모달 */}
       {isResultModalOpen && selectedStyle && (
         <ResultDisplay
-          beforeSrc={facePreview!}
+          beforeSrc={facePreview || pendingTask?.faceImageUrl || ''}
           afterSrc={generatedImage}
           onReset={handleCloseModal}
+          onCheckAgain={pendingTask ? () => resumePendingTask(pendingTask) : undefined}
           loadingState={loadingState}
+          progress={tryOnProgress}
           error={error}
+          errorCause={tryOnError}
+          onRetry={handleRetryTryOn}
+          onChangePhoto={handleChangePhoto}
+          onContactDesigner={selectedStyle.designerId ? handleContactDesigner : undefined}
           reservationUrl=""
           hairstyle={selectedStyle.style}
           onBookNow={() => {}}
@@ -1,11 +1,20 @@
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
-import { analyzeHairstyle, applyHairstyle } from '../services/vmodelService'
+import { applyHairstyle, applyHairstyleBatch, MAX_BATCH_SIZE, resumeTryOnTask } from '../services/tryOnService'
+import { getPendingTryOnTasks, isAbortError, TryOnTaskPendingError } from '../services/tryOnTaskManager'
+import { getTryOnCacheScope } from '../services/tryOnCacheService'
+import { getHairstyleDescription } from '../services/hairstyleAnalysisService'
+import { toTryOnError, TryOnError } from '../services/tryOnErrors'
 import { analyzeFace } from '../services/faceAnalysisService'
+import { FACE_ANALYSIS_VERSION } from '../services/faceAnalysisSchema'
+import { getBlockingIssues, getQualityWarnings } from '../services/photoQualityService'
+import { ColorTryOnResult } from '../services/geminiColorService'
 import * as firebaseService from '../services/firebaseService'
-import { LoadingState, Hairstyle, DesignerProfile, FaceAnalysis } from '../types'
+import { trackEvent } from '../services/analyticsService'
+import { LoadingState, Hairstyle, DesignerProfile, DesignerSettings, FaceAnalysis, TryOnBatchItemState, TryOnProgressEvent, TryOnResult, TryOnTaskRecord } from '../types'
 import ImageUploader from './ImageUploader'
 import ResultDisplay from './ResultDisplay'
+import BatchResultGrid from './BatchResultGrid'
 import HairstyleGallery from './HairstyleGallery'
 import ColorTryOnModal from './ColorTryOnModal'
 import FaceAnalysisModal from './FaceAnalysisModal'
@@ -14,7 +23,7 @@ import LanguageSelector from './LanguageSelector'
 import UserIcon from './icons/UserIcon'
 
 interface ClientViewProps {
-  designerName: string
+  designerId: string
 }
 
 // Helper function to convert URL to File object
@@ -32,7 +41,7 @@ const urlToFile = async (url: string, filename: string, mimeType: string): Promi
   }
 }
 
-const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
+const ClientView: React.FC<ClientViewProps> = ({ designerId }) => {
   const { t } = useTranslation()
   
   // State for intro screen
@@ -47,10 +56,14 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
   const [isFaceAnalyzing, setIsFaceAnalyzing] = useState(false)
   const [showFaceAnalysisModal, setShowFaceAnalysisModal] = useState(false)
   
+  // 품질 경고를 확인하고 진행하기로 한 사진 (사진마다 한 번만 묻기)
+  const qualityWarningAcceptedRef = useRef<File | null>(null)
+  
   // State for designer data
   const [portfolio, setPortfolio] = useState<Hairstyle[]>([])
   const [reservationUrl, setReservationUrl] = useState<string>('')
   const [designerProfile, setDesignerProfile] = useState<DesignerProfile | null>(null)
+  const [designerSettings, setDesignerSettings] = useState<DesignerSettings | null>(null)
   const [isDataLoading, setIsDataLoading] = useState(true)
   
   // State for AI processing (VModel)
@@ -58,8 +71,22 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
   const [generatedImage, setGeneratedImage] = useState<string | null>(null)
   const [loadingState, setLoadingState] = useState<LoadingState>('idle')
   const [error, setError] = useState<string | null>(null)
+  const [tryOnError, setTryOnError] = useState<TryOnError | null>(null)
   const [isResultModalOpen, setIsResultModalOpen] = useState(false)
   
+  // 진행 중인 가상체험 작업 (취소 / 새로고침 후 이어서 확인)
+  const tryOnAbortRef = useRef<AbortController | null>(null)
+  const [pendingTask, setPendingTask] = useState<TryOnTaskRecord | null>(null)
+  const [tryOnProgress, setTryOnProgress] = useState<TryOnProgressEvent | null>(null)
+  const hasCheckedPendingRef = useRef(false)
+  
+  // State for batch try-on (여러 스타일 한번에 비교)
+  const [isBatchMode, setIsBatchMode] = useState(false)
+  const [batchSelection, setBatchSelection] = useState<Hairstyle[]>([])
+  const [batchItems, setBatchItems] = useState<Record<string, TryOnBatchItemState>>({})
+  const [isBatchModalOpen, setIsBatchModalOpen] = useState(false)
+  const batchAbortRef = useRef<AbortController | null>(null)
+  
   // State for Color Try-On (Advanced AI)
   const [showColorModal, setShowColorModal] = useState(false)
   const [selectedColorStyle, setSelectedColorStyle] = useState<Hairstyle | null>(null)
@@ -70,18 +97,20 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
     const loadDesignerData = async () => {
       try {
         setIsDataLoading(true)
-        console.log('디자이너 데이터 로딩 시작:', designerName)
+        console.log('디자이너 데이터 로딩 시작:', designerId)
         
         // Firebase에서 디자이너 데이터 로드 (localStorage 폴백 포함)
-        const data = await firebaseService.getDesignerData(designerName)
+        const data = await firebaseService.getDesignerData(designerId)
         console.log('로드한 데이터:', data)
         
         setPortfolio(data.portfolio || [])
         setReservationUrl(data.reservationUrl || '')
         setDesignerProfile(data.profile || null)
+        setDesignerSettings(data.settings || null)
         
         // Track visit
-        await firebaseService.trackVisit(designerName)
+        await firebaseService.trackVisit(designerId)
+        trackEvent(designerId, 'visit', { source: 'portfolio_link' })
         
         // 프로필 이미지가 없으면 인트로 건너뛰기
         if (!data.profile?.profileImage) {
@@ -97,7 +126,7 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
     }
     
     loadDesignerData()
-  }, [designerName, t])
+  }, [designerId, t])
 
   // Handle intro completion
   const handleIntroComplete = useCallback(() => {
@@ -137,6 +166,7 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
       } catch (err) {
         console.error('❌ 얼굴 분석 오류:', err)
         setFaceAnalysis({
+          analysisVersion: FACE_ANALYSIS_VERSION,
           detected: false,
           faceShape: null,
           personalColor: null,
@@ -162,28 +192,126 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
     setShowFaceAnalysisModal(false)
   }, [])
 
+  // 가상체험 결과 캐시 범위 (디자이너가 캐시를 끄면 null)
+  const tryOnCacheScope = useMemo(
+    () => getTryOnCacheScope(designerId, designerSettings),
+    [designerId, designerSettings]
+  )
+
+  // 가상체험 결과 처리 (새 요청 / 이어서 확인 공용)
+  const runTryOn = useCallback(async (
+    hairstyle: Hairstyle,
+    run: (signal: AbortSignal) => Promise<TryOnResult>
+  ) => {
+    tryOnAbortRef.current?.abort()
+    const controller = new AbortController()
+    tryOnAbortRef.current = controller
+
+    try {
+      const tryOnResult = await run(controller.signal)
+      const finalImage = tryOnResult.imageUrl
+      
+      setGeneratedImage(finalImage)
+      setPendingTask(null)
+      setLoadingState('done')
+
+      // Track trial result - 성공한 경우에만 저장
+      if (finalImage) {
+        trackEvent(designerId, 'try_on_succeeded', { source: 'portfolio_link', style: hairstyle })
+        try {
+          await firebaseService.trackTrialResult(designerId, {
+            styleUrl: hairstyle.url,
+            resultUrl: finalImage,
+            styleName: hairstyle.name,
+            type: 'cut',
+            faceAnalysis: faceAnalysis || undefined
+          })
+          console.log('Trial result tracked successfully')
+        } catch (trackError) {
+          console.error('Error tracking trial result:', trackError)
+          // 추적 실패는 사용자 경험에 영향을 주지 않음
+        }
+      }
+    } catch (err) {
+      // 결과 창을 닫아 취소한 경우
+      if (isAbortError(err)) return
+
+      // 대기 시간을 넘겼지만 작업은 계속 진행 중
+      if (err instanceof TryOnTaskPendingError) {
+        const [record] = await getPendingTryOnTasks(designerId)
+        setPendingTask(record || null)
+        setLoadingState('pending')
+        return
+      }
+
+      console.error('Error processing hairstyle:', err)
+      trackEvent(designerId, 'try_on_failed', { source: 'portfolio_link', style: hairstyle })
+      
+      // 원인별 안내 문구와 다음 행동은 ResultDisplay에서 표시
+      const cause = toTryOnError(err)
+      setTryOnError(cause)
+      setError(cause.i18nKey ? t(cause.i18nKey, cause.message) : `${t('client.hairstyleApplyError')}: ${cause.message}`)
+      setLoadingState('error')
+    } finally {
+      if (tryOnAbortRef.current === controller) {
+        tryOnAbortRef.current = null
+      }
+    }
+  }, [faceAnalysis, designerId, t])
+
+  // 가상체험 전 사진 품질 확인 - 막히는 문제가 있으면 중단, 경고만 있으면 확인 후 진행
+  const confirmPhotoQuality = useCallback((): boolean => {
+    const report = faceAnalysis?.quality
+    const [blocking] = getBlockingIssues(report)
+    if (blocking) {
+      alert(`${t('quality.blocked', '이 사진으로는 가상체험을 할 수 없습니다.')}\n\n${t(blocking.i18nKey, blocking.message)}`)
+      return false
+    }
+
+    const warnings = getQualityWarnings(report)
+    if (warnings.length === 0 || qualityWarningAcceptedRef.current === faceFile) {
+      return true
+    }
+
+    const details = warnings.map(issue => `• ${t(issue.i18nKey, issue.message)}`).join('\n')
+    if (!window.confirm(`${t('quality.warnConfirm', '사진 상태 때문에 결과가 어색할 수 있습니다. 그래도 진행할까요?')}\n\n${details}`)) {
+      return false
+    }
+    qualityWarningAcceptedRef.current = faceFile
+    return true
+  }, [faceAnalysis, faceFile, t])
+
   // Handle regular hairstyle selection (VModel processing)
   const handleHairstyleSelect = useCallback(async (hairstyle: Hairstyle) => {
     if (!faceFile) {
       setError(t('client.uploadPhotoFirst'))
       return
     }
+    if (!confirmPhotoQuality()) return
 
     // Reset previous results
     setSelectedHairstyle(hairstyle)
     setLoadingState('analyzing')
     setError(null)
+    setTryOnError(null)
     setGeneratedImage(null)
+    setPendingTask(null)
+    setTryOnProgress(null)
     setIsResultModalOpen(true)
 
     // Track style view
     try {
-      await firebaseService.trackStyleView(designerName, hairstyle.url)
+      await firebaseService.trackStyleView(designerId, hairstyle.url)
     } catch (trackError) {
       console.error('Error tracking style view:', trackError)
     }
+    trackEvent(designerId, 'style_view', { source: 'portfolio_link', style: hairstyle })
+    trackEvent(designerId, 'try_on_started', { source: 'portfolio_link', style: hairstyle })
+
+    await runTryOn(hairstyle, async (signal) => {
+      // 같은 얼굴 + 스타일로 체험한 적이 있으면 applyHairstyle이 저장된 결과를 바로 반환
+      const cache = tryOnCacheScope && { ...tryOnCacheScope, styleId: hairstyle.id || hairstyle.url }
 
-    try {
       // Convert hairstyle URL to File
       const hairstyleFile = await urlToFile(
         hairstyle.url, 
@@ -191,44 +319,178 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
         'image/jpeg'
       )
 
-      // 🆕 Analyze hairstyle with face shape info
-      setLoadingState('analyzing')
-      const hairstyleDescription = await analyzeHairstyle(
-        hairstyleFile,
-        faceAnalysis?.faceShape || undefined
-      )
+      // 업로드 시 분석해 둔 스타일 정보로 설명 생성
+      const hairstyleDescription = getHairstyleDescription(hairstyle)
       
       // Apply hairstyle to face
       setLoadingState('generating')
-      const finalImage = await applyHairstyle(faceFile, hairstyleFile, hairstyleDescription)
-      
-      setGeneratedImage(finalImage)
-      setLoadingState('done')
-
-      // Track trial result - 성공한 경우에만 저장
-      if (finalImage) {
-        try {
-          await firebaseService.trackTrialResult(designerName, {
-            styleUrl: hairstyle.url,
-            resultUrl: finalImage,
-            styleName: hairstyle.name,
-            type: 'cut',
-            faceAnalysis: faceAnalysis || undefined
-          })
-          console.log('Trial result tracked successfully')
-        } catch (trackError) {
-          console.error('Error tracking trial result:', trackError)
-          // 추적 실패는 사용자 경험에 영향을 주지 않음
+      return applyHairstyle(faceFile, hairstyleFile, hairstyleDescription, {
+        signal,
+        onProgress: setTryOnProgress,
+        task: { scope: designerId, styleUrl: hairstyle.url, styleName: hairstyle.name },
+        cache,
+        ledger: {
+          designerName: designerId,
+          styleUrl: hairstyle.url,
+          styleName: hairstyle.name,
+          monthlyBudget: designerSettings?.monthlyTryOnBudget
         }
+      })
+    })
+  }, [faceFile, designerId, designerSettings, tryOnCacheScope, runTryOn, confirmPhotoQuality, t])
+
+  // 저장된 작업 이어서 확인
+  const resumePendingTask = useCallback(async (record: TryOnTaskRecord) => {
+    const hairstyle = portfolio.find(style => style.url === record.styleUrl) || {
+      name: record.styleName || '',
+      url: record.styleUrl
+    }
+
+    setSelectedHairstyle(hairstyle)
+    setPendingTask(record)
+    setTryOnProgress(null)
+    setLoadingState('generating')
+    setError(null)
+    setTryOnError(null)
+    setGeneratedImage(null)
+    setIsResultModalOpen(true)
+
+    await runTryOn(hairstyle, (signal) => resumeTryOnTask(record, { signal, onProgress: setTryOnProgress }))
+  }, [portfolio, runTryOn])
+
+  // 새로고침 전에 진행 중이던 작업이 있으면 이어서 확인
+  useEffect(() => {
+    if (isDataLoading || hasCheckedPendingRef.current) return
+    hasCheckedPendingRef.current = true
+
+    getPendingTryOnTasks(designerId).then(([record]) => {
+      if (record) {
+        console.log('🔁 진행 중이던 가상체험 발견:', record.taskId)
+        resumePendingTask(record)
       }
+    })
+  }, [isDataLoading, designerId, resumePendingTask])
+
+  // 언마운트 시 진행 중인 폴링 중단
+  useEffect(() => {
+    return () => {
+      tryOnAbortRef.current?.abort()
+      batchAbortRef.current?.abort()
+    }
+  }, [])
+
+  // 여러 장 선택 모드 - 스타일 선택/해제
+  const handleBatchToggle = useCallback((hairstyle: Hairstyle) => {
+    setBatchSelection(prev => {
+      if (prev.some(style => style.url === hairstyle.url)) {
+        return prev.filter(style => style.url !== hairstyle.url)
+      }
+      if (prev.length >= MAX_BATCH_SIZE) {
+        alert(t('batch.maxReached', '한 번에 최대 {{max}}개까지 비교할 수 있습니다.', { max: MAX_BATCH_SIZE }))
+        return prev
+      }
+      return [...prev, hairstyle]
+    })
+  }, [t])
+
+  // 선택한 스타일 한번에 체험
+  const handleBatchTryOn = useCallback(async () => {
+    if (!faceFile) {
+      setError(t('client.uploadPhotoFirst'))
+      return
+    }
+    if (batchSelection.length === 0) return
+    if (!confirmPhotoQuality()) return
+
+    batchAbortRef.current?.abort()
+    const controller = new AbortController()
+    batchAbortRef.current = controller
+
+    setBatchItems({})
+    setIsBatchModalOpen(true)
+
+    // Track style views
+    batchSelection.forEach(hairstyle => {
+      firebaseService.trackStyleView(designerId, hairstyle.url).catch(console.error)
+      trackEvent(designerId, 'style_view', { source: 'portfolio_link', style: hairstyle })
+      trackEvent(designerId, 'try_on_started', { source: 'portfolio_link', style: hairstyle })
+    })
+
+    // 결과가 나온 스타일 (공통 단계 실패 시 나머지만 실패로 기록)
+    const settled = new Set<string>()
+
+    try {
+      await applyHairstyleBatch(
+        faceFile,
+        batchSelection.map(hairstyle => ({
+          id: hairstyle.url,
+          styleId: hairstyle.id || hairstyle.url,
+          styleName: hairstyle.name,
+          hairstyleFile: hairstyle.url,
+          hairstyleDescription: getHairstyleDescription(hairstyle)
+        })),
+        {
+          signal: controller.signal,
+          cache: tryOnCacheScope,
+          ledger: { designerName: designerId, monthlyBudget: designerSettings?.monthlyTryOnBudget },
+          onItemUpdate: (styleId, state) => {
+            setBatchItems(prev => ({ ...prev, [styleId]: state }))
+
+            const hairstyle = batchSelection.find(style => style.url === styleId)
+            if (state.status === 'error' && !settled.has(styleId)) {
+              settled.add(styleId)
+              trackEvent(designerId, 'try_on_failed', { source: 'portfolio_link', style: hairstyle || { url: styleId } })
+            }
+
+            // Track trial result - 성공한 경우에만 저장
+            if (state.status === 'done' && !settled.has(styleId)) {
+              settled.add(styleId)
+              trackEvent(designerId, 'try_on_succeeded', { source: 'portfolio_link', style: hairstyle || { url: styleId } })
+              firebaseService.trackTrialResult(designerId, {
+                styleUrl: styleId,
+                resultUrl: state.result.imageUrl,
+                styleName: hairstyle?.name
+              }).catch(console.error)
+            }
+          }
+        }
+      )
     } catch (err) {
-      console.error('Error processing hairstyle:', err)
-      
-      const errorMessage = err instanceof Error ? err.message : t('client.unknownError')
-      setError(`${t('client.hairstyleApplyError')}: ${errorMessage}`)
-      setLoadingState('error')
+      // 결과 창을 닫아 취소한 경우
+      if (isAbortError(err)) return
+
+      console.error('Error processing batch try-on:', err)
+
+      // 얼굴 사진 업로드 등 공통 단계 실패 - 남은 스타일 모두 실패 처리
+      const cause = toTryOnError(err)
+      const errorMessage = cause.i18nKey ? t(cause.i18nKey, cause.message) : cause.message
+      batchSelection
+        .filter(hairstyle => !settled.has(hairstyle.url))
+        .forEach(hairstyle => trackEvent(designerId, 'try_on_failed', { source: 'portfolio_link', style: hairstyle }))
+      setBatchItems(prev => {
+        const next = { ...prev }
+        batchSelection.forEach(hairstyle => {
+          const status = next[hairstyle.url]?.status
+          if (status !== 'done' && status !== 'error') {
+            next[hairstyle.url] = { status: 'error', error: errorMessage }
+          }
+        })
+        return next
+      })
+    } finally {
+      if (batchAbortRef.current === controller) {
+        batchAbortRef.current = null
+      }
     }
-  }, [faceFile, faceAnalysis, designerName, t])
+  }, [faceFile, batchSelection, designerId, designerSettings, tryOnCacheScope, confirmPhotoQuality, t])
+
+  // 여러 스타일 결과 창 닫기 (진행 중인 작업 취소)
+  const handleCloseBatchModal = useCallback(() => {
+    batchAbortRef.current?.abort()
+    batchAbortRef.current = null
+    setIsBatchModalOpen(false)
+    setBatchItems({})
+  }, [])
 
   // Handle color try-on selection (Advanced AI processing)
   const handleColorTryOn = useCallback((colorStyle: Hairstyle) => {
@@ -243,8 +505,9 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
     setShowColorModal(true)
     
     // Track color style view
-    firebaseService.trackStyleView(designerName, colorStyle.url).catch(console.error)
-  }, [designerName, faceFile])
+    firebaseService.trackStyleView(designerId, colorStyle.url).catch(console.error)
+    trackEvent(designerId, 'style_view', { source: 'portfolio_link', style: colorStyle })
+  }, [designerId, faceFile])
 
   // Handle color try-on completion
   const handleColorTryOnComplete = useCallback((result: any) => {
@@ -253,15 +516,22 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
     
     // Track color trial result
     if (result && selectedColorStyle) {
-      firebaseService.trackTrialResult(designerName, {
+      firebaseService.trackTrialResult(designerId, {
         styleUrl: selectedColorStyle.url,
         resultUrl: result.resultImageUrl,
         styleName: selectedColorStyle.name,
         type: 'color',
+        resultKind: result.resultKind,
         faceAnalysis: faceAnalysis || undefined
       }).catch(console.error)
     }
-  }, [designerName, selectedColorStyle, faceAnalysis])
+  }, [designerId, selectedColorStyle, faceAnalysis])
+
+  // 염색 결과가 표시될 때마다 결과 종류 집계 (예약 여부와 관계없이)
+  const handleColorTryOnResult = useCallback((result: ColorTryOnResult) => {
+    firebaseService.trackColorTryOnResult(designerId, result.resultKind).catch(console.error)
+    trackEvent(designerId, 'color_try_on', { source: 'portfolio_link', style: selectedColorStyle || undefined, resultKind: result.resultKind })
+  }, [designerId, selectedColorStyle])
 
   // Handle color modal close
   const handleColorModalClose = useCallback(() => {
@@ -271,21 +541,56 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
 
   // Handle result modal close
   const handleCloseModal = useCallback(() => {
+    // 처리 중이면 작업 취소 ('pending' 상태의 작업은 다음 방문 때 이어서 확인)
+    tryOnAbortRef.current?.abort()
+    tryOnAbortRef.current = null
+    setPendingTask(null)
+    setTryOnProgress(null)
     setIsResultModalOpen(false)
     setGeneratedImage(null)
     setSelectedHairstyle(null)
     setLoadingState('idle')
     setError(null)
+    setTryOnError(null)
   }, [])
+
+  // 오류 화면 - 같은 스타일로 다시 시도
+  const handleRetryTryOn = useCallback(() => {
+    if (selectedHairstyle) {
+      handleHairstyleSelect(selectedHairstyle)
+    }
+  }, [selectedHairstyle, handleHairstyleSelect])
+
+  // 오류 화면 - 결과 창을 닫고 새 얼굴 사진 선택
+  const handleChangePhoto = useCallback(() => {
+    handleCloseModal()
+    handleFaceFileChange(null)
+    document.getElementById('face-uploader')?.click()
+  }, [handleCloseModal, handleFaceFileChange])
+
+  // 오류 화면 - 디자이너 연락처 (전화 → 예약 링크 → SNS 순)
+  const designerContactUrl = useMemo(() => {
+    if (designerProfile?.phone) return `tel:${designerProfile.phone}`
+    return reservationUrl || designerProfile?.socialLinks?.instagram || designerProfile?.socialLinks?.website || ''
+  }, [designerProfile, reservationUrl])
+
+  const handleContactDesigner = useCallback(() => {
+    if (designerContactUrl.startsWith('tel:')) {
+      window.location.href = designerContactUrl
+    } else {
+      window.open(designerContactUrl, '_blank', 'noopener,noreferrer')
+    }
+  }, [designerContactUrl])
   
   // Handle booking
   const handleBookNow = useCallback(async (hairstyle: Hairstyle) => {
     // Track booking
     try {
-      await firebaseService.trackBooking(designerName, hairstyle.url)
+      await firebaseService.trackBooking(designerId, hairstyle.url)
     } catch (trackError) {
       console.error('Error tracking booking:', trackError)
     }
+    trackEvent(designerId, 'booking_click', { source: 'portfolio_link', style: hairstyle })
     
     // Open reservation URL
     if (reservationUrl) {
@@ -293,7 +598,7 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
     } else {
       alert(t('client.noReservationLink'))
     }
-  }, [designerName, reservationUrl, t])
+  }, [designerId, reservationUrl, t])
   
   // Check if processing is in progress
   const isAIProcessing = loadingState === 'analyzing' || loadingState === 'generating' || isFaceAnalyzing
@@ -361,7 +666,7 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
                 {designerProfile?.profileImage ? (
                   <img
                     src={designerProfile.profileImage}
-                    alt={designerProfile.name || designerName}
+                    alt={designerProfile.name || designerId}
                     className="w-20 h-20 rounded-full object-cover border-4 border-indigo-100 shadow-lg"
                     onError={(e) => {
                       // Fallback to initials if profile image fails to load
@@ -375,14 +680,14 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
                   />
                 ) : null}
                 <div className={`w-20 h-20 rounded-full bg-gradient-to-br from-indigo-600 to-purple-600 flex items-center justify-center text-white font-bold text-xl border-4 border-indigo-100 shadow-lg profile-fallback ${designerProfile?.profileImage ? 'hidden' : ''}`}>
-                  {getDesignerInitials(designerProfile?.name || designerName)}
+                  {getDesignerInitials(designerProfile?.name || designerId)}
                 </div>
               </div>
 
               {/* Designer Info */}
               <div className="flex-1 text-center sm:text-left">
                 <h2 className="text-2xl font-bold text-gray-800 mb-1">
-                  {designerProfile?.name || designerName}
+                  {designerProfile?.name || designerId}
                 </h2>
                 {designerProfile?.bio && (
                   <p className="text-gray-600 text-sm mb-3 leading-relaxed">
@@ -555,7 +860,7 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
               </div>
               <h2 className="text-2xl font-bold text-gray-700 mb-2">{t('client.portfolioNotFound')}</h2>
               <p className="text-gray-500">
-                {t('client.portfolioNotFoundDesc', { designerName: designerProfile?.name || designerName })}
+                {t('client.portfolioNotFoundDesc', { designerName: designerProfile?.name || designerId })}
               </p>
               <button
                 onClick={() => window.history.back()}
@@ -579,6 +884,9 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
                   onFileChange={handleFaceFileChange}
                   icon={<UserIcon />}
                   disabled={isAIProcessing}
+                  qualityReport={faceAnalysis?.quality}
+                  isCheckingQuality={isFaceAnalyzing}
+                  enableCamera
                 />
                 <div className="mt-4 text-xs text-gray-500 text-center">
                   <p>• {t('client.supportedFormats')}</p>
@@ -607,12 +915,48 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
                   </div>
                 )}
 
+                {/* 여러 스타일 비교 모드 */}
+                {portfolio.length > 1 && (
+                  <div className="mb-4 flex flex-wrap items-center justify-between gap-3 p-3 bg-indigo-50 rounded-lg border border-indigo-100">
+                    <label className="flex items-center gap-2 text-sm font-medium text-indigo-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={isBatchMode}
+                        onChange={(e) => {
+                          setIsBatchMode(e.target.checked)
+                          setBatchSelection([])
+                        }}
+                        disabled={!faceFile || isAIProcessing}
+                        className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                      />
+                      {t('batch.compareMode', '여러 스타일 한번에 비교')}
+                    </label>
+                    {isBatchMode && (
+                      <button
+                        onClick={handleBatchTryOn}
+                        disabled={batchSelection.length === 0 || isAIProcessing}
+                        className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {t('batch.start', '{{count}}개 스타일 체험하기', { count: batchSelection.length })}
+                      </button>
+                    )}
+                    {isBatchMode && (
+                      <p className="w-full text-xs text-indigo-600">
+                        {t('batch.selectHint', '비교할 스타일을 최대 {{max}}개까지 선택하세요.', { max: MAX_BATCH_SIZE })}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <HairstyleGallery 
                   images={portfolio}
                   onSelect={handleHairstyleSelect}  // VModel 처리
                   onColorTryOn={handleColorTryOn}   // Advanced AI 처리
                   selectedUrl={selectedHairstyle?.url || null}
                   disabled={!faceFile || isAIProcessing}
+                  allowMultipleSelection={isBatchMode}
+                  selectedUrls={batchSelection.map(style => style.url)}
+                  onToggleSelect={handleBatchToggle}
                 />
                 {!faceFile && (
                   <div className="text-center mt-6 p-4 bg-indigo-50 rounded-lg">
@@ -644,17 +988,35 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
         {/* VModel Result Modal */}
         {isResultModalOpen && selectedHairstyle && (
           <ResultDisplay 
-            beforeSrc={facePreview!}
+            beforeSrc={facePreview || pendingTask?.faceImageUrl || ''}
             afterSrc={generatedImage}
             onReset={handleCloseModal}
+            onCheckAgain={pendingTask ? () => resumePendingTask(pendingTask) : undefined}
             loadingState={loadingState}
+            progress={tryOnProgress}
             error={error}
+            errorCause={tryOnError}
+            onRetry={handleRetryTryOn}
+            onChangePhoto={handleChangePhoto}
+            onContactDesigner={designerContactUrl ? handleContactDesigner : undefined}
             reservationUrl={reservationUrl}
             hairstyle={selectedHairstyle}
             onBookNow={handleBookNow}
           />
         )}
 
+        {/* Batch Try-On Comparison Modal */}
+        {isBatchModalOpen && facePreview && (
+          <BatchResultGrid
+            beforeSrc={facePreview}
+            hairstyles={batchSelection}
+            items={batchItems}
+            onClose={handleCloseBatchModal}
+            reservationUrl={reservationUrl}
+            onBookNow={handleBookNow}
+          />
+        )}
+
         {/* Advanced Color AI Try-On Modal */}
         {showColorModal && selectedColorStyle && (
           <ColorTryOnModal
@@ -664,6 +1026,7 @@ const ClientView: React.FC<ClientViewProps> = ({ designerName }) => {
             faceAnalysis={faceAnalysis}
             onClose={handleColorModalClose}
             onComplete={handleColorTryOnComplete}
+            onResult={handleColorTryOnResult}
           />
         )}
 
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useColorTryOn, ColorTryOnRequest } from '../services/geminiColorService';
+import { useColorTryOn, ColorTryOnRequest, ColorTryOnResult } from '../services/geminiColorService';
+import { ColorTryOnResultKind, FaceAnalysis } from '../types';
 
 interface ColorTryOnModalProps {
   colorStyleImage: {
@@ -11,16 +12,42 @@ interface ColorTryOnModalProps {
   };
   userFaceFile?: File | null; // 기존 얼굴 사진 파일
   userFacePreview?: string | null; // 기존 얼굴 사진 미리보기
+  faceAnalysis?: FaceAnalysis | null; // 기존 얼굴 사진의 분석 결과 (머리카락 마스크)
   onClose: () => void;
   onComplete: (result: any) => void;
+  onResult?: (result: ColorTryOnResult) => void; // 결과가 표시될 때 (분석 집계용)
 }
 
+// 결과 종류별 안내 배지 - AI 생성이 아닌 결과는 미리보기임을 분명히 표시
+const RESULT_KIND_BADGES: Record<ColorTryOnResultKind, { i18nKey: string; label: string; description: string; className: string }> = {
+  generated: {
+    i18nKey: 'colorTryOn.resultKind.generated',
+    label: 'AI 생성 결과',
+    description: 'AI가 사진의 머리카락 색상을 변환한 결과입니다.',
+    className: 'bg-purple-50 border-purple-200 text-purple-800'
+  },
+  fallback: {
+    i18nKey: 'colorTryOn.resultKind.fallback',
+    label: '간이 미리보기',
+    description: 'AI 변환에 실패해 머리카락 영역에 색만 입힌 미리보기입니다. 실제 시술 결과와 다를 수 있어요.',
+    className: 'bg-amber-50 border-amber-300 text-amber-800'
+  },
+  demo: {
+    i18nKey: 'colorTryOn.resultKind.demo',
+    label: '데모 미리보기',
+    description: 'AI 변환을 사용할 수 없어 머리카락 영역에 색만 입힌 데모 결과입니다. 실제 시술 결과와 다를 수 있어요.',
+    className: 'bg-amber-50 border-amber-300 text-amber-800'
+  }
+};
+
 const ColorTryOnModal: React.FC<ColorTryOnModalProps> = ({
   colorStyleImage,
   userFaceFile: initialFaceFile,
   userFacePreview: initialFacePreview,
+  faceAnalysis,
   onClose,
-  onComplete
+  onComplete,
+  onResult
 }) => {
   const { t } = useTranslation();
   
@@ -77,11 +104,14 @@ const ColorTryOnModal: React.FC<ColorTryOnModalProps> = ({
       colorStyleUrl: colorStyleImage.url,
       colorType,
       intensity,
-      colorName: colorStyleImage.name
+      colorName: colorStyleImage.name,
+      // 모달에서 다른 사진을 올렸으면 기존 분석의 마스크는 맞지 않음
+      hairSegmentation: userPhoto === initialFaceFile ? faceAnalysis?.hair : undefined
     };
 
     try {
-      await tryOnColor(request);
+      const colorResult = await tryOnColor(request);
+      if (colorResult) onResult?.(colorResult);
       setCurrentStep('result');
     } catch (err) {
       console.error('Color try-on failed:', err);
@@ -370,13 +400,23 @@ const ColorTryOnModal: React.FC<ColorTryOnModalProps> = ({
                     </svg>
                   </div>
                   <h3 className="text-lg font-semibold text-gray-800 mb-2">처리 중 오류가 발생했습니다</h3>
-                  <p className="text-gray-600 mb-6">{error}</p>
-                  <button
-                    onClick={() => setCurrentStep('options')}
-                    className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
-                  >
-                    다시 시도하기
-                  </button>
+                  <p className="text-gray-600 mb-6">{error.i18nKey ? t(error.i18nKey, error.message) : error.message}</p>
+                  {/* 머리카락을 찾지 못한 사진 등은 같은 사진으로 다시 시도해도 소용없으므로 사진 변경 안내 */}
+                  {error.action === 'change-photo' ? (
+                    <button
+                      onClick={() => setCurrentStep('upload')}
+                      className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                    >
+                      {t('result.actions.changePhoto', '다른 사진으로 시도하기')}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => setCurrentStep('options')}
+                      className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                    >
+                      다시 시도하기
+                    </button>
+                  )}
                 </div>
               ) : result ? (
                 <div>
@@ -386,6 +426,16 @@ const ColorTryOnModal: React.FC<ColorTryOnModalProps> = ({
                     </svg>
                     스마트 염색 체험 결과
                   </h3>
+
+                  {/* 결과 종류 */}
+                  <div className={`mb-4 p-3 border rounded-lg text-sm ${RESULT_KIND_BADGES[result.resultKind].className}`}>
+                    <p className="font-semibold">
+                      {t(`${RESULT_KIND_BADGES[result.resultKind].i18nKey}.label`, RESULT_KIND_BADGES[result.resultKind].label)}
+                    </p>
+                    <p className="mt-1">
+                      {t(`${RESULT_KIND_BADGES[result.resultKind].i18nKey}.description`, RESULT_KIND_BADGES[result.resultKind].description)}
+                    </p>
+                  </div>
                   
                   <div className="grid md:grid-cols-2 gap-6 mb-6">
                     {/* Before */}
@@ -400,7 +450,14 @@ const ColorTryOnModal: React.FC<ColorTryOnModalProps> = ({
                     
                     {/* After */}
                     <div>
-                      <h4 className="font-medium mb-2">변환 후</h4>
+                      <h4 className="font-medium mb-2">
+                        변환 후
+                        {result.resultKind !== 'generated' && (
+                          <span className="ml-2 px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 rounded-full">
+                            {t(`${RESULT_KIND_BADGES[result.resultKind].i18nKey}.label`, RESULT_KIND_BADGES[result.resultKind].label)}
+                          </span>
+                        )}
+                      </h4>
                       <img 
                         src={result.resultImageUrl} 
                         alt="After"
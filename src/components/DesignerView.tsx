@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Hairstyle, Gender, FemaleMajorCategory, MaleMajorCategory, MinorCategory, DesignerStats, DesignerProfile } from '../types';
+import { Hairstyle, DesignerStats, DesignerProfile, DesignerSettings, DEFAULT_SETTINGS, UploadStyleFormData, TryOnLedgerEntry } from '../types';
 import * as firebaseService from '../services/firebaseService';
 import HairstyleGallery from './HairstyleGallery';
 import ShareModal from './ShareModal';
@@ -18,18 +18,21 @@ import HairIcon from './icons/HairIcon';
 import AnalyticsIcon from './icons/AnalyticsIcon';
 
 interface DesignerViewProps {
-  designerName: string;
+  designerId: string;
   onLogout: () => void;
 }
 
 type ActiveView = 'gallery' | 'analytics';
 
-const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) => {
+const DesignerView: React.FC<DesignerViewProps> = ({ designerId, onLogout }) => {
   const { t } = useTranslation();
   const [portfolio, setPortfolio] = useState<Hairstyle[]>([]);
   const [reservationUrl, setReservationUrl] = useState('');
   const [stats, setStats] = useState<DesignerStats | null>(null);
   const [designerProfile, setDesignerProfile] = useState<DesignerProfile | undefined>(undefined);
+  const [slug, setSlug] = useState<string | undefined>(undefined);
+  const [settings, setSettings] = useState<DesignerSettings>(DEFAULT_SETTINGS);
+  const [tryOnLedger, setTryOnLedger] = useState<TryOnLedgerEntry[]>([]);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showUploadModal, setShowUploadModal] = useState(false);
@@ -43,11 +46,13 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
     const loadDesignerData = async () => {
       try {
         setIsLoading(true);
-        const data = await firebaseService.getDesignerData(designerName);
+        const data = await firebaseService.getDesignerData(designerId);
         setPortfolio(data.portfolio);
         setReservationUrl(data.reservationUrl || '');
         setStats(data.stats || { visits: 0, styleViews: {}, bookings: {} });
         setDesignerProfile(data.profile);
+        setSlug(data.slug);
+        setSettings({ ...DEFAULT_SETTINGS, ...data.settings });
       } catch (error) {
         console.error('Error loading designer data:', error);
       } finally {
@@ -56,7 +61,16 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
     };
 
     loadDesignerData();
-  }, [designerName]);
+  }, [designerId]);
+
+  // 분석 화면을 열 때마다 크레딧 사용 내역 새로 조회
+  useEffect(() => {
+    if (activeView !== 'analytics') return;
+
+    firebaseService.getTryOnLedger(designerId)
+      .then(setTryOnLedger)
+      .catch(error => console.error('Error loading try-on ledger:', error));
+  }, [designerId, activeView]);
 
   // Cloudinary 환경변수 디버그
   useEffect(() => {
@@ -82,14 +96,7 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
     console.log('=== END DEBUG ===');
   }, []);
 
-  const handlePortfolioImageAdd = async (styleData: {
-    file: File;
-    name: string;
-    gender: Gender;
-    majorCategory: FemaleMajorCategory | MaleMajorCategory;
-    minorCategory: MinorCategory;
-    cloudinaryUrl: string;
-  }) => {
+  const handlePortfolioImageAdd = async (styleData: UploadStyleFormData & { cloudinaryUrl: string }) => {
     try {
       const { file, cloudinaryUrl, ...details } = styleData;
       const newImage: Hairstyle = {
@@ -99,7 +106,7 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
         id: Date.now().toString(),
       };
       
-      const success = await firebaseService.addStyleToPortfolio(designerName, newImage);
+      const success = await firebaseService.addStyleToPortfolio(designerId, newImage);
       if (success) {
         const updatedPortfolio = [newImage, ...portfolio];
         setPortfolio(updatedPortfolio);
@@ -121,7 +128,7 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
       }
 
       const identifier = hairstyle.id || hairstyle.url;
-      const success = await firebaseService.removeStyleFromPortfolio(designerName, identifier);
+      const success = await firebaseService.removeStyleFromPortfolio(designerId, identifier);
       
       if (success) {
         const updatedPortfolio = portfolio.filter(item => 
@@ -144,7 +151,7 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
 
   const handleSaveEditedStyle = async (styleId: string, updates: Partial<Hairstyle>) => {
     try {
-      const success = await firebaseService.updateStyleInPortfolio(designerName, styleId, updates);
+      const success = await firebaseService.updateStyleInPortfolio(designerId, styleId, updates);
       if (success) {
         // Update local state
         const updatedPortfolio = portfolio.map(style => 
@@ -164,9 +171,18 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
     }
   };
 
-  const handleSaveSettings = async (newUrl: string) => {
+  const handleSaveSettings = async (newUrl: string, monthlyTryOnBudget?: number) => {
     try {
-      const success = await firebaseService.saveReservationUrl(designerName, newUrl);
+      if (monthlyTryOnBudget !== undefined && monthlyTryOnBudget !== settings.monthlyTryOnBudget) {
+        const updatedSettings = { ...settings, monthlyTryOnBudget };
+        if (!await firebaseService.saveDesignerSettings(designerId, updatedSettings)) {
+          alert(t('messages.settingsSaveError'));
+          return;
+        }
+        setSettings(updatedSettings);
+      }
+
+      const success = await firebaseService.saveReservationUrl(designerId, newUrl);
       if (success) {
         setReservationUrl(newUrl);
         setShowSettingsModal(false);
@@ -179,9 +195,35 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
     }
   };
 
+  const handleTryOnCacheToggle = async (enabled: boolean) => {
+    const updatedSettings = { ...settings, tryOnCacheEnabled: enabled };
+    const success = await firebaseService.saveDesignerSettings(designerId, updatedSettings);
+    if (success) {
+      setSettings(updatedSettings);
+    } else {
+      alert(t('messages.settingsSaveError'));
+    }
+  };
+
+  // 캐시 버전을 올려 이전에 저장된 가상체험 결과를 모두 무효화
+  const handleTryOnCacheClear = async () => {
+    if (!window.confirm(t('settings.tryOnCache.clearConfirm', '저장된 가상체험 결과를 모두 초기화할까요? 다음 체험부터 새로 생성됩니다.'))) {
+      return;
+    }
+
+    const updatedSettings = { ...settings, tryOnCacheVersion: (settings.tryOnCacheVersion || 0) + 1 };
+    const success = await firebaseService.saveDesignerSettings(designerId, updatedSettings);
+    if (success) {
+      setSettings(updatedSettings);
+      alert(t('settings.tryOnCache.cleared', '저장된 가상체험 결과가 초기화되었습니다.'));
+    } else {
+      alert(t('messages.settingsSaveError'));
+    }
+  };
+
   const handleSaveProfile = async (profile: DesignerProfile) => {
     try {
-      const success = await firebaseService.saveDesignerProfile(designerName, profile);
+      const success = await firebaseService.saveDesignerProfile(designerId, profile);
       if (success) {
         setDesignerProfile(profile);
         setShowProfileModal(false);
@@ -194,6 +236,14 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
     }
   };
 
+  const handleSaveSlug = async (nextSlug: string) => {
+    const result = await firebaseService.updateDesignerSlug(designerId, nextSlug);
+    if (result.success) {
+      setSlug(result.slug);
+    }
+    return result;
+  };
+
   // Generate designer initials for fallback
   const getDesignerInitials = (name: string) => {
     return name.split(' ').map(word => word[0]).join('').toUpperCase().slice(0, 2);
@@ -286,7 +336,7 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
                 {designerProfile.profileImage ? (
                   <img
                     src={designerProfile.profileImage}
-                    alt={designerProfile.name || designerName}
+                    alt={designerProfile.name || designerId}
                     className="w-16 h-16 rounded-full object-cover border-4 border-indigo-100 shadow-lg"
                     onError={(e) => {
                       const target = e.target as HTMLImageElement;
@@ -299,13 +349,13 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
                   />
                 ) : null}
                 <div className={`w-16 h-16 bg-gradient-to-br from-indigo-600 to-purple-600 rounded-full flex items-center justify-center text-white font-bold text-xl border-4 border-indigo-100 shadow-lg profile-fallback ${designerProfile.profileImage ? 'hidden' : ''}`}>
-                  {getDesignerInitials(designerProfile.name || designerName)}
+                  {getDesignerInitials(designerProfile.name || designerId)}
                 </div>
               </div>
 
               {/* Profile Info */}
               <div className="flex-1 text-center sm:text-left">
-                <h3 className="text-xl font-bold text-gray-800">{designerProfile.name || designerName}</h3>
+                <h3 className="text-xl font-bold text-gray-800">{designerProfile.name || designerId}</h3>
                 {designerProfile.bio && (
                   <p className="text-gray-600 text-sm mt-1 leading-relaxed">{designerProfile.bio}</p>
                 )}
@@ -448,14 +498,14 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
                 </div>
               )
           ) : (
-            stats ? <AnalyticsDashboard stats={stats} portfolio={portfolio} /> : <div className="text-center py-16 text-gray-500">{t('designer.loadingAnalytics')}</div>
+            stats ? <AnalyticsDashboard designerId={designerId} stats={stats} portfolio={portfolio} tryOnLedger={tryOnLedger} monthlyTryOnBudget={settings.monthlyTryOnBudget} /> : <div className="text-center py-16 text-gray-500">{t('designer.loadingAnalytics')}</div>
           )}
         </main>
         
         {showProfileModal && (
           <DesignerProfileModal
             currentProfile={designerProfile}
-            designerName={designerName}
+            designerName={designerId}
             onSave={handleSaveProfile}
             onClose={() => setShowProfileModal(false)}
           />
@@ -463,7 +513,9 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
         
         {showShareModal && (
           <ShareModal 
-            designerName={designerName}
+            designerId={designerId}
+            slug={slug}
+            onSaveSlug={handleSaveSlug}
             onClose={() => setShowShareModal(false)}
           />
         )}
@@ -473,6 +525,10 @@ const DesignerView: React.FC<DesignerViewProps> = ({ designerName, onLogout }) =
                 currentUrl={reservationUrl}
                 onSave={handleSaveSettings}
                 onClose={() => setShowSettingsModal(false)}
+                monthlyTryOnBudget={settings.monthlyTryOnBudget || 0}
+                tryOnCacheEnabled={settings.tryOnCacheEnabled}
+                onTryOnCacheToggle={handleTryOnCacheToggle}
+                onTryOnCacheClear={handleTryOnCacheClear}
             />
         )}
 
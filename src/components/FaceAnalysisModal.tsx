@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { FaceAnalysis } from '../services/faceAnalysisService';
+import { FaceAnalysis, HairLengthClass, normalizePersonalColor, PERSONAL_COLOR_RECOMMENDATIONS, PersonalColorType } from '../types';
 
 interface FaceAnalysisModalProps {
   imageUrl: string;
@@ -112,6 +112,21 @@ const FaceAnalysisModal: React.FC<FaceAnalysisModalProps> = ({
           <div className="relative mb-6">
             <div className="relative w-full rounded-xl overflow-hidden shadow-lg">
               <img src={imageUrl} alt="Face Analysis" className="w-full h-auto" />
+
+              {/* 머리카락 영역 */}
+              {!isAnalyzing && analysis?.hair?.mask && (
+                <div
+                  className="absolute inset-0"
+                  style={{
+                    backgroundColor: 'rgba(236, 72, 153, 0.35)',
+                    WebkitMaskImage: `url(${analysis.hair.mask.dataUrl})`,
+                    maskImage: `url(${analysis.hair.mask.dataUrl})`,
+                    WebkitMaskSize: '100% 100%',
+                    maskSize: '100% 100%',
+                    pointerEvents: 'none'
+                  }}
+                />
+              )}
               
               {/* SVG 오버레이 (랜드마크 시각화) */}
               {analysis?.landmarks && (
@@ -285,8 +300,79 @@ const FaceAnalysisModal: React.FC<FaceAnalysisModalProps> = ({
                 <p className="text-sm text-gray-600 leading-relaxed">
                   {getFaceShapeDescription(analysis.faceShape || '')}
                 </p>
+
+                {/* 얼굴형별 확률 */}
+                {analysis.faceShapeScores && (
+                  <div className="mt-4 space-y-1.5">
+                    {Object.entries(analysis.faceShapeScores)
+                      .sort(([, a], [, b]) => b - a)
+                      .map(([shape, score]) => (
+                        <div key={shape} className="flex items-center gap-2 text-xs">
+                          <span className="w-20 text-gray-600">{shape}</span>
+                          <div className="flex-1 bg-white rounded-full h-1.5">
+                            <div
+                              className="bg-indigo-500 h-1.5 rounded-full"
+                              style={{ width: `${score * 100}%` }}
+                            ></div>
+                          </div>
+                          <span className="w-10 text-right text-gray-700 font-medium">
+                            {Math.round(score * 100)}%
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                )}
+
+                {/* 측정값 (광대 너비 = 100 기준) */}
+                {analysis.faceMeasurements && (
+                  <div className="mt-4 grid grid-cols-2 sm:grid-cols-5 gap-2 text-center">
+                    {[
+                      { label: '이마 너비', value: Math.round(analysis.faceMeasurements.foreheadRatio * 100) },
+                      { label: '광대 너비', value: 100 },
+                      { label: '턱 너비', value: Math.round(analysis.faceMeasurements.jawRatio * 100) },
+                      { label: '얼굴 길이', value: Math.round(analysis.faceMeasurements.lengthRatio * 100) },
+                      { label: '턱 각도', value: `${Math.round(analysis.faceMeasurements.chinAngle)}°` }
+                    ].map(({ label, value }) => (
+                      <div key={label} className="p-2 bg-white rounded-lg">
+                        <p className="text-[11px] text-gray-500">{label}</p>
+                        <p className="text-sm font-semibold text-gray-800">{value}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
+              {/* 머리카락 분석 결과 */}
+              {analysis.hair && (
+                <div className="p-4 bg-gradient-to-r from-pink-50 to-rose-50 rounded-xl border border-pink-200">
+                  <h3 className="font-semibold text-gray-800 mb-3">현재 머리</h3>
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="p-2 bg-white rounded-lg">
+                      <p className="text-[11px] text-gray-500">길이</p>
+                      <p className="text-sm font-semibold text-gray-800">
+                        {analysis.hair.lengthClass ? HAIR_LENGTH_LABELS[analysis.hair.lengthClass] : '-'}
+                      </p>
+                    </div>
+                    <div className="p-2 bg-white rounded-lg">
+                      <p className="text-[11px] text-gray-500">색상</p>
+                      <div className="flex items-center justify-center gap-1">
+                        {analysis.hair.color && (
+                          <span
+                            className="inline-block w-3 h-3 rounded-full border border-gray-300"
+                            style={{ backgroundColor: analysis.hair.color.hex }}
+                          />
+                        )}
+                        <p className="text-sm font-semibold text-gray-800">{analysis.hair.color?.hex || '-'}</p>
+                      </div>
+                    </div>
+                    <div className="p-2 bg-white rounded-lg">
+                      <p className="text-[11px] text-gray-500">사진 속 비율</p>
+                      <p className="text-sm font-semibold text-gray-800">{Math.round(analysis.hair.coverage * 100)}%</p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* 퍼스널 컬러 결과 */}
               <div className="p-4 bg-gradient-to-r from-purple-50 to-pink-50 rounded-xl border border-purple-200">
                 <div className="flex items-center gap-3 mb-3">
@@ -304,7 +390,7 @@ const FaceAnalysisModal: React.FC<FaceAnalysisModalProps> = ({
                   </div>
                 </div>
                 <p className="text-sm text-gray-600 leading-relaxed">
-                  {getPersonalColorDescription(analysis.personalColor || '')}
+                  {getPersonalColorDescription(analysis.personalColor)}
                 </p>
               </div>
 
@@ -359,6 +445,14 @@ const FaceAnalysisModal: React.FC<FaceAnalysisModalProps> = ({
 };
 
 // Helper functions
+const HAIR_LENGTH_LABELS: Record<HairLengthClass, string> = {
+  buzz: '삭발',
+  short: '숏',
+  bob: '단발',
+  medium: '중단발',
+  long: '장발'
+};
+
 const getFaceShapeDescription = (faceShape: string): string => {
   const descriptions: { [key: string]: string } = {
     '계란형': '균형잡힌 이상적인 얼굴형입니다. 대부분의 헤어스타일이 잘 어울립니다.',
@@ -372,18 +466,9 @@ const getFaceShapeDescription = (faceShape: string): string => {
   return descriptions[faceShape] || '자신에게 맞는 스타일을 찾아보세요!';
 };
 
-const getPersonalColorDescription = (personalColor: string): string => {
-  const descriptions: { [key: string]: string } = {
-    '봄 웜톤': '코랄, 피치, 카라멜 브라운, 골드 블론드 등 밝고 따뜻한 색상이 잘 어울립니다.',
-    '봄 웜톤 (뮤트)': '부드러운 코랄, 베이지, 라이트 브라운 등 은은한 따뜻한 색상을 추천합니다.',
-    '가을 웜톤': '오렌지 브라운, 구리빛, 올리브, 따뜻한 레드 계열이 피부톤과 조화롭습니다.',
-    '가을 웜톤 (딥)': '초콜릿 브라운, 딥 레드, 진한 오렌지 계열의 풍부한 색상이 어울립니다.',
-    '여름 쿨톤': '애쉬 브라운, 로즈 골드, 실버 그레이 등 부드러운 쿨톤이 어울립니다.',
-    '여름 쿨톤 (라이트)': '라벤더, 핑크 베이지, 연한 애쉬 블론드 등 밝은 쿨톤을 추천합니다.',
-    '겨울 쿨톤': '젯 블랙, 와인 레드, 블루 블랙 등 선명한 색상을 추천합니다.',
-    '겨울 쿨톤 (브라이트)': '플래티넘 블론드, 실버, 비비드 레드 등 강렬한 색상이 잘 어울립니다.'
-  };
-  return descriptions[personalColor] || '다양한 색상을 시도해보세요!';
+const getPersonalColorDescription = (personalColor: PersonalColorType): string => {
+  const normalized = normalizePersonalColor(personalColor);
+  return (normalized && PERSONAL_COLOR_RECOMMENDATIONS[normalized].description) || '다양한 색상을 시도해보세요!';
 };
 
 export default FaceAnalysisModal;
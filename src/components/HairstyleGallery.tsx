@@ -10,6 +10,7 @@ import {
   isSuitableForPersonalColor,
   SERVICE_CATEGORY_LABELS
 } from '../types';
+import { getDescriptorKeywords } from '../services/hairstyleAnalysisService';
 
 // 서비스 카테고리별 색상 테마
 const SERVICE_CATEGORY_COLORS: Record<ServiceMajorCategory, string> = {
@@ -30,7 +31,9 @@ const HairstyleGallery: React.FC<HairstyleGalleryProps> = ({
   onAddImage, 
   showCategories = true,
   faceAnalysis,
-  allowMultipleSelection = false
+  allowMultipleSelection = false,
+  selectedUrls = [],
+  onToggleSelect
 }) => {
   const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState<'Female' | 'Male'>('Female');
@@ -66,6 +69,12 @@ const HairstyleGallery: React.FC<HairstyleGalleryProps> = ({
 
   // 🆕 스타일 클릭 핸들러 - 카테고리에 따라 다른 API 사용
   const handleStyleClick = (image: Hairstyle) => {
+    // 여러 장 선택 모드: 커트/기타 스타일은 선택만 토글 (염색은 기존처럼 바로 체험)
+    if (allowMultipleSelection && onToggleSelect && !(image.serviceCategory === 'color' && onColorTryOn)) {
+      onToggleSelect(image);
+      return;
+    }
+
     // 염색 스타일이면서 onColorTryOn이 제공된 경우 Gemini API 사용
     if (image.serviceCategory === 'color' && onColorTryOn) {
       console.log('🎨 염색 스타일 선택 → Gemini API 사용');
@@ -77,6 +86,11 @@ const HairstyleGallery: React.FC<HairstyleGalleryProps> = ({
     }
   };
 
+  // 선택 여부 (여러 장 선택 모드에서는 selectedUrls 기준)
+  const isSelected = (image: Hairstyle): boolean => {
+    return allowMultipleSelection ? selectedUrls.includes(image.url) : selectedUrl === image.url;
+  };
+
   // 🆕 AI 추천 여부 확인
   const isRecommended = (image: Hairstyle): boolean => {
     if (!faceAnalysis) return false;
@@ -114,7 +128,8 @@ const HairstyleGallery: React.FC<HairstyleGalleryProps> = ({
         image.name.toLowerCase().includes(lowercaseSearch) ||
         image.description?.toLowerCase().includes(lowercaseSearch) ||
         image.serviceSubCategory?.toLowerCase().includes(lowercaseSearch) ||
-        image.tags?.some(tag => tag.toLowerCase().includes(lowercaseSearch))
+        image.tags?.some(tag => tag.toLowerCase().includes(lowercaseSearch)) ||
+        getDescriptorKeywords(image.descriptor).some(keyword => keyword.toLowerCase().includes(lowercaseSearch))
       );
     }
     
@@ -348,6 +363,7 @@ const HairstyleGallery: React.FC<HairstyleGalleryProps> = ({
                   const heightVariants = ['h-48', 'h-56', 'h-64', 'h-52', 'h-60'];
                   const randomHeight = heightVariants[index % heightVariants.length];
                   const recommended = isRecommended(image);
+                  const selected = isSelected(image);
                   
                   return (
                     <div
@@ -358,7 +374,7 @@ const HairstyleGallery: React.FC<HairstyleGalleryProps> = ({
                         onClick={() => handleStyleClick(image)} // ✅ 수정된 핸들러 사용
                         disabled={disabled}
                         className={`w-full ${randomHeight} block rounded-xl overflow-hidden transition-all duration-300 ${
-                          selectedUrl === image.url
+                          selected
                             ? 'ring-4 ring-indigo-500 shadow-xl'
                             : recommended
                             ? 'ring-2 ring-indigo-300 hover:ring-indigo-400'
@@ -445,12 +461,16 @@ const HairstyleGallery: React.FC<HairstyleGalleryProps> = ({
                           )}
                         </div>
                         
-                        {/* Selected indicator */}
-                        {selectedUrl === image.url && (
+                        {/* Selected indicator (여러 장 선택 모드에서는 선택 순서 표시) */}
+                        {selected && (
                           <div className="absolute top-2 right-2 w-7 h-7 bg-indigo-600 rounded-full flex items-center justify-center shadow-lg">
-                            <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                            </svg>
+                            {allowMultipleSelection ? (
+                              <span className="text-white text-sm font-bold">{selectedUrls.indexOf(image.url) + 1}</span>
+                            ) : (
+                              <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                              </svg>
+                            )}
                           </div>
                         )}
                         
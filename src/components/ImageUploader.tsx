@@ -1,5 +1,8 @@
 import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { validateUploadConfig } from '../services/cloudinaryService';
+import { PhotoQualityReport } from '../types';
+import CameraCapture from './CameraCapture';
 
 interface ImageUploaderProps {
   id: string;
@@ -10,6 +13,9 @@ interface ImageUploaderProps {
   disabled?: boolean;
   maxSizeMB?: number;
   acceptedFormats?: string[];
+  qualityReport?: PhotoQualityReport | null;  // 가상체험 전 사진 품질 검사 결과
+  isCheckingQuality?: boolean;
+  enableCamera?: boolean;  // 카메라 촬영 모드 (얼굴 가이드 + 자동 촬영)
 }
 
 const ImageUploader: React.FC<ImageUploaderProps> = ({ 
@@ -20,11 +26,18 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
   icon, 
   disabled = false,
   maxSizeMB = 5,
-  acceptedFormats = ['image/png', 'image/jpeg', 'image/webp']
+  acceptedFormats = ['image/png', 'image/jpeg', 'image/webp'],
+  qualityReport = null,
+  isCheckingQuality = false,
+  enableCamera = false
 }) => {
+  const { t } = useTranslation();
   const inputRef = useRef<HTMLInputElement>(null);
   const [dragOver, setDragOver] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+
+  const isCameraSupported = enableCamera && typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
 
   // Cloudinary 설정 체크
   const { isValid: isCloudinaryValid, errors: cloudinaryErrors } = validateUploadConfig();
@@ -98,6 +111,18 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
     }
   };
 
+  const handleCameraCapture = (file: File) => {
+    setShowCamera(false);
+    setError(null);
+
+    const validationError = validateFile(file);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onFileChange(file);
+  };
+
   // Cloudinary 설정이 잘못된 경우
   if (!isCloudinaryValid) {
     return (
@@ -169,6 +194,47 @@ const ImageUploader: React.FC<ImageUploaderProps> = ({
         )}
       </div>
 
+      {/* 카메라 촬영 */}
+      {isCameraSupported && (
+        <button
+          type="button"
+          onClick={() => setShowCamera(true)}
+          disabled={disabled}
+          className="mt-2 w-full max-w-sm mx-auto py-2 text-sm font-medium text-indigo-600 border border-indigo-300 rounded-lg hover:bg-indigo-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          📷 {t('camera.open', '카메라로 촬영')}
+        </button>
+      )}
+      {showCamera && (
+        <CameraCapture
+          onCapture={handleCameraCapture}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
+      {/* 사진 품질 검사 결과 */}
+      {previewSrc && isCheckingQuality && (
+        <p className="mt-2 text-xs text-gray-500 text-center">
+          {t('quality.checking', '사진 상태를 확인하는 중...')}
+        </p>
+      )}
+      {previewSrc && !isCheckingQuality && qualityReport && qualityReport.issues.length > 0 && (
+        <ul className="mt-2 w-full max-w-sm mx-auto space-y-1">
+          {qualityReport.issues.map(issue => (
+            <li
+              key={issue.code}
+              className={`text-xs rounded px-2 py-1 ${
+                issue.severity === 'block'
+                  ? 'bg-red-50 text-red-600 border border-red-200'
+                  : 'bg-yellow-50 text-yellow-700 border border-yellow-200'
+              }`}
+            >
+              {issue.severity === 'block' ? '⛔' : '⚠️'} {t(issue.i18nKey, issue.message)}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* 디버그 정보 (개발 모드에서만) */}
       {process.env.NODE_ENV === 'development' && (
         <div className="mt-2 text-xs text-gray-400 text-center">
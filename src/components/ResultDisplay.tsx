@@ -1,14 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { LoadingState, Hairstyle } from '../types';
+import { LoadingState, Hairstyle, TryOnProgressEvent, TryOnProgressStage } from '../types';
+import { TryOnError } from '../services/tryOnErrors';
 import SparklesIcon from './icons/SparklesIcon';
 
+// 진행 단계 타임라인 (스타일 분석 → 백엔드 진행 이벤트 순서)
+const TIMELINE_STEPS: Array<{ key: 'analyzing' | TryOnProgressStage; labelKey: string; defaultLabel: string }> = [
+  { key: 'analyzing', labelKey: 'result.timeline.analyzing', defaultLabel: '헤어스타일 분석' },
+  { key: 'face-upload', labelKey: 'result.timeline.faceUpload', defaultLabel: '얼굴 사진 업로드' },
+  { key: 'style-upload', labelKey: 'result.timeline.styleUpload', defaultLabel: '스타일 이미지 업로드' },
+  { key: 'task-queued', labelKey: 'result.timeline.taskQueued', defaultLabel: 'AI 작업 대기열 등록' },
+  { key: 'processing', labelKey: 'result.timeline.processing', defaultLabel: 'AI 변환 처리' },
+  { key: 'saving-result', labelKey: 'result.timeline.savingResult', defaultLabel: '결과 이미지 저장' }
+];
+
 interface ResultDisplayProps {
   beforeSrc: string;
   afterSrc: string | null;
   onReset: () => void;
+  onCheckAgain?: () => void;
   loadingState: LoadingState;
+  progress?: TryOnProgressEvent | null;
   error: string | null;
+  errorCause?: TryOnError | null;       // 있으면 원인에 맞는 안내 문구 + 다음 행동 버튼 표시
+  onRetry?: () => void;
+  onChangePhoto?: () => void;
+  onContactDesigner?: () => void;
   reservationUrl?: string;
   hairstyle?: Hairstyle;
   onBookNow?: (hairstyle: Hairstyle) => void;
@@ -18,8 +35,14 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({
   beforeSrc,
   afterSrc,
   onReset,
+  onCheckAgain,
   loadingState,
+  progress,
   error,
+  errorCause,
+  onRetry,
+  onChangePhoto,
+  onContactDesigner,
   reservationUrl,
   hairstyle,
   onBookNow
@@ -29,6 +52,35 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({
 
   const isLoading = loadingState === 'analyzing' || loadingState === 'generating';
   const isSuccess = loadingState === 'done' && afterSrc;
+  const isPending = loadingState === 'pending';
+
+  // 현재 진행 단계 (분석 중이면 첫 단계, 변환 중이면 마지막 진행 이벤트 기준)
+  const currentStepIndex = loadingState === 'analyzing'
+    ? 0
+    : Math.max(1, TIMELINE_STEPS.findIndex(step => step.key === progress?.stage));
+
+  // 변환 단계 경과 시간 - 폴링 사이에도 1초마다 갱신
+  const [now, setNow] = useState(Date.now());
+  const [progressReceivedAt, setProgressReceivedAt] = useState(Date.now());
+
+  useEffect(() => {
+    setProgressReceivedAt(Date.now());
+    setNow(Date.now());
+  }, [progress]);
+
+  useEffect(() => {
+    if (!isLoading || progress?.stage !== 'processing') return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isLoading, progress]);
+
+  const processingElapsedMs = progress?.stage === 'processing'
+    ? progress.elapsedMs + (now - progressReceivedAt)
+    : 0;
+  const processingRatio = progress?.stage === 'processing' && progress.estimatedMs
+    ? Math.min(processingElapsedMs / progress.estimatedMs, 0.95)
+    : 0;
 
   // Loading messages for different states
   const loadingMessages: { [key in LoadingState]?: { title: string; subtitle: string } } = {
@@ -42,6 +94,21 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({
     }
   };
 
+  // 오류 원인별 안내 문구와 다음 행동 버튼
+  const errorMessage = errorCause?.i18nKey ? t(errorCause.i18nKey, errorCause.message) : error;
+  const errorActions: Array<{ key: string; label: string; onClick: () => void }> = [];
+  if (errorCause) {
+    if (errorCause.retryable && onRetry) {
+      errorActions.push({ key: 'retry', label: t('result.tryAgain', '다시 시도하기'), onClick: onRetry });
+    }
+    if (errorCause.action === 'change-photo' && onChangePhoto) {
+      errorActions.push({ key: 'change-photo', label: t('result.actions.changePhoto', '다른 사진으로 시도하기'), onClick: onChangePhoto });
+    }
+    if (errorCause.action === 'contact-designer' && onContactDesigner) {
+      errorActions.push({ key: 'contact-designer', label: t('result.actions.contactDesigner', '디자이너에게 문의하기'), onClick: onContactDesigner });
+    }
+  }
+
   // Handle booking click
   const handleBookNowClick = () => {
     if (hairstyle && onBookNow) {
@@ -130,7 +197,7 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({
           <div className="flex items-center gap-3">
             <div>
               <h2 id="result-title" className="text-2xl font-bold text-gray-800">
-                {isLoading ? t('result.processing', '처리중...') : isSuccess ? t('result.completed', '변환 완료!') : t('result.errorOccurred', '오류 발생')}
+                {isLoading || isPending ? t('result.processing', '처리중...') : isSuccess ? t('result.completed', '변환 완료!') : t('result.errorOccurred', '오류 발생')}
               </h2>
               {hairstyle && (
                 <p className="text-sm text-gray-600 mt-1">
@@ -182,34 +249,88 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({
                   {loadingMessages[loadingState]?.subtitle}
                 </p>
                 
-                {/* Progress steps */}
-                <div className="flex items-center justify-center space-x-4 mt-6">
-                  <div className={`flex items-center space-x-2 ${loadingState === 'analyzing' ? 'text-indigo-600' : 'text-green-600'}`}>
-                    <div className={`w-4 h-4 rounded-full ${loadingState === 'analyzing' ? 'bg-indigo-600 animate-pulse' : 'bg-green-600'} flex items-center justify-center`}>
-                      {loadingState !== 'analyzing' && (
-                        <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-                        </svg>
-                      )}
-                    </div>
-                    <span className="text-sm font-medium">{t('result.step1', '분석')}</span>
-                  </div>
-                  
-                  <div className={`w-8 h-0.5 ${loadingState === 'generating' ? 'bg-indigo-600' : 'bg-gray-300'}`}></div>
-                  
-                  <div className={`flex items-center space-x-2 ${loadingState === 'generating' ? 'text-indigo-600' : 'text-gray-400'}`}>
-                    <div className={`w-4 h-4 rounded-full ${loadingState === 'generating' ? 'bg-indigo-600 animate-pulse' : 'bg-gray-300'}`}></div>
-                    <span className="text-sm font-medium">{t('result.step2', '변환')}</span>
-                  </div>
-                </div>
+                {/* Progress timeline */}
+                <ol className="mt-6 space-y-3 text-left">
+                  {TIMELINE_STEPS.map((step, index) => {
+                    const isDone = index < currentStepIndex;
+                    const isActive = index === currentStepIndex;
+
+                    return (
+                      <li
+                        key={step.key}
+                        className={`flex items-start gap-3 ${isActive ? 'text-indigo-600' : isDone ? 'text-green-600' : 'text-gray-400'}`}
+                      >
+                        <div className={`mt-0.5 w-4 h-4 flex-shrink-0 rounded-full flex items-center justify-center ${isActive ? 'bg-indigo-600 animate-pulse' : isDone ? 'bg-green-600' : 'bg-gray-300'}`}>
+                          {isDone && (
+                            <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                            </svg>
+                          )}
+                        </div>
+                        <div className="flex-1">
+                          <span className="text-sm font-medium">{t(step.labelKey, step.defaultLabel)}</span>
+
+                          {/* 변환 단계: 경과 / 예상 시간 */}
+                          {isActive && progress?.stage === 'processing' && (
+                            <div className="mt-2">
+                              <div className="w-full h-1.5 bg-indigo-100 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-indigo-600 rounded-full transition-all duration-1000"
+                                  style={{ width: `${processingRatio * 100}%` }}
+                                ></div>
+                              </div>
+                              <p className="text-xs text-gray-500 mt-1">
+                                {t('result.elapsedTime', '{{elapsed}}초 경과', { elapsed: Math.round(processingElapsedMs / 1000) })}
+                                {progress.estimatedMs && (
+                                  <> · {t('result.estimatedTime', '예상 약 {{estimated}}초', { estimated: Math.round(progress.estimatedMs / 1000) })}</>
+                                )}
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
                 
-                <p className="text-xs text-gray-500 mt-4">
-                  {t('result.waitMessage', '잠시만 기다려주세요. 보통 30초 정도 소요됩니다.')}
-                </p>
+                {progress?.stage !== 'processing' && (
+                  <p className="text-xs text-gray-500 mt-4">
+                    {t('result.waitMessage', '잠시만 기다려주세요. 보통 30초 정도 소요됩니다.')}
+                  </p>
+                )}
               </div>
             </div>
           )}
         
+          {/* Pending State - 대기 시간을 넘겼지만 작업은 계속 진행 중 */}
+          {isPending && (
+            <div className="flex flex-col items-center justify-center py-16">
+              <div className="w-16 h-16 bg-indigo-100 rounded-full flex items-center justify-center mb-6">
+                <svg className="w-8 h-8 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                </svg>
+              </div>
+
+              <div className="text-center max-w-md">
+                <h3 className="text-xl font-semibold text-gray-800 mb-2">
+                  {t('result.pendingTitle', '가상체험이 아직 처리 중입니다')}
+                </h3>
+                <p className="text-gray-600 mb-6">
+                  {t('result.pendingDesc', '평소보다 시간이 오래 걸리고 있어요. 작업은 계속 진행되며, 창을 닫아도 다음에 방문하면 결과를 이어서 보여드립니다.')}
+                </p>
+
+                {onCheckAgain && (
+                  <button
+                    onClick={onCheckAgain}
+                    className="w-full px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {t('result.checkAgain', '결과 다시 확인하기')}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Error State */}
           {error && (
             <div className="flex flex-col items-center justify-center py-16">
@@ -222,22 +343,46 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({
               <div className="text-center max-w-md">
                 <h3 className="text-xl font-semibold text-red-600 mb-4">{t('result.errorTitle', '처리 중 오류가 발생했습니다')}</h3>
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
-                  <p className="text-red-700 text-sm">{error}</p>
+                  <p className="text-red-700 text-sm">{errorMessage}</p>
                 </div>
                 
                 <div className="space-y-3">
-                  <button
-                    onClick={onReset}
-                    className="w-full px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                  >
-                    {t('result.tryAgain', '다시 시도하기')}
-                  </button>
+                  {errorActions.length > 0 ? (
+                    <>
+                      {errorActions.map((action, index) => (
+                        <button
+                          key={action.key}
+                          onClick={action.onClick}
+                          className={index === 0
+                            ? 'w-full px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500'
+                            : 'w-full px-6 py-3 bg-white text-indigo-600 font-semibold border border-indigo-200 rounded-lg hover:bg-indigo-50 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500'}
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={onReset}
+                        className="w-full px-6 py-3 bg-white text-gray-700 font-semibold border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-300"
+                      >
+                        {t('common.close', '닫기')}
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={onReset}
+                      className="w-full px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      {t('result.tryAgain', '다시 시도하기')}
+                    </button>
+                  )}
                   
-                  <div className="text-xs text-gray-500 space-y-1">
-                    <p>{t('result.tip1', '• 얼굴이 명확히 보이는 사진을 사용해주세요')}</p>
-                    <p>{t('result.tip2', '• 인터넷 연결 상태를 확인해주세요')}</p>
-                    <p>{t('result.tip3', '• 문제가 계속되면 다른 사진으로 시도해보세요')}</p>
-                  </div>
+                  {(!errorCause || errorCause.code === 'unknown') && (
+                    <div className="text-xs text-gray-500 space-y-1">
+                      <p>{t('result.tip1', '• 얼굴이 명확히 보이는 사진을 사용해주세요')}</p>
+                      <p>{t('result.tip2', '• 인터넷 연결 상태를 확인해주세요')}</p>
+                      <p>{t('result.tip3', '• 문제가 계속되면 다른 사진으로 시도해보세요')}</p>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
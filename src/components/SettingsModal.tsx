@@ -3,15 +3,30 @@ import { useTranslation } from 'react-i18next'
 
 interface SettingsModalProps {
   currentUrl: string
-  onSave: (newUrl: string) => void
+  onSave: (newUrl: string, monthlyTryOnBudget?: number) => void
   onClose: () => void
+  // 월간 가상체험 크레딧 한도 (0 = 제한 없음, 저장 버튼으로 함께 저장)
+  monthlyTryOnBudget?: number
+  // 가상체험 결과 캐시 (바로 저장됨)
+  tryOnCacheEnabled?: boolean
+  onTryOnCacheToggle?: (enabled: boolean) => void
+  onTryOnCacheClear?: () => void
 }
 
-const SettingsModal: React.FC<SettingsModalProps> = ({ currentUrl, onSave, onClose }) => {
+const SettingsModal: React.FC<SettingsModalProps> = ({
+  currentUrl,
+  onSave,
+  onClose,
+  monthlyTryOnBudget,
+  tryOnCacheEnabled = true,
+  onTryOnCacheToggle,
+  onTryOnCacheClear
+}) => {
   const { t } = useTranslation()
   const [url, setUrl] = useState(currentUrl)
   const [isValidUrl, setIsValidUrl] = useState(true)
   const [showPreview, setShowPreview] = useState(false)
+  const [budget, setBudget] = useState(monthlyTryOnBudget ? String(monthlyTryOnBudget) : '')
 
   // Validate URL format
   const validateUrl = (inputUrl: string): boolean => {
@@ -41,7 +56,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ currentUrl, onSave, onClo
       return
     }
     
-    onSave(trimmedUrl)
+    if (monthlyTryOnBudget === undefined) {
+      onSave(trimmedUrl)
+      return
+    }
+
+    const parsedBudget = budget.trim() ? Number(budget) : 0
+    if (!Number.isFinite(parsedBudget) || parsedBudget < 0) {
+      alert(t('settings.tryOnBudget.invalid', '한도는 0 이상의 숫자로 입력해주세요.'))
+      return
+    }
+
+    onSave(trimmedUrl, parsedBudget)
   }
 
   // Handle test URL
@@ -214,6 +240,62 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ currentUrl, onSave, onClo
             </div>
           )}
 
+          {/* Try-On Result Cache */}
+          {onTryOnCacheToggle && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <label className="flex items-start justify-between gap-4 cursor-pointer">
+                <div>
+                  <h4 className="font-medium text-gray-800">{t('settings.tryOnCache.title', 'AI 가상체험 결과 재사용')}</h4>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {t('settings.tryOnCache.desc', '같은 고객 사진으로 같은 스타일을 다시 체험하면 저장된 결과를 바로 보여주고 크레딧을 쓰지 않습니다.')}
+                  </p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={tryOnCacheEnabled}
+                  onChange={(e) => onTryOnCacheToggle(e.target.checked)}
+                  className="mt-1 w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+                />
+              </label>
+              {onTryOnCacheClear && (
+                <button
+                  onClick={onTryOnCacheClear}
+                  className="inline-flex items-center text-sm text-red-600 hover:text-red-700"
+                >
+                  <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                  {t('settings.tryOnCache.clear', '저장된 결과 초기화')}
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Monthly Try-On Budget */}
+          {monthlyTryOnBudget !== undefined && (
+            <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+              <label htmlFor="monthly-tryon-budget" className="block font-medium text-gray-800">
+                {t('settings.tryOnBudget.title', '월간 AI 가상체험 한도')}
+              </label>
+              <p className="text-sm text-gray-600">
+                {t('settings.tryOnBudget.desc', '한 달 동안 사용할 수 있는 크레딧입니다. 한도를 다 쓰면 고객에게 안내 메시지가 표시됩니다. 0이면 제한이 없습니다.')}
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  id="monthly-tryon-budget"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={budget}
+                  onChange={(e) => setBudget(e.target.value)}
+                  placeholder="0"
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+                <span className="text-sm text-gray-600">{t('settings.tryOnBudget.unit', '크레딧 / 월')}</span>
+              </div>
+            </div>
+          )}
+
           {/* Important Notes */}
           <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
             <div className="flex items-start">
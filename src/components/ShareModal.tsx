@@ -1,19 +1,25 @@
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import CopyIcon from './icons/CopyIcon';
+import { QR_API_BASE_URL } from '../services/apiConfig';
 
 interface ShareModalProps {
-  designerName: string;
+  designerId: string;
+  slug?: string;                                      // 공개 주소 (없으면 UID로 링크 생성)
+  onSaveSlug: (slug: string) => Promise<{ success: boolean; error?: 'invalid' | 'taken' | 'failed' }>;
   onClose: () => void;
 }
 
-const ShareModal: React.FC<ShareModalProps> = ({ designerName, onClose }) => {
+const ShareModal: React.FC<ShareModalProps> = ({ designerId, slug, onSaveSlug, onClose }) => {
   const { t } = useTranslation();
   const [linkCopied, setLinkCopied] = useState(false);
   const [qrCopied, setQrCopied] = useState(false);
+  const [slugInput, setSlugInput] = useState(slug || '');
+  const [isSavingSlug, setIsSavingSlug] = useState(false);
+  const [slugMessage, setSlugMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
-  const shareUrl = `${window.location.origin}${window.location.pathname}?designer=${encodeURIComponent(designerName)}`;
-  const qrCodeUrl = `https://api.qrserver.com/v1/create-qr-code/?size=180x180&data=${encodeURIComponent(shareUrl)}`;
+  const shareUrl = `${window.location.origin}${window.location.pathname}?designer=${encodeURIComponent(slug || designerId)}`;
+  const qrCodeUrl = `${QR_API_BASE_URL}/v1/create-qr-code/?size=180x180&data=${encodeURIComponent(shareUrl)}`;
 
   const handleLinkCopy = () => {
     navigator.clipboard.writeText(shareUrl).then(() => {
@@ -22,6 +28,25 @@ const ShareModal: React.FC<ShareModalProps> = ({ designerName, onClose }) => {
     });
   };
 
+  const handleSlugSave = async () => {
+    setIsSavingSlug(true);
+    setSlugMessage(null);
+    try {
+      const result = await onSaveSlug(slugInput);
+      if (result.success) {
+        setSlugMessage({ type: 'success', text: t('share.slugSaved', 'Link address updated. Previous links to the old address no longer work.') });
+      } else if (result.error === 'invalid') {
+        setSlugMessage({ type: 'error', text: t('share.slugInvalid', 'Use 3-40 lowercase letters, numbers or Korean characters, separated by hyphens.') });
+      } else if (result.error === 'taken') {
+        setSlugMessage({ type: 'error', text: t('share.slugTaken', 'This address is already in use. Please choose another one.') });
+      } else {
+        setSlugMessage({ type: 'error', text: t('share.slugSaveError', 'Could not save the link address. Please try again.') });
+      }
+    } finally {
+      setIsSavingSlug(false);
+    }
+  };
+
   const handleQrCopy = async () => {
     try {
       const response = await fetch(qrCodeUrl);
@@ -118,6 +143,45 @@ const ShareModal: React.FC<ShareModalProps> = ({ designerName, onClose }) => {
               </p>
             )}
           </div>
+
+          {/* Slug Section */}
+          <div>
+            <label htmlFor="share-slug" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('share.slugLabel', 'Link Address')}
+            </label>
+            <div className="flex gap-2">
+              <div className="flex-1 flex items-center bg-white border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-indigo-500 focus-within:border-transparent">
+                <span className="pl-3 text-gray-400 text-sm">?designer=</span>
+                <input
+                  id="share-slug"
+                  type="text"
+                  value={slugInput}
+                  onChange={(e) => {
+                    setSlugInput(e.target.value);
+                    setSlugMessage(null);
+                  }}
+                  placeholder={t('share.slugPlaceholder', 'your-name')}
+                  className="flex-1 min-w-0 py-3 pr-3 text-gray-700 text-sm bg-transparent focus:outline-none"
+                />
+              </div>
+              <button
+                onClick={handleSlugSave}
+                disabled={isSavingSlug || !slugInput.trim() || slugInput.trim().toLowerCase() === slug}
+                className="px-4 py-2.5 bg-gray-100 text-gray-700 font-medium rounded-lg shadow-sm hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 text-sm min-h-[44px]"
+              >
+                {isSavingSlug ? t('share.slugSaving', 'Saving...') : t('share.slugSave', 'Change')}
+              </button>
+            </div>
+            {slugMessage ? (
+              <p className={`text-sm mt-2 font-medium ${slugMessage.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+                {slugMessage.text}
+              </p>
+            ) : (
+              <p className="text-gray-500 text-xs mt-2">
+                {t('share.slugHint', 'Lowercase letters, numbers, Korean characters and hyphens (3-40 characters).')}
+              </p>
+            )}
+          </div>
         </div>
 
         {/* Footer */}
@@ -28,6 +28,7 @@ import {
   MINOR_CATEGORIES
 } from '../types';
 import { uploadWithProgress, isValidImageFile, isValidFileSize } from '../services/cloudinaryService';
+import { analyzeHairstyleImage } from '../services/hairstyleAnalysisService';
 import UploadIcon from './icons/UploadIcon';
 
 interface UploadStyleModalProps {
@@ -235,14 +236,18 @@ const UploadStyleModal: React.FC<UploadStyleModalProps> = ({ onUpload, onClose }
     setError(null);
 
     try {
-      const cloudinaryUrl = await uploadWithProgress(
-        file,
-        (progress) => setUploadProgress(progress),
-        {
-          folder: 'hairfolio/styles',
-          tags: ['hairfolio', 'hairstyle', gender.toLowerCase(), serviceCategory]
-        }
-      );
+      // 업로드와 함께 스타일 구조화 정보 분석 (한 번만 분석해 Hairstyle에 저장)
+      const [cloudinaryUrl, descriptor] = await Promise.all([
+        uploadWithProgress(
+          file,
+          (progress) => setUploadProgress(progress),
+          {
+            folder: 'hairfolio/styles',
+            tags: ['hairfolio', 'hairstyle', gender.toLowerCase(), serviceCategory]
+          }
+        ),
+        analyzeHairstyleImage(file)
+      ]);
 
       const tagsArray = tags
         .split(',')
@@ -258,6 +263,7 @@ const UploadStyleModal: React.FC<UploadStyleModalProps> = ({ onUpload, onClose }
         serviceCategory,
         serviceSubCategory: serviceSubCategory.trim() || undefined,
         aiRecommendations, // 🆕 AI 추천 정보 포함
+        descriptor: descriptor || undefined,
         majorCategory,
         minorCategory,
         description: description.trim() || undefined,
@@ -0,0 +1,148 @@
+// 일별 집계 테스트 - 메모리 저장소의 이벤트 로그로 loadDailyRollups 동작 확인
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalyticsEvent, DEFAULT_SETTINGS, DEFAULT_STATS, Repositories } from '../types';
+import { buildDailyRollups, getRecentDateRange, loadDailyRollups, toDateKey, toDateKeyTimeRange } from './analyticsService';
+import { resetAnalytics } from './firebaseService';
+import { createMemoryRepositories } from './localStorageRepository';
+import { setRepositories } from './repository';
+
+const DESIGNER_ID = 'designer-1';
+
+const createEvent = (timestamp: string, fields: Partial<AnalyticsEvent> = {}): AnalyticsEvent => ({
+  id: `${timestamp}-${Math.random()}`,
+  designerId: DESIGNER_ID,
+  type: 'visit',
+  timestamp,
+  sessionId: 'session-1',
+  source: 'portfolio_link',
+  ...fields
+});
+
+describe('analyticsService 일별 집계', () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-10T12:00:00.000Z'));
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+    await repositories.designers.saveDesigner(DESIGNER_ID, {
+      stats: { ...DEFAULT_STATS },
+      settings: { ...DEFAULT_SETTINGS }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('날짜 키는 UTC 날짜', () => {
+    expect(toDateKey(new Date('2024-03-09T23:30:00.000Z'))).toBe('2024-03-09');
+    expect(buildDailyRollups(DESIGNER_ID, [createEvent('2024-03-09T23:30:00.000Z')]).map(rollup => rollup.date)).toEqual(['2024-03-09']);
+  });
+
+  it('처음 집계할 때는 조회 기간부터만 읽음', async () => {
+    await repositories.analytics.addEvent(createEvent('2024-01-01T10:00:00.000Z'));
+    await repositories.analytics.addEvent(createEvent('2024-03-05T10:00:00.000Z'));
+    const listEvents = vi.spyOn(repositories.analytics, 'listEvents');
+
+    const rollups = await loadDailyRollups(DESIGNER_ID, '2024-03-01', '2024-03-10');
+
+    expect(rollups.map(rollup => rollup.date)).toEqual(['2024-03-05']);
+    expect(listEvents.mock.calls[0][1]).toBe('2024-03-01T00:00:00.000Z');
+    expect((await repositories.designers.getDesigner(DESIGNER_ID))?.analyticsRollupFrom).toBe('2024-03-01');
+  });
+
+  it('더 이전 기간을 조회하면 집계하지 않은 앞부분을 채움', async () => {
+    await repositories.analytics.addEvent(createEvent('2024-02-20T10:00:00.000Z'));
+    await loadDailyRollups(DESIGNER_ID, '2024-03-01', '2024-03-10');
+
+    const rollups = await loadDailyRollups(DESIGNER_ID, '2024-02-15', '2024-03-10');
+
+    expect(rollups.map(rollup => rollup.date)).toEqual(['2024-02-20']);
+    expect((await repositories.designers.getDesigner(DESIGNER_ID))?.analyticsRollupFrom).toBe('2024-02-15');
+  });
+
+  it('집계한 뒤 늦게 도착한 최근 이벤트도 다음 조회에 반영', async () => {
+    await repositories.analytics.addEvent(createEvent('2024-03-09T10:00:00.000Z'));
+    await loadDailyRollups(DESIGNER_ID, '2024-03-01', '2024-03-10');
+
+    // 기기 시각이 어긋나 어제 날짜로 늦게 기록된 이벤트
+    await repositories.analytics.addEvent(createEvent('2024-03-09T11:00:00.000Z', { sessionId: 'session-2' }));
+    const rollups = await loadDailyRollups(DESIGNER_ID, '2024-03-01', '2024-03-10');
+
+    expect(rollups.find(rollup => rollup.date === '2024-03-09')).toMatchObject({ counts: { visit: 2 }, sessions: 2 });
+  });
+
+  it('오늘은 저장하지 않고 이벤트에서 계산', async () => {
+    await repositories.analytics.addEvent(createEvent('2024-03-10T09:00:00.000Z'));
+
+    const rollups = await loadDailyRollups(DESIGNER_ID, '2024-03-10', '2024-03-10');
+
+    expect(rollups).toMatchObject([{ date: '2024-03-10', counts: { visit: 1 } }]);
+    expect(await repositories.analytics.listDailyRollups(DESIGNER_ID, '2024-03-10', '2024-03-10')).toEqual([]);
+  });
+
+  it('통계를 초기화하면 이전 이벤트와 저장된 집계는 기간 통계에서도 제외', async () => {
+    await repositories.analytics.addEvent(createEvent('2024-03-05T10:00:00.000Z'));
+    await repositories.analytics.addEvent(createEvent('2024-03-10T09:00:00.000Z'));
+    await loadDailyRollups(DESIGNER_ID, '2024-03-01', '2024-03-10');
+
+    expect(await resetAnalytics(DESIGNER_ID)).toBe(true);
+    await repositories.analytics.addEvent(createEvent('2024-03-10T12:30:00.000Z', { sessionId: 'session-2' }));
+    const rollups = await loadDailyRollups(DESIGNER_ID, '2024-03-01', '2024-03-10');
+
+    expect(rollups).toMatchObject([{ date: '2024-03-10', counts: { visit: 1 }, sessions: 1 }]);
+  });
+});
+
+describe('analyticsService 기간 (Asia/Seoul)', () => {
+  const originalTimeZone = process.env.TZ;
+  let repositories: Repositories;
+
+  beforeAll(() => {
+    process.env.TZ = 'Asia/Seoul';
+  });
+
+  afterAll(() => {
+    if (originalTimeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = originalTimeZone;
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    // 한국 시각 3월 10일 오전 10시 (UTC 3월 10일 01시)
+    vi.setSystemTime(new Date('2024-03-10T01:00:00.000Z'));
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+    await repositories.designers.saveDesigner(DESIGNER_ID, {
+      stats: { ...DEFAULT_STATS },
+      settings: { ...DEFAULT_SETTINGS }
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('한국 시간대에서 실행', () => {
+    expect(new Date().getTimezoneOffset()).toBe(-540);
+  });
+
+  it('최근 기간은 오늘의 UTC 날짜까지, UTC 날짜 단위로', () => {
+    expect(getRecentDateRange(7)).toEqual({ startDate: '2024-03-03', endDate: '2024-03-10' });
+
+    const { start, end } = toDateKeyTimeRange('2024-03-03', '2024-03-10');
+    expect(start.toISOString()).toBe('2024-03-03T00:00:00.000Z');
+    expect(end.toISOString()).toBe('2024-03-11T00:00:00.000Z');
+  });
+
+  it('오늘 이벤트가 최근 7일 집계에 포함', async () => {
+    await repositories.analytics.addEvent(createEvent('2024-03-10T00:30:00.000Z'));
+
+    const { startDate, endDate } = getRecentDateRange(7);
+    const rollups = await loadDailyRollups(DESIGNER_ID, startDate, endDate);
+
+    expect(rollups).toMatchObject([{ date: '2024-03-10', counts: { visit: 1 } }]);
+  });
+});
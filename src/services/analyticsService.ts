@@ -0,0 +1,243 @@
+// 분석 이벤트 - 고객 화면의 행동을 이벤트 로그에 추가하고, 대시보드가 기간별로 읽는 일별 집계를 이벤트 로그에서 생성
+import {
+  AnalyticsDailyRollup,
+  AnalyticsEvent,
+  AnalyticsEventSource,
+  AnalyticsEventType,
+  ColorTryOnResultKind,
+  Hairstyle
+} from '../types';
+import {
+  getAnalyticsEvents,
+  getAnalyticsRollupRange,
+  getDailyRollups,
+  logAnalyticsEvent,
+  saveDailyRollups
+} from './firebaseService';
+
+const SESSION_KEY = 'hairfolio_analytics_session';
+const visitKey = (designerId: string) => `hairfolio_analytics_visit_${designerId}`;
+
+// 조회할 때마다 다시 집계하는 최근 지난 날짜 수 (늦게 도착하거나 기기 시각이 어긋난 이벤트 반영)
+const REBUILD_RECENT_DAYS = 2;
+
+export interface AnalyticsSummary {
+  counts: Partial<Record<AnalyticsEventType, number>>;
+  styles: Record<string, Partial<Record<AnalyticsEventType, number>>>;
+  colorResults: Partial<Record<ColorTryOnResultKind, number>>;
+  sessions: number;
+}
+
+const generateId = (): string => {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+};
+
+/**
+ * 브라우저 탭 세션 ID (탭을 닫으면 새로 발급)
+ */
+export const getAnalyticsSessionId = (): string => {
+  let sessionId = sessionStorage.getItem(SESSION_KEY);
+  if (!sessionId) {
+    sessionId = generateId();
+    sessionStorage.setItem(SESSION_KEY, sessionId);
+  }
+  return sessionId;
+};
+
+// ===== 날짜 (UTC 날짜, YYYY-MM-DD - 보는 기기의 시간대와 관계없이 같은 이벤트는 같은 날짜로 집계) =====
+
+export const toDateKey = (date: Date): string => {
+  return date.toISOString().slice(0, 10);
+};
+
+// 날짜 키의 자정 (UTC)
+const fromDateKey = (dateKey: string): Date => {
+  return new Date(`${dateKey}T00:00:00.000Z`);
+};
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = fromDateKey(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+const earliestDateKey = (...dateKeys: string[]): string => {
+  return [...dateKeys].sort()[0];
+};
+
+const latestDateKey = (...dateKeys: string[]): string => {
+  return [...dateKeys].sort()[dateKeys.length - 1];
+};
+
+/**
+ * 최근 며칠 기간 (YYYY-MM-DD UTC 날짜, 양 끝 포함) - 오늘의 UTC 날짜에서 날짜 단위로 뺌
+ * 기기 자정 기준으로 계산하면 UTC보다 빠른 시간대(KST 등)에서 하루씩 앞당겨져 오늘 이벤트가 빠짐
+ */
+export const getRecentDateRange = (days: number, now: Date = new Date()): { startDate: string; endDate: string } => {
+  const endDate = toDateKey(now);
+  return { startDate: addDays(endDate, -days), endDate };
+};
+
+/**
+ * 날짜 키 기간의 시각 범위 (start 포함, end 제외 - 끝 날짜 다음날 UTC 자정)
+ */
+export const toDateKeyTimeRange = (startDate: string, endDate: string): { start: Date; end: Date } => {
+  return { start: fromDateKey(startDate), end: fromDateKey(addDays(endDate, 1)) };
+};
+
+// ===== 이벤트 기록 =====
+
+/**
+ * 분석 이벤트 기록 - 실패해도 화면 동작에 영향 없음
+ * 방문(visit)은 탭 세션마다 디자이너별로 한 번만 기록
+ */
+export const trackEvent = async (
+  designerId: string,
+  type: AnalyticsEventType,
+  options: {
+    source: AnalyticsEventSource;
+    style?: Pick<Hairstyle, 'id' | 'url'>;
+    resultKind?: ColorTryOnResultKind;
+  }
+): Promise<void> => {
+  if (!designerId) return;
+
+  try {
+    if (type === 'visit') {
+      if (sessionStorage.getItem(visitKey(designerId))) return;
+      sessionStorage.setItem(visitKey(designerId), 'true');
+    }
+
+    const event: AnalyticsEvent = {
+      id: generateId(),
+      designerId,
+      type,
+      timestamp: new Date().toISOString(),
+      sessionId: getAnalyticsSessionId(),
+      source: options.source,
+      styleId: options.style ? options.style.id || options.style.url : undefined,
+      resultKind: options.resultKind
+    };
+
+    await logAnalyticsEvent(event);
+  } catch (error) {
+    console.error('❌ Error tracking analytics event:', error);
+  }
+};
+
+// ===== 일별 집계 =====
+
+/**
+ * 이벤트를 날짜별로 집계 (이벤트가 있는 날짜만, 날짜순)
+ */
+export const buildDailyRollups = (designerId: string, events: AnalyticsEvent[]): AnalyticsDailyRollup[] => {
+  const rollups = new Map<string, AnalyticsDailyRollup>();
+  const sessions = new Map<string, Set<string>>();
+
+  events.forEach(event => {
+    const date = toDateKey(new Date(event.timestamp));
+    let rollup = rollups.get(date);
+    if (!rollup) {
+      rollup = { designerId, date, counts: {}, styles: {}, colorResults: {}, sessions: 0 };
+      rollups.set(date, rollup);
+      sessions.set(date, new Set());
+    }
+
+    rollup.counts[event.type] = (rollup.counts[event.type] || 0) + 1;
+    if (event.styleId) {
+      const style = rollup.styles[event.styleId] || (rollup.styles[event.styleId] = {});
+      style[event.type] = (style[event.type] || 0) + 1;
+    }
+    if (event.type === 'color_try_on' && event.resultKind) {
+      rollup.colorResults[event.resultKind] = (rollup.colorResults[event.resultKind] || 0) + 1;
+    }
+    sessions.get(date)!.add(event.sessionId);
+  });
+
+  return Array.from(rollups.values())
+    .map(rollup => ({ ...rollup, sessions: sessions.get(rollup.date)!.size }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * 기간별 일별 집계 조회 (YYYY-MM-DD UTC 날짜, 양 끝 포함)
+ * 조회할 때마다 이벤트 로그에서 다시 집계해 저장하는 구간:
+ * - 최근 지난 날짜(REBUILD_RECENT_DAYS일) - 늦게 도착한 이벤트 반영
+ * - 마지막 집계일(analyticsRollupThrough) 다음날부터
+ * - 조회 기간 중 아직 집계하지 않은 앞부분 (analyticsRollupFrom 이전) - 처음 집계할 때도 조회 기간부터만 읽음
+ * 오늘은 아직 이벤트가 쌓이는 중이라 저장하지 않고 매번 이벤트에서 계산한다.
+ * 통계를 초기화했으면(analyticsResetAt) 초기화한 날짜부터, 그날은 초기화 이후 이벤트만 집계한다.
+ */
+export const loadDailyRollups = async (
+  designerId: string,
+  startDate: string,
+  endDate: string
+): Promise<AnalyticsDailyRollup[]> => {
+  const today = toDateKey(new Date());
+  const yesterday = addDays(today, -1);
+
+  const { from, through, resetAt } = await getAnalyticsRollupRange(designerId);
+  const resetDate = resetAt ? toDateKey(new Date(resetAt)) : undefined;
+  const rangeStart = resetDate ? latestDateKey(startDate, resetDate) : startDate;
+  if (rangeStart > endDate) return [];
+
+  const rebuildStarts = [addDays(yesterday, 1 - REBUILD_RECENT_DAYS)];
+  if (through) rebuildStarts.push(addDays(through, 1));
+  // through만 있는 예전 기록은 처음부터 집계되어 있음
+  if (!through || (from && rangeStart < from)) rebuildStarts.push(rangeStart);
+  const rebuildStart = resetDate
+    ? latestDateKey(earliestDateKey(...rebuildStarts), resetDate)
+    : earliestDateKey(...rebuildStarts);
+
+  // 다시 집계할 구간과 오늘을 한 번에 읽음
+  const events = (await getAnalyticsEvents(designerId, fromDateKey(rebuildStart), fromDateKey(addDays(today, 1))))
+    .filter(event => !resetAt || event.timestamp >= resetAt);
+  const builtRollups = buildDailyRollups(designerId, events);
+  const pastRollups = builtRollups.filter(rollup => rollup.date <= yesterday);
+
+  // 저장에 실패해도 이번 조회에는 새로 만든 집계를 사용
+  const rollupFrom = !through ? rebuildStart : from && earliestDateKey(from, rebuildStart);
+  const saved = await saveDailyRollups(designerId, pastRollups, { from: rollupFrom, through: yesterday });
+  if (saved) {
+    console.log(`📊 일별 집계 저장: ${designerId} (${rebuildStart} ~ ${yesterday}, ${pastRollups.length}일)`);
+  }
+
+  const rollups = new Map<string, AnalyticsDailyRollup>();
+  if (rangeStart <= yesterday) {
+    const pastEnd = endDate < yesterday ? endDate : yesterday;
+    (await getDailyRollups(designerId, rangeStart, pastEnd)).forEach(rollup => rollups.set(rollup.date, rollup));
+  }
+  builtRollups
+    .filter(rollup => rollup.date >= rangeStart && rollup.date <= endDate)
+    .forEach(rollup => rollups.set(rollup.date, rollup));
+
+  return Array.from(rollups.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * 일별 집계 합산 (세션 수는 날짜별 고유 세션의 합)
+ */
+export const summarizeRollups = (rollups: AnalyticsDailyRollup[]): AnalyticsSummary => {
+  const summary: AnalyticsSummary = { counts: {}, styles: {}, colorResults: {}, sessions: 0 };
+
+  rollups.forEach(rollup => {
+    Object.entries(rollup.counts).forEach(([type, count]) => {
+      const key = type as AnalyticsEventType;
+      summary.counts[key] = (summary.counts[key] || 0) + (count || 0);
+    });
+    Object.entries(rollup.styles).forEach(([styleId, counts]) => {
+      const style = summary.styles[styleId] || (summary.styles[styleId] = {});
+      Object.entries(counts).forEach(([type, count]) => {
+        const key = type as AnalyticsEventType;
+        style[key] = (style[key] || 0) + (count || 0);
+      });
+    });
+    Object.entries(rollup.colorResults).forEach(([kind, count]) => {
+      const key = kind as ColorTryOnResultKind;
+      summary.colorResults[key] = (summary.colorResults[key] || 0) + (count || 0);
+    });
+    summary.sessions += rollup.sessions;
+  });
+
+  return summary;
+};
@@ -0,0 +1,29 @@
+// 외부 API 기본 주소 - 환경변수로 바꿀 수 있음 (오프라인 개발: npm run mock 후 http://localhost:4010 지정)
+const withDefault = (value: string | undefined, fallback: string): string => {
+  return (value || fallback).replace(/\/+$/, '');
+};
+
+export const VMODEL_API_BASE_URL = withDefault(import.meta.env.VITE_VMODEL_API_BASE_URL, 'https://api.vmodel.ai');
+export const CLOUDINARY_API_BASE_URL = withDefault(import.meta.env.VITE_CLOUDINARY_API_BASE_URL, 'https://api.cloudinary.com');
+export const GEMINI_API_BASE_URL = withDefault(import.meta.env.VITE_GEMINI_API_BASE_URL, 'https://generativelanguage.googleapis.com');
+export const QR_API_BASE_URL = withDefault(import.meta.env.VITE_QR_API_BASE_URL, 'https://api.qrserver.com');
+
+// 머리카락 분할 모델 (npm 패키지에 없어 dev / build 전에 public/models 로 받아 앱과 같은 주소에서 제공 - scripts/fetch-models.js)
+export const HAIR_SEGMENTER_MODEL_URL = withDefault(
+  import.meta.env.VITE_HAIR_SEGMENTER_MODEL_URL,
+  '/models/hair_segmenter.tflite'
+);
+
+/**
+ * Cloudinary 이미지 업로드 주소
+ */
+export const getCloudinaryUploadUrl = (cloudName: string): string => {
+  return `${CLOUDINARY_API_BASE_URL}/v1_1/${cloudName}/image/upload`;
+};
+
+/**
+ * Gemini 모델 generateContent 주소
+ */
+export const getGeminiEndpoint = (model: string): string => {
+  return `${GEMINI_API_BASE_URL}/v1beta/models/${model}:generateContent`;
+};
@@ -1,4 +1,6 @@
 // Cloudinary 업로드 서비스
+import { CLOUDINARY_API_BASE_URL, getCloudinaryUploadUrl } from './apiConfig';
+
 interface CloudinaryUploadResponse {
   public_id: string;
   version: number;
@@ -72,7 +74,7 @@ export const uploadToCloudinary = async (
       formData.append('tags', options.tags.join(','));
     }
 
-    const uploadUrl = `https://api.cloudinary.com/v1_1/${config.cloudName}/image/upload`;
+    const uploadUrl = getCloudinaryUploadUrl(config.cloudName);
     console.log('업로드 URL:', uploadUrl);
 
     // Cloudinary API 호출
@@ -146,7 +148,7 @@ export const uploadWithProgress = async (
       formData.append('tags', options.tags.join(','));
     }
 
-    const uploadUrl = `https://api.cloudinary.com/v1_1/${config.cloudName}/image/upload`;
+    const uploadUrl = getCloudinaryUploadUrl(config.cloudName);
 
     return new Promise((resolve, reject) => {
       const xhr = new XMLHttpRequest();
@@ -325,7 +327,7 @@ export const checkCloudinaryStatus = async (): Promise<boolean> => {
   try {
     const config = getCloudinaryConfig();
     // Cloudinary API 상태 확인 (간단한 ping)
-    const response = await fetch(`https://api.cloudinary.com/v1_1/${config.cloudName}/image/list`, {
+    const response = await fetch(`${CLOUDINARY_API_BASE_URL}/v1_1/${config.cloudName}/image/list`, {
       method: 'GET',
     });
     return response.status !== 404; // 404가 아니면 정상
@@ -0,0 +1,199 @@
+// 디자이너 데이터 이전 - 문서 안의 포트폴리오 배열을 스타일 컬렉션으로 옮기고, 이름으로 저장되던 예전 문서(designers/{이름})를 UID 문서로 합침
+import {
+  DEFAULT_STATS,
+  DEFAULT_SETTINGS,
+  DesignerDocument,
+  DesignerStats,
+  Hairstyle
+} from '../types';
+import { getRepositories } from './repository';
+
+// 샘플 디자이너는 이름이 문서 ID라 이전 대상이 아님
+const SAMPLE_DESIGNER_ID = 'Sample Designer';
+
+// 옮기는 최근 체험 결과 개수 (디자이너 데이터와 함께 읽는 개수와 같음)
+const MAX_TRIAL_RESULTS = 20;
+
+// 예전 문서의 분석 이벤트를 모두 읽기 위한 기간
+const EVENTS_FROM = new Date(0).toISOString();
+const EVENTS_UNTIL = '9999-12-31T00:00:00.000Z';
+
+const sumCounts = (
+  a: Record<string, number> = {},
+  b: Record<string, number> = {}
+): Record<string, number> => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([key, count]) => {
+    merged[key] = (merged[key] || 0) + count;
+  });
+  return merged;
+};
+
+const isSameStyle = (a: Hairstyle, b: Hairstyle) => (a.id && a.id === b.id) || a.url === b.url;
+
+// ID 없이 저장된 예전 스타일용 - 이미지 URL로 정해 이전을 다시 실행해도 같은 문서에 기록
+const legacyStyleId = (style: Hairstyle): string => {
+  let hash = 5381;
+  for (let i = 0; i < style.url.length; i++) {
+    hash = ((hash << 5) + hash + style.url.charCodeAt(i)) >>> 0;
+  }
+  return `legacy-${hash.toString(36)}`;
+};
+
+const mergeStats = (current: DesignerStats = DEFAULT_STATS, legacy: DesignerStats = DEFAULT_STATS): DesignerStats => {
+  // 전환율은 조회할 때 계산하므로 예전에 저장된 값은 버림
+  const { conversionRate, ...stats } = { ...legacy, ...current };
+
+  return {
+    ...stats,
+    visits: (current.visits || 0) + (legacy.visits || 0),
+    totalTryOns: (current.totalTryOns || 0) + (legacy.totalTryOns || 0),
+    totalTrialResults: (current.totalTrialResults || 0) + (legacy.totalTrialResults || 0),
+    styleViews: sumCounts(current.styleViews, legacy.styleViews),
+    bookings: sumCounts(current.bookings, legacy.bookings),
+    trialResults: [...(current.trialResults || []), ...(legacy.trialResults || [])]
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, MAX_TRIAL_RESULTS),
+    colorTryOnResults: sumCounts(current.colorTryOnResults, legacy.colorTryOnResults),
+    lastUpdated: new Date().toISOString()
+  };
+};
+
+const mergeDesignerDocument = (
+  current: DesignerDocument | null,
+  legacy: DesignerDocument,
+  legacyName: string
+): DesignerDocument => {
+  // 옮겨 온 이벤트가 반영되도록 일별 집계 범위는 지우고 다시 집계
+  const { portfolio, ownerUid, analyticsRollupFrom, analyticsRollupThrough, ...base } = current || legacy;
+  return {
+    ...base,
+    stats: mergeStats(current?.stats, legacy.stats),
+    profile: current?.profile || legacy.profile,
+    settings: current?.settings || legacy.settings || { ...DEFAULT_SETTINGS },
+    reservationUrl: current?.reservationUrl || legacy.reservationUrl,
+    slug: current?.slug,
+    legacyNames: Array.from(new Set([...(current?.legacyNames || []), ...(legacy.legacyNames || []), legacyName])),
+    createdAt: [current?.createdAt, legacy.createdAt].filter(Boolean).sort()[0] || new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * 문서 안에 저장된 포트폴리오 배열을 스타일 컬렉션(designers/{uid}/styles)으로 옮기고 배열을 문서에서 제거
+ * 로그인한 디자이너 본인만 실행 (고객 화면은 옮기기 전까지 문서 안의 배열을 그대로 읽음)
+ * 배열 순서를 order로 저장하고, 이미 옮겨진 스타일은 다시 쓰지 않아 중간에 실패해도 다시 실행하면 된다.
+ * @returns 옮겼으면 true (옮길 배열이 없거나 실패하면 false)
+ */
+export const migrateEmbeddedPortfolio = async (designerId: string): Promise<boolean> => {
+  const { designers } = getRepositories();
+
+  try {
+    const document = await designers.getDesigner(designerId);
+    if (!document?.portfolio) return false;
+
+    const existing = await designers.listStyles(designerId);
+    const styles = document.portfolio
+      .map((style, index) => ({ ...style, id: style.id || legacyStyleId(style), order: index }))
+      .filter(style => !existing.some(saved => isSameStyle(saved, style)));
+
+    // 스타일 문서 쓰기와 배열 삭제만 함께 기록 - 문서 전체를 다시 쓰지 않아 그사이 올라간 통계 / 수정 내용을 유지
+    await designers.moveEmbeddedPortfolio(designerId, styles);
+    console.log(`✅ 포트폴리오 이전: ${designerId} (스타일 ${styles.length}개)`);
+    return true;
+  } catch (error) {
+    console.error(`❌ 포트폴리오 이전 실패 (${designerId}):`, error);
+    return false;
+  }
+};
+
+/**
+ * 이름으로 저장된 예전 디자이너 문서를 UID 문서로 합치고 예전 문서 삭제
+ * - 관리자가 예전 문서에 소유 계정(ownerUid)을 기록한 문서만 이전 (scripts/assign-legacy-owner.js)
+ *   이름이 같은 것만으로는 소유자로 보지 않음 - 다른 미용실의 문서일 수 있음
+ * - 스타일은 UID 포트폴리오 뒤에 붙이고, 통계는 더하고, 프로필 / 설정 / 예약 링크는 UID 문서 값을 우선
+ * - 비용 기록(ledger)의 디자이너를 UID로 바꾸고, 최근 체험 결과와 분석 이벤트도 UID로 옮김
+ *   (예전 이름의 일별 집계와 가상체험 캐시는 옮기지 않음 - 집계는 이벤트로 다시 만들고 캐시는 새로 생성)
+ * - 합친 이름은 legacyNames에 남겨 예전 링크(?designer=<이름>)도 계속 열림
+ * 옮기는 단계는 다시 실행해도 같은 결과이고, 통계를 더한 문서는 legacyNames와 함께 한 번에 저장하므로
+ * 중간에 실패해도 다음 로그인 때 통계를 두 번 더하지 않고 남은 단계만 이어서 한다.
+ * 다른 디자이너가 올린 스타일이 있으면 건너뛴다.
+ * @returns 합친 이름 목록
+ */
+export const migrateNameKeyedDesigner = async (designerId: string): Promise<string[]> => {
+  const { designers, clients, analytics } = getRepositories();
+  const migrated: string[] = [];
+
+  let legacyDocuments: Array<{ designerId: string; data: DesignerDocument }>;
+  try {
+    legacyDocuments = (await designers.listDesignersByOwner(designerId))
+      .filter(({ designerId: legacyName }) => legacyName !== designerId && legacyName !== SAMPLE_DESIGNER_ID);
+  } catch (error) {
+    console.error(`❌ 예전 디자이너 문서 조회 실패 (${designerId}):`, error);
+    return migrated;
+  }
+
+  for (const { designerId: legacyName, data: legacyData } of legacyDocuments) {
+    try {
+      // 문서 ID가 다른 계정의 UID인 경우
+      if (await clients.getUser(legacyName)) continue;
+
+      const legacyStyles = [...(legacyData.portfolio || []), ...await designers.listStyles(legacyName)];
+      const uploadedByOthers = legacyStyles.some(style => style.uploadedBy && style.uploadedBy !== designerId);
+      if (uploadedByOthers) {
+        console.warn(`⚠️ '${legacyName}' 문서에 다른 디자이너의 스타일이 있어 합치지 않습니다.`);
+        continue;
+      }
+
+      // UID 문서의 포트폴리오 배열을 먼저 옮김 (옮기지 못하면 합친 문서를 저장할 때 배열이 사라지므로 건너뜀)
+      await migrateEmbeddedPortfolio(designerId);
+      const currentDocument = await designers.getDesigner(designerId);
+      if (currentDocument?.portfolio) continue;
+
+      // legacyNames에 이미 있으면 지난번에 합친 문서까지 저장했고 예전 문서 삭제만 남음
+      const alreadyMerged = !!currentDocument?.legacyNames?.includes(legacyName);
+      let ledgerCount = 0;
+
+      if (!alreadyMerged) {
+        // 예전 스타일은 UID 포트폴리오 뒤에 붙임 (이미 옮긴 스타일은 건너뜀)
+        const currentStyles = await designers.listStyles(designerId);
+        const lastOrder = Math.max(-1, ...currentStyles.map(style => style.order ?? 0));
+        const newStyles = legacyStyles.filter(style => !currentStyles.some(existing => isSameStyle(existing, style)));
+        for (const [index, style] of newStyles.entries()) {
+          await designers.saveStyle(designerId, { ...style, id: style.id || legacyStyleId(style), order: lastOrder + 1 + index });
+        }
+
+        const ledger = await designers.getTryOnLedger(legacyName, new Date(0).toISOString());
+        for (const entry of ledger) {
+          await designers.saveTryOnLedgerEntry({ ...entry, designerName: designerId });
+        }
+        ledgerCount = ledger.length;
+
+        const currentResults = await designers.listTrialResults(designerId, MAX_TRIAL_RESULTS);
+        for (const result of await designers.listTrialResults(legacyName, MAX_TRIAL_RESULTS)) {
+          const copied = currentResults.some(existing => existing.timestamp === result.timestamp && existing.resultUrl === result.resultUrl);
+          if (!copied) await designers.addTrialResult(designerId, result);
+        }
+
+        // 이벤트 ID는 그대로 두고 디자이너만 바꿔 저장 (Firestore는 같은 문서를 덮어써 옮겨짐)
+        const currentEventIds = new Set((await analytics.listEvents(designerId, EVENTS_FROM, EVENTS_UNTIL)).map(event => event.id));
+        for (const event of await analytics.listEvents(legacyName, EVENTS_FROM, EVENTS_UNTIL)) {
+          if (!currentEventIds.has(event.id)) await analytics.addEvent({ ...event, designerId });
+        }
+
+        await designers.saveDesigner(designerId, mergeDesignerDocument(currentDocument, legacyData, legacyName));
+      }
+
+      for (const style of await designers.listStyles(legacyName)) {
+        await designers.deleteStyle(legacyName, style.id!);
+      }
+      await designers.deleteDesigner(legacyName);
+      migrated.push(legacyName);
+      console.log(`✅ 디자이너 문서 이전: ${legacyName} → ${designerId} (비용 기록 ${ledgerCount}건)`);
+    } catch (error) {
+      console.error(`❌ 디자이너 문서 이전 실패 (${legacyName}):`, error);
+    }
+  }
+
+  return migrated;
+};
@@ -0,0 +1,984 @@
+// 얼굴 분석 워커 - 얼굴 감지, 피부톤 샘플링, 얼굴형 판정, 사진 품질 측정, 머리카락 분할을 메인 스레드 밖에서 처리
+// MediaPipe는 클래식 워커의 importScripts로만 불러올 수 있어서 이 파일은 런타임 import 없이 작성 (타입 import만 사용)
+import type { FaceMesh, Results } from '@mediapipe/face_mesh';
+import type { ImageSegmenter } from '@mediapipe/tasks-vision';
+import type {
+  FaceLandmark,
+  FaceMeasurements,
+  FaceShapeScores,
+  FaceShapeType,
+  HairLengthClass,
+  HairSegmentation,
+  LabColor,
+  PersonalColorSeason,
+  PersonalColorTone,
+  PersonalColorVariant,
+  PhotoQualityMetrics,
+  SkinTone,
+  WhiteBalanceSource
+} from '../types';
+
+// analyze: 사진 한 장 전체 분석 / track: 카메라 프레임에서 얼굴 위치와 품질만 측정 (추적 상태 유지)
+// segment: 얼굴 감지 없이 머리카락 분할만 (염색 모달에서 새로 올린 사진)
+export type FaceAnalysisWorkerMode = 'analyze' | 'track' | 'segment';
+
+// MediaPipe Tasks 머리카락 분할에 필요한 파일 주소
+export interface HairSegmenterAssets {
+  scriptUrl: string;                    // vision_bundle.cjs
+  wasmLoaderUrl: string;
+  wasmBinaryUrl: string;
+  modelUrl: string;                     // hair_segmenter.tflite
+}
+
+export interface FaceAnalysisWorkerRequest {
+  id: number;
+  mode: FaceAnalysisWorkerMode;
+  image: Blob | ImageBitmap;            // 카메라 프레임은 ImageBitmap으로 전송(transfer)
+  scriptUrl: string;                    // face_mesh.js 주소
+  assetUrls: Record<string, string>;    // Face Mesh가 요청하는 파일 이름 → 빌드된 자산 주소
+  segmenter?: HairSegmenterAssets;      // analyze / segment에서 사용
+}
+
+// 워커의 머리카락 분할 결과 - 마스크는 PNG Blob으로 넘기고 메인 스레드에서 dataURL로 변환
+export interface HairSegmentationWorkerResult extends Omit<HairSegmentation, 'mask'> {
+  mask: { width: number; height: number; png: Blob };
+}
+
+export interface FaceAnalysisWorkerResult {
+  detectorAvailable: boolean;           // MediaPipe를 불러오지 못하면 false
+  faces: Float32Array[];                // 얼굴별 랜드마크 (x, y, z 반복), 큰 얼굴부터
+  faceShape: FaceShapeType | null;
+  faceShapeScores: FaceShapeScores | null;
+  faceMeasurements: FaceMeasurements | null;
+  shapeConfidence: number;              // 1위와 2위 얼굴형의 확률 차이 기반 (0-1)
+  skinTone: SkinTone | null;
+  personalColor: PersonalColorTone | null;
+  metrics: PhotoQualityMetrics | null;  // 얼굴이 없으면 null
+  hair: HairSegmentationWorkerResult | null;  // analyze / segment, 분할 모델을 불러오지 못하면 null
+}
+
+export type FaceAnalysisWorkerResponse =
+  | { id: number; ok: true; result: FaceAnalysisWorkerResult }
+  | { id: number; ok: false; error: string };
+
+const workerScope = self as unknown as {
+  FaceMesh?: typeof FaceMesh;
+  exports?: { ImageSegmenter?: typeof ImageSegmenter };
+  createMediapipeSolutionsPackedAssets?: { locateFile: (file: string) => string };
+  importScripts: (...urls: string[]) => void;
+  onmessage: ((event: MessageEvent<FaceAnalysisWorkerRequest>) => void) | null;
+  postMessage: (message: FaceAnalysisWorkerResponse, transfer: Transferable[]) => void;
+};
+
+// 랜드마크 인덱스 (MediaPipe Face Mesh)
+const FOREHEAD = 10;
+const CHIN = 152;
+const LEFT_CHEEK = 234;   // 이미지 기준 왼쪽
+const RIGHT_CHEEK = 454;
+const LEFT_JAW = 172;
+const RIGHT_JAW = 397;
+const LEFT_FOREHEAD = 54;
+const RIGHT_FOREHEAD = 284;
+const LEFT_EYE_OUTER = 33;
+const RIGHT_EYE_OUTER = 263;
+
+// 피부톤 샘플링 영역 (랜드마크로 둘러싼 다각형) - 눈썹, 코 옆 그림자, 입술은 피함
+const SKIN_REGIONS: Record<string, number[]> = {
+  forehead: [67, 109, 10, 338, 297, 299, 337, 151, 108, 69],
+  leftCheek: [116, 117, 118, 101, 36, 205, 187, 123],
+  rightCheek: [345, 346, 347, 330, 266, 425, 411, 352]
+};
+
+// 눈 윤곽 (흰자를 화이트밸런스 기준으로 사용)
+const EYE_REGIONS = [
+  [33, 7, 163, 144, 145, 153, 154, 155, 133, 173, 157, 158, 159, 160, 161, 246],
+  [263, 249, 390, 373, 374, 380, 381, 382, 362, 398, 384, 385, 386, 387, 388, 466]
+];
+
+// 흰자로 인정할 최소 픽셀 수 (눈을 감았거나 작게 찍히면 grey-world로 대체)
+const MIN_SCLERA_PIXELS = 20;
+
+// 화이트밸런스 보정 배율 한도 (과보정 방지)
+const MIN_WB_GAIN = 0.8;
+const MAX_WB_GAIN = 1.25;
+
+// 여러 사람이 찍힌 사진을 걸러내기 위해 최대 얼굴 수를 1보다 크게 감지
+const MAX_DETECTED_FACES = 4;
+
+// 피부톤 샘플링용 이미지 최대 크기 (원본 해상도까지 그릴 필요 없음)
+const MAX_SAMPLE_SIZE = 1024;
+
+// 흐림 측정용 얼굴 영역 크기 (사진 해상도와 무관하게 비교하기 위해 고정)
+const FACE_SAMPLE_WIDTH = 256;
+
+const DEFAULT_SKIN_TONE: SkinTone = { r: 200, g: 150, b: 120, hex: '#C89678', whiteBalance: 'none', sampleCount: 0 };
+
+// ============================================================================
+// MediaPipe Face Mesh (워커 안에서 하나의 인스턴스만 사용)
+// ============================================================================
+
+let faceMeshPromise: Promise<FaceMesh> | null = null;
+let pendingResults: ((results: Results) => void) | null = null;
+
+const createFaceMesh = async (scriptUrl: string, assetUrls: Record<string, string>): Promise<FaceMesh> => {
+  const locateFile = (file: string): string => {
+    const url = assetUrls[file];
+    if (!url) {
+      console.warn('⚠️ 번들에 없는 MediaPipe 파일 요청:', file);
+    }
+    return url || file;
+  };
+
+  // 모델 묶음 로더는 전역 설정 객체에서 locateFile을 읽음 (wasm 주소도 같은 설정을 사용)
+  workerScope.createMediapipeSolutionsPackedAssets = { locateFile };
+  workerScope.importScripts(scriptUrl);
+
+  if (!workerScope.FaceMesh) {
+    throw new Error('MediaPipe Face Mesh를 찾을 수 없습니다');
+  }
+
+  const faceMesh = new workerScope.FaceMesh({ locateFile });
+  faceMesh.setOptions({
+    maxNumFaces: MAX_DETECTED_FACES,
+    refineLandmarks: true,
+    minDetectionConfidence: 0.5,
+    minTrackingConfidence: 0.5
+  });
+  faceMesh.onResults((results) => {
+    pendingResults?.(results);
+    pendingResults = null;
+  });
+
+  await faceMesh.initialize();
+  console.log('✅ MediaPipe Face Mesh 로드 완료 (워커)');
+  return faceMesh;
+};
+
+const getFaceMesh = (scriptUrl: string, assetUrls: Record<string, string>): Promise<FaceMesh> => {
+  if (!faceMeshPromise) {
+    faceMeshPromise = createFaceMesh(scriptUrl, assetUrls).catch((error) => {
+      // 실패하면 다음 요청에서 다시 시도
+      faceMeshPromise = null;
+      throw error;
+    });
+  }
+  return faceMeshPromise;
+};
+
+const detectFaces = async (faceMesh: FaceMesh, image: ImageBitmap, mode: FaceAnalysisWorkerMode): Promise<FaceLandmark[][]> => {
+  // 정지 사진마다 새로 감지 (이전 사진의 추적 상태를 이어받지 않도록), 카메라 프레임은 이전 프레임에서 이어서 추적
+  if (mode === 'analyze') {
+    faceMesh.reset();
+  }
+
+  const results = await new Promise<Results>((resolve, reject) => {
+    pendingResults = resolve;
+    faceMesh.send({ image: image as unknown as HTMLImageElement }).catch((error) => {
+      pendingResults = null;
+      reject(error);
+    });
+  });
+
+  return (results.multiFaceLandmarks || []).map(face =>
+    face.map(lm => ({ x: lm.x, y: lm.y, z: lm.z || 0 }))
+  );
+};
+
+// ============================================================================
+// 측정
+// ============================================================================
+
+const getLandmarkBounds = (landmarks: FaceLandmark[]) => {
+  let minX = 1, minY = 1, maxX = 0, maxY = 0;
+  landmarks.forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  });
+  return {
+    x: Math.max(0, minX),
+    y: Math.max(0, minY),
+    width: Math.min(1, maxX) - Math.max(0, minX),
+    height: Math.min(1, maxY) - Math.max(0, minY)
+  };
+};
+
+const getFaceArea = (landmarks: FaceLandmark[]): number => {
+  const bounds = getLandmarkBounds(landmarks);
+  return bounds.width * bounds.height;
+};
+
+// 얼굴형별 대표 비율 (평균, 광대 너비 기준) - 측정값이 가까울수록 확률이 높음
+type ShapeFeatures = Pick<FaceMeasurements, 'lengthRatio' | 'foreheadRatio' | 'jawRatio' | 'chinAngle'>;
+
+const FACE_SHAPE_PROTOTYPES: Record<keyof FaceShapeScores, ShapeFeatures> = {
+  '계란형': { lengthRatio: 1.30, foreheadRatio: 0.86, jawRatio: 0.78, chinAngle: 105 },
+  '둥근형': { lengthRatio: 1.08, foreheadRatio: 0.88, jawRatio: 0.86, chinAngle: 125 },
+  '각진형': { lengthRatio: 1.12, foreheadRatio: 0.90, jawRatio: 0.92, chinAngle: 130 },
+  '하트형': { lengthRatio: 1.22, foreheadRatio: 0.95, jawRatio: 0.70, chinAngle: 98 },
+  '긴 얼굴형': { lengthRatio: 1.45, foreheadRatio: 0.86, jawRatio: 0.84, chinAngle: 108 },
+  '다이아몬드형': { lengthRatio: 1.25, foreheadRatio: 0.78, jawRatio: 0.72, chinAngle: 100 },
+  '타원형': { lengthRatio: 1.20, foreheadRatio: 0.86, jawRatio: 0.80, chinAngle: 112 }
+};
+
+// 항목별 허용 편차 (사람마다 자연스럽게 벌어지는 정도)
+const FACE_SHAPE_SPREAD: ShapeFeatures = { lengthRatio: 0.08, foreheadRatio: 0.05, jawRatio: 0.05, chinAngle: 8 };
+
+/**
+ * 얼굴형 판정용 측정 (이미지 픽셀 단위로 계산해 가로세로 비율 왜곡을 없앰)
+ */
+const measureFace = (landmarks: FaceLandmark[], width: number, height: number): FaceMeasurements => {
+  const point = (index: number) => ({ x: landmarks[index].x * width, y: landmarks[index].y * height });
+  const distance = (a: number, b: number) => Math.hypot(point(a).x - point(b).x, point(a).y - point(b).y);
+
+  const foreheadWidth = distance(LEFT_FOREHEAD, RIGHT_FOREHEAD);
+  const cheekboneWidth = distance(LEFT_CHEEK, RIGHT_CHEEK);
+  const jawWidth = distance(LEFT_JAW, RIGHT_JAW);
+  const faceLength = distance(FOREHEAD, CHIN);
+
+  const chin = point(CHIN);
+  const leftJaw = point(LEFT_JAW);
+  const rightJaw = point(RIGHT_JAW);
+  const chinAngle = Math.abs(
+    Math.atan2(leftJaw.y - chin.y, leftJaw.x - chin.x) - Math.atan2(rightJaw.y - chin.y, rightJaw.x - chin.x)
+  ) * 180 / Math.PI;
+
+  return {
+    foreheadWidth,
+    cheekboneWidth,
+    jawWidth,
+    faceLength,
+    chinAngle: chinAngle > 180 ? 360 - chinAngle : chinAngle,
+    lengthRatio: faceLength / cheekboneWidth,
+    foreheadRatio: foreheadWidth / cheekboneWidth,
+    jawRatio: jawWidth / cheekboneWidth
+  };
+};
+
+/**
+ * 측정값으로 얼굴형별 확률 계산 (대표 비율과의 거리 → 정규분포 가능도 → 합계 1로 정규화)
+ */
+const scoreFaceShapes = (measurements: FaceMeasurements): FaceShapeScores => {
+  const features = Object.keys(FACE_SHAPE_SPREAD) as (keyof ShapeFeatures)[];
+  const shapes = Object.keys(FACE_SHAPE_PROTOTYPES) as (keyof FaceShapeScores)[];
+
+  const logLikelihoods = shapes.map(shape => -0.5 * features.reduce((sum, feature) => {
+    const z = (measurements[feature] - FACE_SHAPE_PROTOTYPES[shape][feature]) / FACE_SHAPE_SPREAD[feature];
+    return sum + z * z;
+  }, 0));
+
+  const max = Math.max(...logLikelihoods);
+  const weights = logLikelihoods.map(value => Math.exp(value - max));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return shapes.reduce((scores, shape, i) => {
+    scores[shape] = weights[i] / total;
+    return scores;
+  }, {} as FaceShapeScores);
+};
+
+/**
+ * 얼굴형 분석 (실제 MediaPipe 랜드마크 사용)
+ * 신뢰도는 1위와 2위의 상대적인 차이 (비슷하면 0에 가깝고, 1위가 압도적이면 1에 가까움)
+ */
+const analyzeFaceShape = (landmarks: FaceLandmark[], width: number, height: number) => {
+  if (!landmarks || landmarks.length < 468) {
+    return { faceShape: '알 수 없음' as FaceShapeType, faceShapeScores: null, faceMeasurements: null, shapeConfidence: 0 };
+  }
+
+  const faceMeasurements = measureFace(landmarks, width, height);
+  const faceShapeScores = scoreFaceShapes(faceMeasurements);
+  const [[faceShape, first], [, second]] = Object.entries(faceShapeScores)
+    .sort(([, a], [, b]) => b - a) as [keyof FaceShapeScores, number][];
+
+  console.log('📊 얼굴 측정:', {
+    길이비율: faceMeasurements.lengthRatio.toFixed(2),
+    이마비율: faceMeasurements.foreheadRatio.toFixed(2),
+    턱너비비율: faceMeasurements.jawRatio.toFixed(2),
+    턱각도: faceMeasurements.chinAngle.toFixed(0),
+    결과: `${faceShape} ${(first * 100).toFixed(0)}%`
+  });
+
+  return {
+    faceShape: faceShape as FaceShapeType,
+    faceShapeScores,
+    faceMeasurements,
+    shapeConfidence: (first - second) / first
+  };
+};
+
+type Rgb = [number, number, number];
+type Point = { x: number; y: number };
+
+const toHex = ([r, g, b]: Rgb): string => {
+  return `#${[r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+};
+
+const getLuminance = ([r, g, b]: Rgb): number => 0.299 * r + 0.587 * g + 0.114 * b;
+
+const getSaturation = ([r, g, b]: Rgb): number => {
+  const max = Math.max(r, g, b);
+  return max === 0 ? 0 : (max - Math.min(r, g, b)) / max;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const averageRgb = (pixels: Rgb[]): Rgb => {
+  const total = pixels.reduce<Rgb>((sum, [r, g, b]) => [sum[0] + r, sum[1] + g, sum[2] + b], [0, 0, 0]);
+  return [total[0] / pixels.length, total[1] / pixels.length, total[2] / pixels.length];
+};
+
+/**
+ * sRGB → CIELAB (D65)
+ */
+const rgbToLab = ([r, g, b]: Rgb): LabColor => {
+  const toLinear = (value: number) => {
+    const c = value / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+
+  return {
+    l: Math.round((116 * fy - 16) * 10) / 10,
+    a: Math.round(500 * (fx - fy) * 10) / 10,
+    b: Math.round(200 * (fy - fz) * 10) / 10
+  };
+};
+
+// 볼록 다각형 (랜드마크 순서와 상관없이 영역을 만들기 위해 사용)
+const getConvexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const build = (list: Point[]) => list.reduce<Point[]>((hull, point) => {
+    while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], point) <= 0) hull.pop();
+    hull.push(point);
+    return hull;
+  }, []);
+
+  const lower = build(sorted);
+  const upper = build([...sorted].reverse());
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+const isInsidePolygon = ({ x, y }: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// 랜드마크 다각형 안의 픽셀 수집
+const collectRegionPixels = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  landmarks: FaceLandmark[],
+  indices: number[]
+): Rgb[] => {
+  const points = indices.filter(index => landmarks[index]).map(index => ({
+    x: landmarks[index].x * width,
+    y: landmarks[index].y * height
+  }));
+  if (points.length < 3) return [];
+
+  const polygon = getConvexHull(points);
+  const minX = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.x))));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(...polygon.map(p => p.x))));
+  const minY = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.y))));
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(...polygon.map(p => p.y))));
+
+  const pixels: Rgb[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (isInsidePolygon({ x: x + 0.5, y: y + 0.5 }, polygon)) {
+        const offset = (y * width + x) * 4;
+        pixels.push([data[offset], data[offset + 1], data[offset + 2]]);
+      }
+    }
+  }
+  return pixels;
+};
+
+/**
+ * 화이트밸런스 보정 배율 (눈 흰자 우선, 없으면 사진 전체 평균)
+ */
+const estimateWhiteBalance = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  landmarks: FaceLandmark[]
+): { gains: Rgb; source: WhiteBalanceSource } => {
+  const toGains = (reference: Rgb): Rgb => {
+    const gray = (reference[0] + reference[1] + reference[2]) / 3;
+    return reference.map(value =>
+      Math.min(MAX_WB_GAIN, Math.max(MIN_WB_GAIN, value > 0 ? gray / value : 1))
+    ) as Rgb;
+  };
+
+  // 1. 눈 흰자: 눈 안에서 밝고 채도가 낮은 픽셀 (홍채, 속눈썹 제외)
+  const eyePixels = EYE_REGIONS.flatMap(indices => collectRegionPixels(data, width, height, landmarks, indices));
+  if (eyePixels.length > 0) {
+    const brightThreshold = median(eyePixels.map(getLuminance));
+    const sclera = eyePixels.filter(pixel => getLuminance(pixel) >= brightThreshold && getSaturation(pixel) < 0.25);
+    if (sclera.length >= MIN_SCLERA_PIXELS) {
+      return { gains: toGains(averageRgb(sclera)), source: 'sclera' };
+    }
+  }
+
+  // 2. grey-world: 사진 전체 평균을 무채색으로 가정 (배율 한도로 얼굴색 쏠림을 제한)
+  let totalR = 0, totalG = 0, totalB = 0;
+  const pixelCount = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    totalR += data[i];
+    totalG += data[i + 1];
+    totalB += data[i + 2];
+  }
+  if (pixelCount === 0) {
+    return { gains: [1, 1, 1], source: 'none' };
+  }
+  return { gains: toGains([totalR / pixelCount, totalG / pixelCount, totalB / pixelCount]), source: 'grey-world' };
+};
+
+// 피부가 아닌 픽셀 제거: 번들거림(하이라이트), 짙은 그림자, 피부색 범위 밖, 밝기 이상치
+const rejectSkinOutliers = (pixels: Rgb[]): Rgb[] => {
+  const candidates = pixels.filter(pixel => {
+    const [r, g, b] = pixel;
+    const luminance = getLuminance(pixel);
+    return luminance > 40 && luminance < 235 && Math.max(r, g, b) < 250 && r >= g && r > b;
+  });
+  if (candidates.length < 10) return candidates;
+
+  // 밝기 중앙값에서 크게 벗어난 픽셀 제거 (MAD 기준)
+  const luminances = candidates.map(getLuminance);
+  const center = median(luminances);
+  const spread = median(luminances.map(value => Math.abs(value - center))) || 1;
+  return candidates.filter((_, i) => Math.abs(luminances[i] - center) <= 2.5 * spread);
+};
+
+/**
+ * 랜드마크 영역 기반 피부톤 추출
+ * 이마/양 볼 다각형의 픽셀을 모아 이상치를 걸러내고 화이트밸런스를 보정한 평균 (RGB + CIELAB)
+ */
+const extractSkinTone = (image: ImageBitmap, landmarks: FaceLandmark[]): SkinTone => {
+  const scale = Math.min(1, MAX_SAMPLE_SIZE / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return DEFAULT_SKIN_TONE;
+
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const { gains, source } = estimateWhiteBalance(data, width, height, landmarks);
+  const regionPixels = Object.values(SKIN_REGIONS)
+    .flatMap(indices => collectRegionPixels(data, width, height, landmarks, indices))
+    .map(([r, g, b]) => [
+      Math.min(255, r * gains[0]),
+      Math.min(255, g * gains[1]),
+      Math.min(255, b * gains[2])
+    ] as Rgb);
+
+  const skinPixels = rejectSkinOutliers(regionPixels);
+  if (skinPixels.length === 0) return DEFAULT_SKIN_TONE;
+
+  const average = averageRgb(skinPixels);
+  const [r, g, b] = average.map(Math.round);
+  const skinTone: SkinTone = {
+    r,
+    g,
+    b,
+    hex: toHex([r, g, b]),
+    lab: rgbToLab([r, g, b]),
+    whiteBalance: source,
+    sampleCount: skinPixels.length
+  };
+
+  console.log('✅ 영역 기반 피부톤 추출:', {
+    hex: skinTone.hex,
+    lab: skinTone.lab,
+    화이트밸런스: source,
+    픽셀: `${skinPixels.length}/${regionPixels.length}`
+  });
+  return skinTone;
+};
+
+// 퍼스널 컬러 기준 (피부 CIELAB) - 한국인 피부 평균 주변에서 명도/채도 편차로 세부 톤 결정
+const PERSONAL_COLOR_BASIS = {
+  warmHue: 55,         // b*/a* 색상각(도)이 이보다 크면 노란기 → 웜톤
+  lightness: 62,       // L* 평균
+  lightnessSpread: 8,
+  chroma: 22,          // sqrt(a*² + b*²) 평균
+  chromaSpread: 5,
+  variantMin: 0.5      // 세부 톤 편차가 이보다 작으면 계절 대표(트루) 톤
+};
+
+// 계절별로 나올 수 있는 세부 톤 (12톤 체계)
+const SEASON_VARIANTS: Record<PersonalColorSeason, [PersonalColorVariant, PersonalColorVariant]> = {
+  '봄 웜톤': ['light', 'bright'],
+  '여름 쿨톤': ['light', 'muted'],
+  '가을 웜톤': ['muted', 'deep'],
+  '겨울 쿨톤': ['deep', 'bright']
+};
+
+const VARIANT_LABELS: Record<PersonalColorVariant, string> = {
+  light: '라이트',
+  bright: '브라이트',
+  muted: '뮤트',
+  deep: '딥',
+  true: '트루'
+};
+
+/**
+ * 퍼스널 컬러 분석 (12톤)
+ * 색상각으로 웜/쿨, 명도·채도 편차로 계절과 세부 톤을 정함
+ */
+const analyzePersonalColor = (skinTone: SkinTone): PersonalColorTone => {
+  const { l, a, b } = skinTone.lab || rgbToLab([skinTone.r, skinTone.g, skinTone.b]);
+  const basis = PERSONAL_COLOR_BASIS;
+
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  const chroma = Math.sqrt(a * a + b * b);
+  const lightDev = (l - basis.lightness) / basis.lightnessSpread;
+  const chromaDev = (chroma - basis.chroma) / basis.chromaSpread;
+  const warm = hue >= basis.warmHue;
+
+  // 웜: 밝고 맑으면 봄, 어둡고 탁하면 가을 / 쿨: 밝고 부드러우면 여름, 어둡고 선명하면 겨울
+  const season: PersonalColorSeason = warm
+    ? (lightDev + chromaDev > 0 ? '봄 웜톤' : '가을 웜톤')
+    : (lightDev - chromaDev > 0 ? '여름 쿨톤' : '겨울 쿨톤');
+
+  const variantScores: Record<PersonalColorVariant, number> = {
+    light: lightDev,
+    deep: -lightDev,
+    bright: chromaDev,
+    muted: -chromaDev,
+    true: basis.variantMin
+  };
+  const [first, second] = SEASON_VARIANTS[season];
+  const strongest = variantScores[first] >= variantScores[second] ? first : second;
+  const variant = variantScores[strongest] >= basis.variantMin ? strongest : 'true';
+
+  console.log('🎨 피부 분석:', {
+    색상각: hue.toFixed(1),
+    명도: l.toFixed(1),
+    채도: chroma.toFixed(1),
+    계절: season,
+    세부톤: variant
+  });
+
+  return `${season} ${VARIANT_LABELS[variant]}` as PersonalColorTone;
+};
+
+// 고개 각도 (도) - 랜드마크 z(깊이)는 x와 같은 스케일이므로 픽셀 단위로 맞춰 계산
+const estimateHeadPose = (landmarks: FaceLandmark[], width: number, height: number) => {
+  const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+  const point = (index: number) => ({
+    x: landmarks[index].x * width,
+    y: landmarks[index].y * height,
+    z: landmarks[index].z * width
+  });
+
+  const leftCheek = point(LEFT_CHEEK);
+  const rightCheek = point(RIGHT_CHEEK);
+  const forehead = point(FOREHEAD);
+  const chin = point(CHIN);
+  const leftEye = point(LEFT_EYE_OUTER);
+  const rightEye = point(RIGHT_EYE_OUTER);
+
+  return {
+    yaw: toDegrees(Math.atan2(rightCheek.z - leftCheek.z, rightCheek.x - leftCheek.x)),
+    pitch: toDegrees(Math.atan2(chin.z - forehead.z, chin.y - forehead.y)),
+    roll: toDegrees(Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x))
+  };
+};
+
+// 얼굴 영역을 고정 크기로 잘라 흑백 픽셀 배열로 변환
+const sampleFaceRegion = (image: ImageBitmap, landmarks: FaceLandmark[]) => {
+  const bounds = getLandmarkBounds(landmarks);
+  const sx = bounds.x * image.width;
+  const sy = bounds.y * image.height;
+  const sw = bounds.width * image.width;
+  const sh = bounds.height * image.height;
+  if (sw < 1 || sh < 1) return null;
+
+  const width = FACE_SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round((FACE_SAMPLE_WIDTH * sh) / sw));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { gray, width, height };
+};
+
+// 밝기 평균 / 표준편차 (0-255)
+const measureLuminance = (gray: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) sum += gray[i];
+  const mean = sum / gray.length;
+
+  let variance = 0;
+  for (let i = 0; i < gray.length; i++) variance += (gray[i] - mean) ** 2;
+  return { brightness: mean, contrast: Math.sqrt(variance / gray.length) };
+};
+
+// 라플라시안 분산 - 경계가 뚜렷할수록 큼
+const measureBlurVariance = (gray: Float32Array, width: number, height: number): number => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+const measurePhotoQuality = (image: ImageBitmap, faces: FaceLandmark[][]): PhotoQualityMetrics => {
+  const [primary] = faces;
+  const bounds = getLandmarkBounds(primary);
+  const sample = sampleFaceRegion(image, primary);
+  const luminance = sample ? measureLuminance(sample.gray) : { brightness: 128, contrast: 64 };
+
+  return {
+    faceCount: faces.length,
+    faceSizeRatio: bounds.width * bounds.height,
+    ...estimateHeadPose(primary, image.width, image.height),
+    ...luminance,
+    blurVariance: sample ? measureBlurVariance(sample.gray, sample.width, sample.height) : Infinity
+  };
+};
+
+// 랜드마크를 전송 가능한 Float32Array로 변환 (x, y, z 반복)
+const packLandmarks = (landmarks: FaceLandmark[]): Float32Array => {
+  const packed = new Float32Array(landmarks.length * 3);
+  landmarks.forEach(({ x, y, z }, i) => {
+    packed[i * 3] = x;
+    packed[i * 3 + 1] = y;
+    packed[i * 3 + 2] = z;
+  });
+  return packed;
+};
+
+// ============================================================================
+// 머리카락 분할 (MediaPipe Image Segmenter)
+// ============================================================================
+
+// 분할 입력 크기 (모델 입력이 512x512라 더 크게 넣어도 정확도는 같음)
+const MAX_SEGMENT_SIZE = 512;
+
+// 넘겨주는 마스크 크기
+const MAX_MASK_SIZE = 256;
+
+const HAIR_THRESHOLD = 0.5;       // 머리카락으로 볼 확률
+const HAIR_COLOR_THRESHOLD = 0.8; // 색상 추정에는 확실한 머리카락 픽셀만 사용
+const MIN_HAIR_COLOR_PIXELS = 50;
+const MIN_HAIR_ROW_PIXELS = 3;    // 머리 끝 위치를 찾을 때 한 줄에 필요한 머리카락 픽셀 수
+
+// 머리 끝이 턱 끝에서 내려온 길이 (얼굴 길이 대비, 음수면 턱보다 위) - 이보다 짧으면 해당 기장
+const HAIR_LENGTH_THRESHOLDS: [HairLengthClass, number][] = [
+  ['buzz', -0.55],   // 귀 위
+  ['short', 0],      // 턱선 위
+  ['bob', 0.3],      // 턱 ~ 목
+  ['medium', 1.0]    // 어깨 근처
+];
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+
+const createSegmenter = async (assets: HairSegmenterAssets): Promise<ImageSegmenter> => {
+  // tasks-vision은 ES 모듈 / CommonJS 번들만 있어서 exports 객체를 만들어 두고 CommonJS 번들을 importScripts로 불러옴
+  // (같은 스크립트를 다시 불러오면 전역 선언이 겹치므로 한 번만)
+  if (!workerScope.exports?.ImageSegmenter) {
+    workerScope.exports = {};
+    workerScope.importScripts(assets.scriptUrl);
+  }
+
+  const ImageSegmenterTask = workerScope.exports?.ImageSegmenter;
+  if (!ImageSegmenterTask) {
+    throw new Error('MediaPipe Image Segmenter를 찾을 수 없습니다');
+  }
+
+  const segmenter = await ImageSegmenterTask.createFromOptions(
+    { wasmLoaderPath: assets.wasmLoaderUrl, wasmBinaryPath: assets.wasmBinaryUrl },
+    {
+      baseOptions: { modelAssetPath: assets.modelUrl, delegate: 'CPU' },
+      runningMode: 'IMAGE',
+      outputConfidenceMasks: true,
+      outputCategoryMask: false
+    }
+  );
+  console.log('✅ MediaPipe 머리카락 분할 모델 로드 완료 (워커)');
+  return segmenter;
+};
+
+const getSegmenter = (assets: HairSegmenterAssets): Promise<ImageSegmenter> => {
+  if (!segmenterPromise) {
+    segmenterPromise = createSegmenter(assets).catch((error) => {
+      // 실패하면 다음 요청에서 다시 시도
+      segmenterPromise = null;
+      throw error;
+    });
+  }
+  return segmenterPromise;
+};
+
+const scaleToFit = (width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+// 확률 마스크 → 흰색 PNG (알파 = 확률)
+const encodeHairMask = async (confidence: Float32Array, width: number, height: number) => {
+  const source = new OffscreenCanvas(width, height);
+  const sourceCtx = source.getContext('2d');
+  if (!sourceCtx) throw new Error('캔버스를 사용할 수 없습니다');
+
+  const pixels = sourceCtx.createImageData(width, height);
+  for (let i = 0; i < confidence.length; i++) {
+    pixels.data[i * 4] = 255;
+    pixels.data[i * 4 + 1] = 255;
+    pixels.data[i * 4 + 2] = 255;
+    pixels.data[i * 4 + 3] = Math.round(confidence[i] * 255);
+  }
+  sourceCtx.putImageData(pixels, 0, 0);
+
+  const size = scaleToFit(width, height, MAX_MASK_SIZE);
+  const output = new OffscreenCanvas(size.width, size.height);
+  output.getContext('2d')?.drawImage(source, 0, 0, size.width, size.height);
+
+  return { ...size, png: await output.convertToBlob({ type: 'image/png' }) };
+};
+
+// 확실한 머리카락 픽셀의 채널별 중앙값 (하이라이트/그림자 영향 줄이기)
+const estimateHairColor = (confidence: Float32Array, pixels: Uint8ClampedArray): HairSegmentation['color'] => {
+  const reds: number[] = [];
+  const greens: number[] = [];
+  const blues: number[] = [];
+
+  for (let i = 0; i < confidence.length; i++) {
+    if (confidence[i] < HAIR_COLOR_THRESHOLD) continue;
+    reds.push(pixels[i * 4]);
+    greens.push(pixels[i * 4 + 1]);
+    blues.push(pixels[i * 4 + 2]);
+  }
+  if (reds.length < MIN_HAIR_COLOR_PIXELS) return null;
+
+  const rgb: Rgb = [median(reds), median(greens), median(blues)].map(Math.round) as Rgb;
+  return { r: rgb[0], g: rgb[1], b: rgb[2], hex: toHex(rgb).toUpperCase() };
+};
+
+// 가장 아래쪽 머리카락 줄 (0-1, 없으면 null)
+const findHairBottom = (confidence: Float32Array, width: number, height: number): number | null => {
+  for (let y = height - 1; y >= 0; y--) {
+    let count = 0;
+    for (let x = 0; x < width; x++) {
+      if (confidence[y * width + x] >= HAIR_THRESHOLD && ++count >= MIN_HAIR_ROW_PIXELS) {
+        return (y + 1) / height;
+      }
+    }
+  }
+  return null;
+};
+
+const classifyHairLength = (hairBottom: number | null, landmarks?: FaceLandmark[]): HairLengthClass | null => {
+  const chin = landmarks?.[CHIN];
+  const forehead = landmarks?.[FOREHEAD];
+  if (!chin || !forehead || hairBottom === null) return null;
+
+  const faceLength = chin.y - forehead.y;
+  if (faceLength <= 0) return null;
+
+  const belowChin = (hairBottom - chin.y) / faceLength;
+  const match = HAIR_LENGTH_THRESHOLDS.find(([, threshold]) => belowChin < threshold);
+  return match ? match[0] : 'long';
+};
+
+/**
+ * 머리카락 분할 - 마스크, 현재 머리 길이 / 색상 / 비율
+ * @param landmarks 주 얼굴 랜드마크 (머리 길이 판정용, 없으면 길이는 null)
+ * @returns 모델을 불러오지 못하면 null
+ */
+const segmentHair = async (
+  image: ImageBitmap,
+  assets: HairSegmenterAssets,
+  landmarks?: FaceLandmark[]
+): Promise<HairSegmentationWorkerResult | null> => {
+  let segmenter: ImageSegmenter;
+  try {
+    segmenter = await getSegmenter(assets);
+  } catch (error) {
+    console.warn('⚠️ 머리카락 분할 모델을 불러오지 못했습니다:', assets.modelUrl, error);
+    return null;
+  }
+
+  const { width, height } = scaleToFit(image.width, image.height, MAX_SEGMENT_SIZE);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height);
+
+  const result = segmenter.segment(pixels);
+  try {
+    const labels = segmenter.getLabels().map(label => label.toLowerCase());
+    const hairIndex = labels.includes('hair') ? labels.indexOf('hair') : 1;
+    const mask = result.confidenceMasks?.[hairIndex];
+    if (!mask) return null;
+
+    // 마스크 크기는 입력과 같음
+    const confidence = mask.getAsFloat32Array();
+
+    let hairPixels = 0;
+    for (let i = 0; i < confidence.length; i++) {
+      if (confidence[i] >= HAIR_THRESHOLD) hairPixels++;
+    }
+
+    const segmentation: HairSegmentationWorkerResult = {
+      mask: await encodeHairMask(confidence, mask.width, mask.height),
+      lengthClass: classifyHairLength(findHairBottom(confidence, mask.width, mask.height), landmarks),
+      color: estimateHairColor(confidence, pixels.data),
+      coverage: hairPixels / confidence.length
+    };
+
+    console.log('💇 머리카락 분할 완료 (워커):', {
+      길이: segmentation.lengthClass,
+      색상: segmentation.color?.hex,
+      비율: segmentation.coverage.toFixed(3)
+    });
+    return segmentation;
+  } finally {
+    result.close();
+  }
+};
+
+// ============================================================================
+// 요청 처리 (Face Mesh 결과 콜백이 하나라서 요청을 순서대로 처리)
+// ============================================================================
+
+// 얼굴을 찾지 못했을 때의 분석 결과
+const EMPTY_RESULT = {
+  faceShape: null,
+  faceShapeScores: null,
+  faceMeasurements: null,
+  shapeConfidence: 0,
+  skinTone: null,
+  personalColor: null,
+  metrics: null,
+  hair: null
+};
+
+const analyze = async ({ mode, image: source, scriptUrl, assetUrls, segmenter }: FaceAnalysisWorkerRequest): Promise<FaceAnalysisWorkerResult> => {
+  const image = source instanceof ImageBitmap ? source : await createImageBitmap(source);
+
+  try {
+    if (mode === 'segment') {
+      const hair = segmenter ? await segmentHair(image, segmenter) : null;
+      return { detectorAvailable: false, faces: [], ...EMPTY_RESULT, hair };
+    }
+
+    let faceMesh: FaceMesh;
+    try {
+      faceMesh = await getFaceMesh(scriptUrl, assetUrls);
+    } catch (error) {
+      console.error('❌ MediaPipe Face Mesh 로드 실패:', error);
+      return { detectorAvailable: false, faces: [], ...EMPTY_RESULT };
+    }
+
+    // 가장 크게 찍힌 얼굴을 주 얼굴로 사용
+    const faces = (await detectFaces(faceMesh, image, mode)).sort((a, b) => getFaceArea(b) - getFaceArea(a));
+    if (faces.length === 0) {
+      return { detectorAvailable: true, faces: [], ...EMPTY_RESULT };
+    }
+
+    if (mode === 'track') {
+      return {
+        detectorAvailable: true,
+        faces: faces.map(packLandmarks),
+        ...EMPTY_RESULT,
+        metrics: measurePhotoQuality(image, faces)
+      };
+    }
+
+    const [primary] = faces;
+    const skinTone = extractSkinTone(image, primary);
+
+    // 머리카락 분할은 실패해도 얼굴 분석 결과는 사용
+    const hair = segmenter
+      ? await segmentHair(image, segmenter, primary).catch((error) => {
+          console.error('❌ 머리카락 분할 오류:', error);
+          return null;
+        })
+      : null;
+
+    return {
+      detectorAvailable: true,
+      faces: faces.map(packLandmarks),
+      ...analyzeFaceShape(primary, image.width, image.height),
+      skinTone,
+      personalColor: analyzePersonalColor(skinTone),
+      metrics: measurePhotoQuality(image, faces),
+      hair
+    };
+  } finally {
+    image.close();
+  }
+};
+
+let requestQueue: Promise<unknown> = Promise.resolve();
+
+workerScope.onmessage = (event) => {
+  const request = event.data;
+
+  requestQueue = requestQueue.then(async () => {
+    try {
+      const result = await analyze(request);
+      workerScope.postMessage(
+        { id: request.id, ok: true, result },
+        result.faces.map(face => face.buffer)
+      );
+    } catch (error) {
+      workerScope.postMessage(
+        { id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) },
+        []
+      );
+    }
+  });
+};
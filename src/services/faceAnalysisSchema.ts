@@ -0,0 +1,162 @@
+// 얼굴 분석 결과 검증 / 버전 마이그레이션 - 저장된 분석(체험 기록, 고객 프로필)을 현재 알고리즘 기준으로 변환
+import {
+  ClientProfile,
+  FACE_SHAPES,
+  FaceAnalysis,
+  FaceLandmark,
+  FaceMeasurements,
+  FaceShapeScores,
+  FaceShapeType,
+  HairLengthClass,
+  HairSegmentation,
+  normalizePersonalColor,
+  PersonalColorType,
+  SkinTone
+} from '../types';
+
+/**
+ * 현재 얼굴 분석 알고리즘 버전 - 판정 로직이 바뀌면 올리고 MIGRATIONS에 변환 추가
+ * 1: 버전 필드 도입 이전 (RGB 기반 퍼스널 컬러, 비교 규칙 기반 얼굴형)
+ * 2: 12톤 퍼스널 컬러, 측정값 기반 얼굴형 확률
+ */
+export const FACE_ANALYSIS_VERSION = 2;
+
+type AnalysisRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is AnalysisRecord => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const toFaceShape = (value: unknown): FaceShapeType | null => {
+  if (value === '알 수 없음') return value;
+  return FACE_SHAPES.includes(value as FaceShapeType) ? value as FaceShapeType : null;
+};
+
+const toPersonalColor = (value: unknown): PersonalColorType => {
+  return typeof value === 'string' ? normalizePersonalColor(value) : null;
+};
+
+const toLandmarks = (value: unknown): FaceLandmark[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const valid = value.every(point => isRecord(point) && isFiniteNumber(point.x) && isFiniteNumber(point.y) && isFiniteNumber(point.z));
+  return valid ? value as FaceLandmark[] : undefined;
+};
+
+const toSkinTone = (value: unknown): SkinTone | undefined => {
+  if (!isRecord(value) || !isFiniteNumber(value.r) || !isFiniteNumber(value.g) || !isFiniteNumber(value.b)) {
+    return undefined;
+  }
+  const { r, g, b } = value;
+  const hex = typeof value.hex === 'string'
+    ? value.hex
+    : '#' + [r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('').toUpperCase();
+  return { ...(value as Partial<SkinTone>), r, g, b, hex };
+};
+
+const HAIR_LENGTH_CLASSES: HairLengthClass[] = ['buzz', 'short', 'bob', 'medium', 'long'];
+
+// 저장된 값에는 마스크를 두지 않음 (예전 기록에 남은 마스크도 버림)
+const toHairSegmentation = (value: unknown): HairSegmentation | undefined => {
+  if (!isRecord(value)) return undefined;
+
+  const color = isRecord(value.color) && isFiniteNumber(value.color.r) && isFiniteNumber(value.color.g)
+    && isFiniteNumber(value.color.b) && typeof value.color.hex === 'string'
+    ? value.color as HairSegmentation['color']
+    : null;
+
+  return {
+    lengthClass: HAIR_LENGTH_CLASSES.includes(value.lengthClass as HairLengthClass) ? value.lengthClass as HairLengthClass : null,
+    color,
+    coverage: isFiniteNumber(value.coverage) ? clamp01(value.coverage) : 0
+  };
+};
+
+// 모든 값이 숫자인 객체만 허용
+const toNumberRecord = <T extends object>(value: unknown): T | undefined => {
+  if (!isRecord(value)) return undefined;
+  return Object.values(value).every(isFiniteNumber) ? value as T : undefined;
+};
+
+/**
+ * 버전별 변환 (from 버전 → from + 1 버전)
+ */
+const MIGRATIONS: Record<number, (analysis: AnalysisRecord) => AnalysisRecord> = {
+  // v1 → v2: 이전 분석기 퍼스널 컬러 문자열('봄 웜톤 (뮤트)' 등)을 12톤으로, 규칙 기반 신뢰도는 확률 차이가 아니므로 제거
+  1: (analysis) => ({
+    ...analysis,
+    personalColor: toPersonalColor(analysis.personalColor),
+    confidence: 0,
+    faceShapeScores: undefined,
+    faceMeasurements: undefined
+  })
+};
+
+/**
+ * 저장된 값을 현재 버전의 FaceAnalysis로 변환 (형식이 맞지 않으면 null)
+ */
+export const parseFaceAnalysis = (value: unknown): FaceAnalysis | null => {
+  if (!isRecord(value) || typeof value.detected !== 'boolean') {
+    return null;
+  }
+
+  let version = isFiniteNumber(value.analysisVersion) ? value.analysisVersion : 1;
+  if (version > FACE_ANALYSIS_VERSION) {
+    console.warn('⚠️ 알 수 없는 얼굴 분석 버전:', version);
+    return null;
+  }
+
+  let analysis = value;
+  while (version < FACE_ANALYSIS_VERSION) {
+    analysis = MIGRATIONS[version](analysis);
+    version++;
+  }
+
+  return {
+    analysisVersion: FACE_ANALYSIS_VERSION,
+    detected: analysis.detected as boolean,
+    faceShape: toFaceShape(analysis.faceShape),
+    personalColor: toPersonalColor(analysis.personalColor),
+    confidence: isFiniteNumber(analysis.confidence) ? clamp01(analysis.confidence) : 0,
+    faceShapeScores: toNumberRecord<FaceShapeScores>(analysis.faceShapeScores),
+    faceMeasurements: toNumberRecord<FaceMeasurements>(analysis.faceMeasurements),
+    landmarks: toLandmarks(analysis.landmarks),
+    skinTone: toSkinTone(analysis.skinTone),
+    message: typeof analysis.message === 'string' ? analysis.message : undefined,
+    analyzedAt: typeof analysis.analyzedAt === 'string' ? analysis.analyzedAt : undefined,
+    // 품질 검사는 업로드 시점에만 의미가 있어 저장된 값은 그대로 둠
+    quality: isRecord(analysis.quality) ? analysis.quality as unknown as FaceAnalysis['quality'] : undefined,
+    hair: toHairSegmentation(analysis.hair)
+  };
+};
+
+/**
+ * 저장할 얼굴 분석 - 머리카락 마스크(이미지)는 문서 크기를 키우므로 빼고 저장
+ */
+export const toStoredFaceAnalysis = (analysis: FaceAnalysis): FaceAnalysis => {
+  if (!analysis.hair?.mask) return analysis;
+  const { mask, ...hair } = analysis.hair;
+  return { ...analysis, hair };
+};
+
+/**
+ * 고객 프로필에 저장된 얼굴형/퍼스널 컬러를 현재 버전으로 변환
+ */
+export const migrateClientPreferences = (
+  preferences: ClientProfile['preferences']
+): ClientProfile['preferences'] => {
+  if (!preferences) return preferences;
+  if (preferences.analysisVersion === FACE_ANALYSIS_VERSION) return preferences;
+
+  return {
+    ...preferences,
+    faceShape: toFaceShape(preferences.faceShape) || undefined,
+    personalColor: toPersonalColor(preferences.personalColor) || undefined,
+    analysisVersion: FACE_ANALYSIS_VERSION
+  };
+};
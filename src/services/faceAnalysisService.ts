@@ -1,360 +1,71 @@
-// MediaPipe Face Mesh (CDN 방식) 기반 얼굴 분석 서비스
-
-export interface FaceAnalysis {
-  detected: boolean;
-  faceShape: string | null;
-  personalColor: string | null;
-  confidence: number;
-  landmarks?: FaceLandmark[];
-  skinTone?: {
-    r: number;
-    g: number;
-    b: number;
-    hex: string;
-  };
-  message?: string;
-  analyzedAt?: string;
-}
-
-export interface FaceLandmark {
-  x: number;
-  y: number;
-  z: number;
-}
-
-// MediaPipe Face Mesh CDN 타입 정의
-declare global {
-  interface Window {
-    FaceMesh: any;
-  }
-}
-
-// MediaPipe 로드 상태
-let isMediaPipeLoaded = false;
-let mediaPipeLoadPromise: Promise<void> | null = null;
-
-/**
- * MediaPipe Face Mesh CDN 스크립트 로드
- */
-const loadMediaPipe = (): Promise<void> => {
-  if (isMediaPipeLoaded) {
-    return Promise.resolve();
-  }
-
-  if (mediaPipeLoadPromise) {
-    return mediaPipeLoadPromise;
-  }
-
-  mediaPipeLoadPromise = new Promise((resolve, reject) => {
-    // 이미 로드되어 있는지 확인
-    if (window.FaceMesh) {
-      isMediaPipeLoaded = true;
-      resolve();
-      return;
-    }
-
-    // MediaPipe Face Mesh 스크립트 로드
-    const script = document.createElement('script');
-    script.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/face_mesh.js';
-    script.async = true;
-    
-    script.onload = () => {
-      console.log('✅ MediaPipe Face Mesh 로드 완료');
-      isMediaPipeLoaded = true;
-      resolve();
-    };
-    
-    script.onerror = () => {
-      console.error('❌ MediaPipe Face Mesh 로드 실패');
-      reject(new Error('MediaPipe 로드 실패'));
-    };
-    
-    document.head.appendChild(script);
-  });
-
-  return mediaPipeLoadPromise;
-};
+// MediaPipe Face Mesh (로컬 번들) 기반 얼굴 분석 서비스 - 감지와 픽셀 처리는 워커에서 실행 (faceAnalysis.worker.ts)
+import { FaceAnalysis, PhotoQualityReport } from '../types';
+import { FACE_ANALYSIS_VERSION } from './faceAnalysisSchema';
+import { assessPhotoQuality } from './photoQualityService';
+import { analyzeFaceInWorker } from './faceMeshService';
+import { toHairSegmentation } from './hairSegmentationService';
 
 /**
- * MediaPipe로 실제 얼굴 랜드마크 감지
- */
-const detectFaceFromImage = async (imageFile: File): Promise<FaceLandmark[] | null> => {
-  try {
-    // MediaPipe 로드 대기
-    await loadMediaPipe();
-
-    if (!window.FaceMesh) {
-      console.error('MediaPipe가 로드되지 않았습니다');
-      return null;
-    }
-
-    return new Promise((resolve) => {
-      const img = new Image();
-      const url = URL.createObjectURL(imageFile);
-      
-      img.onload = async () => {
-        try {
-          // FaceMesh 인스턴스 생성
-          const faceMesh = new window.FaceMesh({
-            locateFile: (file: string) => {
-              return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`;
-            }
-          });
-
-          faceMesh.setOptions({
-            maxNumFaces: 1,
-            refineLandmarks: true,
-            minDetectionConfidence: 0.5,
-            minTrackingConfidence: 0.5
-          });
-
-          // 결과 처리
-          faceMesh.onResults((results: any) => {
-            URL.revokeObjectURL(url);
-            
-            if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
-              const landmarks = results.multiFaceLandmarks[0].map((lm: any) => ({
-                x: lm.x,
-                y: lm.y,
-                z: lm.z || 0
-              }));
-              
-              console.log('✅ MediaPipe 랜드마크 감지:', landmarks.length + '개');
-              resolve(landmarks);
-            } else {
-              console.warn('⚠️ 얼굴을 감지하지 못했습니다');
-              resolve(null);
-            }
-          });
-
-          // 이미지 전송
-          await faceMesh.send({ image: img });
-        } catch (error) {
-          console.error('MediaPipe 처리 오류:', error);
-          URL.revokeObjectURL(url);
-          resolve(null);
-        }
-      };
-      
-      img.onerror = () => {
-        URL.revokeObjectURL(url);
-        resolve(null);
-      };
-      
-      img.src = url;
-    });
-  } catch (error) {
-    console.error('얼굴 감지 실패:', error);
-    return null;
-  }
-};
-
-/**
- * 얼굴형 분석 (실제 MediaPipe 랜드마크 사용)
- */
-const analyzeFaceShape = (landmarks: FaceLandmark[]): string => {
-  if (!landmarks || landmarks.length < 468) {
-    return '알 수 없음';
-  }
-
-  try {
-    // MediaPipe Face Mesh 주요 랜드마크 인덱스
-    const foreheadTop = landmarks[10];
-    const chinBottom = landmarks[152];
-    const leftCheek = landmarks[234];
-    const rightCheek = landmarks[454];
-    const leftJaw = landmarks[172];
-    const rightJaw = landmarks[397];
-    
-    const faceWidth = Math.abs(rightCheek.x - leftCheek.x);
-    const faceHeight = Math.abs(chinBottom.y - foreheadTop.y);
-    const jawWidth = Math.abs(rightJaw.x - leftJaw.x);
-    
-    const heightWidthRatio = faceHeight / faceWidth;
-    const jawWidthRatio = jawWidth / faceWidth;
-    
-    console.log('📊 얼굴 측정:', {
-      높이너비비율: heightWidthRatio.toFixed(2),
-      턱너비비율: jawWidthRatio.toFixed(2)
-    });
-    
-    if (heightWidthRatio > 1.35) {
-      return jawWidthRatio < 0.7 ? '계란형' : '긴 얼굴형';
-    } else if (heightWidthRatio < 1.1) {
-      return jawWidthRatio > 0.85 ? '둥근형' : '각진형';
-    } else if (jawWidthRatio < 0.68) {
-      return '하트형';
-    } else if (jawWidthRatio > 0.88) {
-      return '다이아몬드형';
-    } else {
-      return '타원형';
-    }
-  } catch (error) {
-    console.error('얼굴형 분석 오류:', error);
-    return '타원형';
-  }
-};
-
-/**
- * 실제 랜드마크 기반 피부톤 추출
- */
-const extractSkinTone = async (
-  imageFile: File,
-  landmarks: FaceLandmark[]
-): Promise<{ r: number; g: number; b: number; hex: string }> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    const url = URL.createObjectURL(imageFile);
-    
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d', { willReadFrequently: true });
-      
-      if (!ctx) {
-        URL.revokeObjectURL(url);
-        resolve({ r: 200, g: 150, b: 120, hex: '#C89678' });
-        return;
-      }
-      
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx.drawImage(img, 0, 0);
-      
-      // MediaPipe 랜드마크 기반 샘플링
-      const sampleIndices = [
-        10,   // 이마
-        234,  // 왼쪽 볼
-        454,  // 오른쪽 볼
-        1,    // 코 브릿지
-        4,    // 코 끝
-      ];
-      
-      let totalR = 0, totalG = 0, totalB = 0;
-      let validSamples = 0;
-      
-      sampleIndices.forEach(index => {
-        if (landmarks[index]) {
-          const x = Math.floor(landmarks[index].x * canvas.width);
-          const y = Math.floor(landmarks[index].y * canvas.height);
-          
-          if (x >= 0 && x < canvas.width && y >= 0 && y < canvas.height) {
-            const pixel = ctx.getImageData(x, y, 1, 1).data;
-            totalR += pixel[0];
-            totalG += pixel[1];
-            totalB += pixel[2];
-            validSamples++;
-          }
-        }
-      });
-      
-      if (validSamples === 0) {
-        URL.revokeObjectURL(url);
-        resolve({ r: 200, g: 150, b: 120, hex: '#C89678' });
-        return;
-      }
-      
-      const avgR = Math.round(totalR / validSamples);
-      const avgG = Math.round(totalG / validSamples);
-      const avgB = Math.round(totalB / validSamples);
-      const hex = `#${avgR.toString(16).padStart(2, '0')}${avgG.toString(16).padStart(2, '0')}${avgB.toString(16).padStart(2, '0')}`;
-      
-      console.log('✅ 랜드마크 기반 피부톤 추출:', { r: avgR, g: avgG, b: avgB, hex });
-      
-      URL.revokeObjectURL(url);
-      resolve({ r: avgR, g: avgG, b: avgB, hex });
-    };
-    
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      resolve({ r: 200, g: 150, b: 120, hex: '#C89678' });
-    };
-    
-    img.src = url;
-  });
-};
-
-/**
- * 퍼스널 컬러 분석
- */
-const analyzePersonalColor = (skinTone: { r: number; g: number; b: number }): string => {
-  const { r, g, b } = skinTone;
-  
-  const warmth = (r - b) / 255;
-  const brightness = (r + g + b) / 3 / 255;
-  
-  // 채도 계산
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  const saturation = max === 0 ? 0 : (max - min) / max;
-  
-  console.log('🎨 피부 분석:', {
-    warmth: warmth.toFixed(2),
-    brightness: brightness.toFixed(2),
-    saturation: saturation.toFixed(2)
-  });
-  
-  if (warmth > 0.08) {
-    if (brightness > 0.6) {
-      return saturation > 0.3 ? '봄 웜톤' : '봄 웜톤 (뮤트)';
-    } else {
-      return saturation > 0.3 ? '가을 웜톤' : '가을 웜톤 (딥)';
-    }
-  } else {
-    if (brightness > 0.6) {
-      return saturation > 0.25 ? '여름 쿨톤 (라이트)' : '여름 쿨톤';
-    } else {
-      return saturation > 0.25 ? '겨울 쿨톤 (브라이트)' : '겨울 쿨톤';
-    }
-  }
-};
-
-/**
- * 메인 얼굴 분석 함수 (실제 MediaPipe CDN 사용)
+ * 메인 얼굴 분석 함수 (실제 MediaPipe 사용)
  */
 export const analyzeFace = async (imageFile: File): Promise<FaceAnalysis> => {
   try {
     console.log('🎭 MediaPipe 얼굴 분석 시작...');
     
-    // 1. MediaPipe로 실제 얼굴 랜드마크 감지
-    const landmarks = await detectFaceFromImage(imageFile);
+    // 1. 워커에서 얼굴 감지 + 얼굴형 / 피부톤 / 퍼스널 컬러 / 사진 품질 측정 / 머리카락 분할
+    const analysis = await analyzeFaceInWorker(imageFile);
+    const [landmarks] = analysis.faces;
     
     if (!landmarks) {
       return {
+        analysisVersion: FACE_ANALYSIS_VERSION,
         detected: false,
         faceShape: null,
         personalColor: null,
         confidence: 0,
-        message: '얼굴을 감지하지 못했습니다. 정면 얼굴 사진을 업로드해주세요.'
+        message: '얼굴을 감지하지 못했습니다. 정면 얼굴 사진을 업로드해주세요.',
+        // 감지기를 불러오지 못한 경우에는 품질 검사를 건너뜀
+        quality: analysis.detectorAvailable ? assessPhotoQuality(null) : undefined
       };
     }
     
-    console.log('✅ 468개 랜드마크 감지 완료');
-    
-    // 2. 얼굴형 분석
-    const faceShape = analyzeFaceShape(landmarks);
-    console.log('✅ 얼굴형 분석 완료:', faceShape);
+    console.log('✅ MediaPipe 랜드마크 감지:', analysis.faces.length + '명,', landmarks.length + '개');
+    console.log('✅ 얼굴형 분석 완료:', analysis.faceShape);
+    console.log('✅ 피부톤 추출 완료:', analysis.skinTone?.hex);
+    console.log('✅ 퍼스널 컬러 분석 완료:', analysis.personalColor);
     
-    // 3. 랜드마크 기반 피부톤 추출
-    const skinTone = await extractSkinTone(imageFile, landmarks);
-    console.log('✅ 피부톤 추출 완료:', skinTone.hex);
+    // 2. 가상체험 전 사진 품질 검사
+    const quality: PhotoQualityReport | undefined = analysis.metrics
+      ? assessPhotoQuality(analysis.metrics)
+      : undefined;
     
-    // 4. 퍼스널 컬러 분석
-    const personalColor = analyzePersonalColor(skinTone);
-    console.log('✅ 퍼스널 컬러 분석 완료:', personalColor);
+    // 3. 머리카락 마스크 변환 (실패해도 얼굴 분석 결과는 사용)
+    const hair = analysis.hair
+      ? await toHairSegmentation(analysis.hair).catch((error) => {
+          console.error('❌ 머리카락 마스크 변환 오류:', error);
+          return null;
+        })
+      : null;
     
     return {
+      analysisVersion: FACE_ANALYSIS_VERSION,
       detected: true,
-      faceShape,
-      personalColor,
-      confidence: 0.90 + Math.random() * 0.08,
+      faceShape: analysis.faceShape,
+      personalColor: analysis.personalColor,
+      confidence: analysis.shapeConfidence,
+      faceShapeScores: analysis.faceShapeScores || undefined,
+      faceMeasurements: analysis.faceMeasurements || undefined,
       landmarks,
-      skinTone,
+      skinTone: analysis.skinTone || undefined,
       message: '분석 완료',
-      analyzedAt: new Date().toISOString()
+      analyzedAt: new Date().toISOString(),
+      quality,
+      hair: hair || undefined
     };
   } catch (error) {
     console.error('❌ 얼굴 분석 오류:', error);
     return {
+      analysisVersion: FACE_ANALYSIS_VERSION,
       detected: false,
       faceShape: null,
       personalColor: null,
@@ -0,0 +1,160 @@
+// MediaPipe Face Mesh 워커 호스트 - npm 패키지에 포함된 스크립트/wasm/모델을 빌드에 묶어 CDN 없이 워커에서 실행
+import faceMeshScriptUrl from '@mediapipe/face_mesh/face_mesh.js?url';
+import graphUrl from '@mediapipe/face_mesh/face_mesh.binarypb?url';
+import packedAssetsLoaderUrl from '@mediapipe/face_mesh/face_mesh_solution_packed_assets_loader.js?url';
+import packedAssetsDataUrl from '@mediapipe/face_mesh/face_mesh_solution_packed_assets.data?url';
+import simdWasmLoaderUrl from '@mediapipe/face_mesh/face_mesh_solution_simd_wasm_bin.js?url';
+import simdWasmUrl from '@mediapipe/face_mesh/face_mesh_solution_simd_wasm_bin.wasm?url';
+import wasmLoaderUrl from '@mediapipe/face_mesh/face_mesh_solution_wasm_bin.js?url';
+import wasmUrl from '@mediapipe/face_mesh/face_mesh_solution_wasm_bin.wasm?url';
+// MediaPipe Tasks (머리카락 분할) - 클래식 워커에서 불러올 수 있는 CommonJS 번들과 wasm
+import visionBundleUrl from '@mediapipe-tasks-vision-dist/vision_bundle.cjs?url';
+import visionWasmLoaderUrl from '@mediapipe-tasks-vision-dist/wasm/vision_wasm_internal.js?url';
+import visionWasmBinaryUrl from '@mediapipe-tasks-vision-dist/wasm/vision_wasm_internal.wasm?url';
+import { FaceLandmark } from '../types';
+import { HAIR_SEGMENTER_MODEL_URL } from './apiConfig';
+import type {
+  FaceAnalysisWorkerMode,
+  FaceAnalysisWorkerRequest,
+  FaceAnalysisWorkerResponse,
+  FaceAnalysisWorkerResult,
+  HairSegmenterAssets
+} from './faceAnalysis.worker';
+
+// 워커 위치와 상관없이 불러올 수 있도록 절대 주소로 변환
+const toAbsoluteUrl = (url: string): string => new URL(url, window.location.href).href;
+
+// Face Mesh가 요청하는 파일 이름 → 빌드된 자산 주소
+const getAssetUrls = (): Record<string, string> => ({
+  'face_mesh.binarypb': toAbsoluteUrl(graphUrl),
+  'face_mesh_solution_packed_assets_loader.js': toAbsoluteUrl(packedAssetsLoaderUrl),
+  'face_mesh_solution_packed_assets.data': toAbsoluteUrl(packedAssetsDataUrl),
+  'face_mesh_solution_simd_wasm_bin.js': toAbsoluteUrl(simdWasmLoaderUrl),
+  'face_mesh_solution_simd_wasm_bin.wasm': toAbsoluteUrl(simdWasmUrl),
+  'face_mesh_solution_wasm_bin.js': toAbsoluteUrl(wasmLoaderUrl),
+  'face_mesh_solution_wasm_bin.wasm': toAbsoluteUrl(wasmUrl)
+});
+
+const getHairSegmenterAssets = (): HairSegmenterAssets => ({
+  scriptUrl: toAbsoluteUrl(visionBundleUrl),
+  wasmLoaderUrl: toAbsoluteUrl(visionWasmLoaderUrl),
+  wasmBinaryUrl: toAbsoluteUrl(visionWasmBinaryUrl),
+  modelUrl: toAbsoluteUrl(HAIR_SEGMENTER_MODEL_URL)
+});
+
+export interface FaceMeshAnalysis extends Omit<FaceAnalysisWorkerResult, 'faces'> {
+  faces: FaceLandmark[][];  // 큰 얼굴부터
+}
+
+type PendingRequest = {
+  resolve: (result: FaceMeshAnalysis) => void;
+  reject: (error: Error) => void;
+};
+
+// 앱 전체에서 하나의 워커만 사용 (모델 초기화는 수 초가 걸림)
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+const unpackLandmarks = (packed: Float32Array): FaceLandmark[] => {
+  const landmarks: FaceLandmark[] = [];
+  for (let i = 0; i < packed.length; i += 3) {
+    landmarks.push({ x: packed[i], y: packed[i + 1], z: packed[i + 2] });
+  }
+  return landmarks;
+};
+
+const rejectAll = (error: Error) => {
+  pendingRequests.forEach(({ reject }) => reject(error));
+  pendingRequests.clear();
+};
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  // MediaPipe가 importScripts를 사용하므로 클래식 워커로 실행
+  const instance = new Worker(new URL('./faceAnalysis.worker.ts', import.meta.url));
+
+  instance.onmessage = (event: MessageEvent<FaceAnalysisWorkerResponse>) => {
+    const response = event.data;
+    const pending = pendingRequests.get(response.id);
+    if (!pending) return;
+    pendingRequests.delete(response.id);
+
+    if (response.ok) {
+      pending.resolve({
+        ...response.result,
+        faces: response.result.faces.map(unpackLandmarks)
+      });
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  };
+
+  instance.onerror = (event) => {
+    console.error('❌ 얼굴 분석 워커 오류:', event.message);
+    // 워커가 멈췄으면 다음 요청에서 새로 만듦
+    instance.terminate();
+    if (worker === instance) worker = null;
+    rejectAll(new Error('얼굴 분석 워커 오류: ' + event.message));
+  };
+
+  worker = instance;
+  return instance;
+};
+
+/**
+ * 이 브라우저에서 워커 기반 얼굴 분석을 사용할 수 있는지
+ */
+export const isFaceMeshSupported = (): boolean => {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+};
+
+const requestAnalysis = (
+  image: Blob | ImageBitmap,
+  mode: FaceAnalysisWorkerMode,
+  transfer: Transferable[] = []
+): Promise<FaceMeshAnalysis> => {
+  if (!isFaceMeshSupported()) {
+    return Promise.reject(new Error('이 브라우저에서는 얼굴 분석을 지원하지 않습니다.'));
+  }
+
+  const id = nextRequestId++;
+  const request: FaceAnalysisWorkerRequest = {
+    id,
+    mode,
+    image,
+    scriptUrl: toAbsoluteUrl(faceMeshScriptUrl),
+    assetUrls: getAssetUrls(),
+    // 카메라 프레임 추적에는 머리카락 분할을 하지 않음
+    segmenter: mode === 'track' ? undefined : getHairSegmenterAssets()
+  };
+
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    getWorker().postMessage(request, transfer);
+  });
+};
+
+/**
+ * 워커에서 얼굴 감지 + 피부톤/얼굴형/사진 품질 측정 + 머리카락 분할
+ */
+export const analyzeFaceInWorker = (imageFile: File): Promise<FaceMeshAnalysis> => {
+  // File은 복사 없이 참조로 전달됨 (픽셀 디코딩은 워커에서)
+  return requestAnalysis(imageFile, 'analyze');
+};
+
+/**
+ * 카메라 프레임에서 얼굴 위치와 사진 품질만 측정 (실시간 촬영 가이드용)
+ * 프레임은 워커로 넘어가므로 호출 후에는 사용할 수 없음
+ */
+export const trackFaceInWorker = (frame: ImageBitmap): Promise<FaceMeshAnalysis> => {
+  return requestAnalysis(frame, 'track', [frame]);
+};
+
+/**
+ * 워커에서 머리카락 분할만 실행 (얼굴 감지 없음 - 머리 길이는 판정하지 않음)
+ */
+export const segmentHairInWorker = (image: Blob): Promise<FaceMeshAnalysis> => {
+  return requestAnalysis(image, 'segment');
+};
@@ -1,24 +1,12 @@
-// src/services/firebaseService.ts - 완전한 최종 버전
-import { initializeApp } from "firebase/app";
-import { 
-  getFirestore, 
-  doc, 
-  getDoc, 
-  setDoc, 
-  updateDoc, 
-  increment,
-  collection,
-  getDocs,
-  deleteDoc,
-  query,
-  where,
-  orderBy,
-  limit as firestoreLimit
-} from "firebase/firestore";
-import { 
-  Hairstyle, 
-  DesignerData, 
-  DesignerStats, 
+// src/services/firebaseService.ts - 앱 데이터 API (실제 저장은 repository.ts에서 고른 저장소: Firestore / localStorage / 메모리)
+import {
+  AnalyticsDailyRollup,
+  AnalyticsEvent,
+  ColorTryOnResultKind,
+  Hairstyle,
+  DesignerData,
+  DesignerDocument,
+  DesignerStats,
   DesignerProfile,
   DesignerSettings,
   TrialResult,
@@ -28,92 +16,142 @@ import {
   UserType,
   ClientProfile,
   Favorite,
-  SearchHistory,
-  TryOnHistory
+  TryOnHistory,
+  TryOnCacheEntry,
+  TryOnLedgerEntry,
+  TryOnLedgerOutcome
 } from '../types';
 import { portfolioImages, sampleDesigner } from '../portfolioImages';
+import { migrateClientPreferences, parseFaceAnalysis, toStoredFaceAnalysis } from './faceAnalysisSchema';
+import { getRepositories } from './repository';
 
-// Firebase 설정 디버깅
-console.log('🔧 Firebase Config Debug:', {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY ? 'SET ✅' : 'NOT SET ❌',
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN || 'NOT SET ❌',
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || 'NOT SET ❌',
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET || 'NOT SET ❌',
-  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID ? 'SET ✅' : 'NOT SET ❌',
-  appId: import.meta.env.VITE_FIREBASE_APP_ID ? 'SET ✅' : 'NOT SET ❌',
-  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID ? 'SET ✅' : 'NOT SET ❌'
-});
+const designerRepository = () => getRepositories().designers;
+const clientRepository = () => getRepositories().clients;
+const analyticsRepository = () => getRepositories().analytics;
 
-const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: import.meta.env.VITE_FIREBASE_APP_ID,
-  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID
-};
+const SAMPLE_DESIGNER_ID = 'Sample Designer';
 
-// Firebase 초기화
-let app: any;
-let db: any;
-
-try {
-  console.log('🚀 Initializing Firebase...');
-  app = initializeApp(firebaseConfig);
-  db = getFirestore(app);
-  console.log('✅ Firebase initialized successfully');
-} catch (error) {
-  console.error('❌ Firebase initialization failed:', error);
-  console.error('Error details:', {
-    message: error instanceof Error ? error.message : 'Unknown error',
-    code: (error as any)?.code || 'No code',
-    stack: error instanceof Error ? error.stack : 'No stack'
-  });
-  app = null;
-  db = null;
-}
-
-// 컬렉션 레퍼런스
-const COLLECTIONS = {
-  DESIGNERS: 'designers',
-  USERS: 'users',
-  CLIENTS: 'clients',
-  FAVORITES: 'favorites',
-  SEARCH_HISTORY: 'searchHistory',
-  TRYON_HISTORY: 'tryonHistory'
-} as const;
+// 디자이너 데이터와 함께 읽는 최근 체험 결과 개수
+const MAX_TRIAL_RESULTS = 20;
+
+// 공개 주소 규칙: 영문 소문자 / 숫자 / 한글을 하이픈으로 연결, 3~40자
+const SLUG_PATTERN = /^[a-z0-9가-힣]+(-[a-z0-9가-힣]+)*$/;
+const SLUG_MIN_LENGTH = 3;
+const SLUG_MAX_LENGTH = 40;
 
 // Generate unique ID for new items
 const generateId = (): string => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 };
 
-// undefined 값 제거 함수
-const removeUndefinedFields = (obj: any): any => {
-  if (obj === null || obj === undefined) return obj;
-  
-  if (Array.isArray(obj)) {
-    return obj.map(item => removeUndefinedFields(item));
-  }
-  
-  if (typeof obj === 'object') {
-    const cleaned: any = {};
-    Object.keys(obj).forEach(key => {
-      const value = obj[key];
-      if (value !== undefined) {
-        cleaned[key] = removeUndefinedFields(value);
-      }
-    });
-    return cleaned;
-  }
-  
-  return obj;
+// 저장된 얼굴 분석 값을 현재 분석 버전으로 변환
+const migrateClientProfile = (profile: ClientProfile): ClientProfile => ({
+  ...profile,
+  preferences: migrateClientPreferences(profile.preferences)
+});
+
+const migrateTryOnHistory = (history: TryOnHistory): TryOnHistory => ({
+  ...history,
+  faceAnalysis: parseFaceAnalysis(history.faceAnalysis) || undefined
+});
+
+const createEmptyDesignerDocument = (): DesignerDocument => ({
+  stats: { ...DEFAULT_STATS },
+  settings: { ...DEFAULT_SETTINGS },
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+});
+
+// 표시 순서: order 오름차순, 같으면 최근에 추가한 스타일 먼저
+const sortStyles = (styles: Hairstyle[]): Hairstyle[] => {
+  return [...styles].sort((a, b) =>
+    (a.order ?? 0) - (b.order ?? 0) || (b.createdAt || '').localeCompare(a.createdAt || '')
+  );
+};
+
+// 예약 전환율 (%) - 카운터만 저장하고 전환율은 읽을 때 계산해 항상 최신 값
+const calculateConversionRate = (stats: DesignerStats): number => {
+  const totalViews = Object.values(stats.styleViews || {}).reduce((sum, count) => sum + count, 0);
+  const totalBookings = Object.values(stats.bookings || {}).reduce((sum, count) => sum + count, 0);
+  return totalViews > 0 ? (totalBookings / totalViews) * 100 : 0;
 };
 
-// Firebase 사용 가능 체크
-const isFirebaseAvailable = (): boolean => {
-  return db !== null;
+const withConversionRate = (stats: DesignerStats = DEFAULT_STATS): DesignerStats => ({
+  ...stats,
+  conversionRate: calculateConversionRate(stats)
+});
+
+// 최근 체험 결과 - 저장소의 결과 목록과 예전 문서의 stats.trialResults를 합쳐 최신순으로 (통계를 초기화했으면 그 이후만)
+const loadTrialResults = async (designerId: string, stats?: DesignerStats, resetAt?: string): Promise<TrialResult[]> => {
+  const results = await designerRepository().listTrialResults(designerId, MAX_TRIAL_RESULTS);
+  return [...results, ...(stats?.trialResults || [])]
+    .filter(result => !resetAt || result.timestamp >= resetAt)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, MAX_TRIAL_RESULTS);
+};
+
+// 저장된 디자이너 문서 조회
+const loadDesignerDocument = (designerId: string): Promise<DesignerDocument | null> => {
+  return designerRepository().getDesigner(designerId);
+};
+
+// 디자이너 데이터 조회 (없으면 빈 데이터, 빠진 항목은 기본값, 포트폴리오는 스타일 컬렉션에서)
+// 아직 스타일 컬렉션으로 옮기지 않은 디자이너는 문서 안의 배열 사용 (옮기기는 디자이너 로그인 때 migrateEmbeddedPortfolio)
+const loadDesignerData = async (designerId: string): Promise<DesignerData> => {
+  const document = await loadDesignerDocument(designerId);
+  if (!document) return { ...createEmptyDesignerDocument(), portfolio: [] };
+
+  // 스타일 컬렉션을 우선 - 옮기기 전(컬렉션이 비어 있을 때)만 문서 안의 배열을 읽음
+  const styles = await designerRepository().listStyles(designerId);
+
+  return {
+    ...document,
+    stats: {
+      ...withConversionRate(document.stats),
+      trialResults: await loadTrialResults(designerId, document.stats, document.analyticsResetAt)
+    },
+    settings: document.settings || { ...DEFAULT_SETTINGS },
+    portfolio: styles.length > 0 ? sortStyles(styles) : (document.portfolio || [])
+  };
+};
+
+// 디자이너 문서의 주어진 항목만 저장 (통계 / 스타일은 건드리지 않음, 문서가 없으면 기본값으로 생성)
+const updateDesignerData = async (designerId: string, updates: Partial<Omit<DesignerDocument, 'portfolio'>>): Promise<void> => {
+  const currentData = await loadDesignerDocument(designerId);
+  await designerRepository().updateDesigner(designerId, {
+    ...(currentData ? {} : createEmptyDesignerDocument()),
+    ...updates,
+    updatedAt: new Date().toISOString()
+  });
+};
+
+// 새 스타일에 ID 채우기 (생성 / 수정 시각은 저장소에서 기록)
+const prepareStyle = (style: Hairstyle, uploadedBy?: string): Hairstyle & { id: string } => ({
+  ...style,
+  id: style.id || generateId(),
+  ...(uploadedBy ? { uploadedBy } : {})
+});
+
+// 스타일 ID 또는 이미지 URL로 저장된 스타일 ID 찾기
+const findStyleId = async (designerId: string, identifier: string): Promise<string | null> => {
+  const styles = await designerRepository().listStyles(designerId);
+  return styles.find(style => style.id === identifier || style.url === identifier)?.id || null;
+};
+
+// 포트폴리오 전체 교체 - 목록 순서를 order로 저장하고 목록에 없는 스타일은 삭제
+const replacePortfolio = async (designerId: string, portfolio: Hairstyle[], uploadedBy?: string): Promise<void> => {
+  await updateDesignerData(designerId, {});
+
+  const styles = portfolio.map((style, index) => ({ ...prepareStyle(style, uploadedBy), order: index }));
+  const existing = await designerRepository().listStyles(designerId);
+  for (const style of existing) {
+    if (!styles.some(next => next.id === style.id)) {
+      await designerRepository().deleteStyle(designerId, style.id!);
+    }
+  }
+  for (const style of styles) {
+    await designerRepository().saveStyle(designerId, style);
+  }
 };
 
 // ===== 사용자 관리 함수 (신규 추가) =====
@@ -122,28 +160,12 @@ const isFirebaseAvailable = (): boolean => {
  * 사용자 기본 정보 저장 (회원가입 시)
  */
 export const createUser = async (
-  userId: string, 
-  userType: UserType, 
-  email: string, 
+  userId: string,
+  userType: UserType,
+  email: string,
   displayName: string
 ): Promise<boolean> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for createUser');
-      const userData: User = {
-        userId,
-        userType,
-        email,
-        displayName,
-        emailVerified: false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-      localStorage.setItem(`hairfolio_user_${userId}`, JSON.stringify(userData));
-      return true;
-    }
-
-    const userRef = doc(db, COLLECTIONS.USERS, userId);
     const userData: User = {
       userId,
       userType,
@@ -154,7 +176,7 @@ export const createUser = async (
       updatedAt: new Date().toISOString()
     };
 
-    await setDoc(userRef, userData);
+    await clientRepository().saveUser(userData);
     console.log('✅ User created:', userId, userType);
     return true;
   } catch (error) {
@@ -168,18 +190,7 @@ export const createUser = async (
  */
 export const getUser = async (userId: string): Promise<User | null> => {
   try {
-    if (!isFirebaseAvailable()) {
-      const userData = localStorage.getItem(`hairfolio_user_${userId}`);
-      return userData ? JSON.parse(userData) : null;
-    }
-
-    const userRef = doc(db, COLLECTIONS.USERS, userId);
-    const userSnap = await getDoc(userRef);
-    
-    if (userSnap.exists()) {
-      return userSnap.data() as User;
-    }
-    return null;
+    return await clientRepository().getUser(userId);
   } catch (error) {
     console.error('❌ Error getting user:', error);
     return null;
@@ -204,18 +215,10 @@ export const getUserType = async (userId: string): Promise<UserType | null> => {
  */
 export const saveClientProfile = async (profile: ClientProfile): Promise<boolean> => {
   try {
-    if (!isFirebaseAvailable()) {
-      localStorage.setItem(`hairfolio_client_${profile.userId}`, JSON.stringify(profile));
-      return true;
-    }
-
-    const clientRef = doc(db, COLLECTIONS.CLIENTS, profile.userId);
-    const cleanedProfile = removeUndefinedFields({
+    await clientRepository().saveClientProfile({
       ...profile,
       updatedAt: new Date().toISOString()
     });
-    
-    await setDoc(clientRef, cleanedProfile);
     console.log('✅ Client profile saved:', profile.userId);
     return true;
   } catch (error) {
@@ -229,18 +232,8 @@ export const saveClientProfile = async (profile: ClientProfile): Promise<boolean
  */
 export const getClientProfile = async (userId: string): Promise<ClientProfile | null> => {
   try {
-    if (!isFirebaseAvailable()) {
-      const data = localStorage.getItem(`hairfolio_client_${userId}`);
-      return data ? JSON.parse(data) : null;
-    }
-
-    const clientRef = doc(db, COLLECTIONS.CLIENTS, userId);
-    const clientSnap = await getDoc(clientRef);
-    
-    if (clientSnap.exists()) {
-      return clientSnap.data() as ClientProfile;
-    }
-    return null;
+    const profile = await clientRepository().getClientProfile(userId);
+    return profile ? migrateClientProfile(profile) : null;
   } catch (error) {
     console.error('❌ Error getting client profile:', error);
     return null;
@@ -252,24 +245,14 @@ export const getClientProfile = async (userId: string): Promise<ClientProfile |
  */
 export const addFavorite = async (favorite: Omit<Favorite, 'id' | 'createdAt'>): Promise<boolean> => {
   try {
-    const favoriteId = generateId();
     const favoriteData: Favorite = {
       ...favorite,
-      id: favoriteId,
+      id: generateId(),
       createdAt: new Date().toISOString()
     };
 
-    if (!isFirebaseAvailable()) {
-      const favorites = JSON.parse(localStorage.getItem('hairfolio_favorites') || '{}');
-      if (!favorites[favorite.userId]) favorites[favorite.userId] = [];
-      favorites[favorite.userId].push(favoriteData);
-      localStorage.setItem('hairfolio_favorites', JSON.stringify(favorites));
-      return true;
-    }
-
-    const favoriteRef = doc(db, COLLECTIONS.FAVORITES, favoriteId);
-    await setDoc(favoriteRef, favoriteData);
-    console.log('✅ Favorite added:', favoriteId);
+    await clientRepository().addFavorite(favoriteData);
+    console.log('✅ Favorite added:', favoriteData.id);
     return true;
   } catch (error) {
     console.error('❌ Error adding favorite:', error);
@@ -282,20 +265,7 @@ export const addFavorite = async (favorite: Omit<Favorite, 'id' | 'createdAt'>):
  */
 export const getFavorites = async (userId: string): Promise<Favorite[]> => {
   try {
-    if (!isFirebaseAvailable()) {
-      const favorites = JSON.parse(localStorage.getItem('hairfolio_favorites') || '{}');
-      return favorites[userId] || [];
-    }
-
-    const favoritesRef = collection(db, COLLECTIONS.FAVORITES);
-    const q = query(
-      favoritesRef, 
-      where('userId', '==', userId),
-      orderBy('createdAt', 'desc')
-    );
-    
-    const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => doc.data() as Favorite);
+    return await clientRepository().getFavorites(userId);
   } catch (error) {
     console.error('❌ Error getting favorites:', error);
     return [];
@@ -307,17 +277,7 @@ export const getFavorites = async (userId: string): Promise<Favorite[]> => {
  */
 export const removeFavorite = async (favoriteId: string, userId: string): Promise<boolean> => {
   try {
-    if (!isFirebaseAvailable()) {
-      const favorites = JSON.parse(localStorage.getItem('hairfolio_favorites') || '{}');
-      if (favorites[userId]) {
-        favorites[userId] = favorites[userId].filter((f: Favorite) => f.id !== favoriteId);
-        localStorage.setItem('hairfolio_favorites', JSON.stringify(favorites));
-      }
-      return true;
-    }
-
-    const favoriteRef = doc(db, COLLECTIONS.FAVORITES, favoriteId);
-    await deleteDoc(favoriteRef);
+    await clientRepository().removeFavorite(favoriteId, userId);
     console.log('✅ Favorite removed:', favoriteId);
     return true;
   } catch (error) {
@@ -331,28 +291,15 @@ export const removeFavorite = async (favoriteId: string, userId: string): Promis
  */
 export const saveTryOnHistory = async (history: Omit<TryOnHistory, 'id' | 'createdAt'>): Promise<boolean> => {
   try {
-    const historyId = generateId();
     const historyData: TryOnHistory = {
       ...history,
-      id: historyId,
+      faceAnalysis: history.faceAnalysis && toStoredFaceAnalysis(history.faceAnalysis),
+      id: generateId(),
       createdAt: new Date().toISOString()
     };
 
-    if (!isFirebaseAvailable()) {
-      const histories = JSON.parse(localStorage.getItem('hairfolio_tryon_history') || '{}');
-      if (!histories[history.userId]) histories[history.userId] = [];
-      histories[history.userId].unshift(historyData);
-      // 최근 50개만 유지
-      if (histories[history.userId].length > 50) {
-        histories[history.userId] = histories[history.userId].slice(0, 50);
-      }
-      localStorage.setItem('hairfolio_tryon_history', JSON.stringify(histories));
-      return true;
-    }
-
-    const historyRef = doc(db, COLLECTIONS.TRYON_HISTORY, historyId);
-    await setDoc(historyRef, historyData);
-    console.log('✅ Try-on history saved:', historyId);
+    await clientRepository().addTryOnHistory(historyData);
+    console.log('✅ Try-on history saved:', historyData.id);
     return true;
   } catch (error) {
     console.error('❌ Error saving try-on history:', error);
@@ -365,21 +312,8 @@ export const saveTryOnHistory = async (history: Omit<TryOnHistory, 'id' | 'creat
  */
 export const getTryOnHistory = async (userId: string, limitCount: number = 20): Promise<TryOnHistory[]> => {
   try {
-    if (!isFirebaseAvailable()) {
-      const histories = JSON.parse(localStorage.getItem('hairfolio_tryon_history') || '{}');
-      return (histories[userId] || []).slice(0, limitCount);
-    }
-
-    const historyRef = collection(db, COLLECTIONS.TRYON_HISTORY);
-    const q = query(
-      historyRef,
-      where('userId', '==', userId),
-      orderBy('createdAt', 'desc'),
-      firestoreLimit(limitCount)
-    );
-    
-    const snapshot = await getDocs(q);
-    return snapshot.docs.map(doc => doc.data() as TryOnHistory);
+    const histories = await clientRepository().getTryOnHistory(userId, limitCount);
+    return histories.map(migrateTryOnHistory);
   } catch (error) {
     console.error('❌ Error getting try-on history:', error);
     return [];
@@ -387,77 +321,104 @@ export const getTryOnHistory = async (userId: string, limitCount: number = 20):
 };
 
 /**
- * 모든 디자이너의 포트폴리오 조회 (일반 사용자용)
+ * 가상 체험 결과 캐시 조회 (로컬 캐시는 tryOnCacheService에서 관리)
  */
-export const getAllPortfolios = async (): Promise<Array<{ designerId: string; designerName: string; data: DesignerData }>> => {
+export const getTryOnCacheEntry = async (cacheKey: string): Promise<TryOnCacheEntry | null> => {
   try {
-    if (!isFirebaseAvailable()) {
-      const localData = localStorage.getItem('hairfolio_designers');
-      if (localData) {
-        const designers = JSON.parse(localData);
-        return Object.entries(designers).map(([name, data]) => ({
-          designerId: name, // localStorage에서는 이름이 ID
-          designerName: name,
-          data: data as DesignerData
-        }));
-      }
-      return [];
-    }
+    return await designerRepository().getTryOnCacheEntry(cacheKey);
+  } catch (error) {
+    console.error('❌ Error getting try-on cache entry:', error);
+    return null;
+  }
+};
 
-    const designersRef = collection(db, COLLECTIONS.DESIGNERS);
-    const snapshot = await getDocs(designersRef);
-    
-    return snapshot.docs.map(doc => ({
-      designerId: doc.id,
-      designerName: doc.data().profile?.name || doc.id,
-      data: doc.data() as DesignerData
-    }));
+/**
+ * 가상 체험 결과 캐시 저장
+ */
+export const saveTryOnCacheEntry = async (entry: TryOnCacheEntry): Promise<boolean> => {
+  try {
+    return await designerRepository().saveTryOnCacheEntry(entry);
   } catch (error) {
-    console.error('❌ Error getting all portfolios:', error);
+    console.error('❌ Error saving try-on cache entry:', error);
+    return false;
+  }
+};
+
+/**
+ * 가상 체험 비용 기록 저장 (작업 생성 시)
+ */
+export const saveTryOnLedgerEntry = async (entry: TryOnLedgerEntry): Promise<boolean> => {
+  try {
+    await designerRepository().saveTryOnLedgerEntry(entry);
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving try-on ledger entry:', error);
+    return false;
+  }
+};
+
+/**
+ * 가상 체험 비용 기록 결과 갱신 (완료, 실패, 취소 시)
+ */
+export const updateTryOnLedgerOutcome = async (taskId: string, outcome: TryOnLedgerOutcome): Promise<boolean> => {
+  try {
+    return await designerRepository().updateTryOnLedgerEntry(taskId, {
+      outcome,
+      completedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('❌ Error updating try-on ledger entry:', error);
+    return false;
+  }
+};
+
+/**
+ * 디자이너별 가상 체험 비용 기록 조회 (since 이후, 최신순)
+ */
+export const getTryOnLedger = async (designerId: string, since?: Date): Promise<TryOnLedgerEntry[]> => {
+  try {
+    return await designerRepository().getTryOnLedger(designerId, (since || new Date(0)).toISOString());
+  } catch (error) {
+    console.error('❌ Error getting try-on ledger:', error);
     return [];
   }
 };
 
 /**
- * 디자이너 ID로 데이터 조회 (Firebase UID 사용)
+ * 모든 디자이너의 포트폴리오 조회 (일반 사용자용)
  */
-export const getDesignerDataById = async (userId: string): Promise<DesignerData> => {
+export const getAllPortfolios = async (): Promise<Array<{ designerId: string; designerName: string; designerSlug?: string; data: DesignerData }>> => {
   try {
-    if (!isFirebaseAvailable()) {
-      const localData = localStorage.getItem('hairfolio_designers');
-      if (localData) {
-        const designers = JSON.parse(localData);
-        return designers[userId] || {
-          portfolio: [],
-          stats: { ...DEFAULT_STATS },
-          settings: { ...DEFAULT_SETTINGS },
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-      }
-      throw new Error('No data available');
-    }
+    const [designers, styles] = await Promise.all([
+      designerRepository().listDesigners(),
+      designerRepository().listAllStyles()
+    ]);
 
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, userId);
-    const designerSnap = await getDoc(designerRef);
-    
-    if (designerSnap.exists()) {
-      const data = designerSnap.data() as DesignerData;
-      return {
-        ...data,
-        stats: data.stats || { ...DEFAULT_STATS },
-        settings: data.settings || { ...DEFAULT_SETTINGS },
-        portfolio: data.portfolio || []
-      };
-    } else {
+    return designers.map(({ designerId, data }) => {
+      const designerStyles = styles.filter(entry => entry.designerId === designerId).map(entry => entry.style);
       return {
-        portfolio: [],
-        stats: { ...DEFAULT_STATS },
-        settings: { ...DEFAULT_SETTINGS },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
+        designerId,
+        designerName: data.profile?.name || designerId,
+        designerSlug: data.slug,
+        // 아직 스타일 컬렉션으로 옮기지 않은 디자이너는 문서 안의 배열 사용
+        data: {
+          ...data,
+          portfolio: designerStyles.length > 0 ? sortStyles(designerStyles) : (data.portfolio || [])
+        }
       };
-    }
+    });
+  } catch (error) {
+    console.error('❌ Error getting all portfolios:', error);
+    return [];
+  }
+};
+
+/**
+ * 디자이너 ID로 데이터 조회 (Firebase UID 사용, getDesignerData와 같음)
+ */
+export const getDesignerDataById = async (userId: string): Promise<DesignerData> => {
+  try {
+    return await loadDesignerData(userId);
   } catch (error) {
     console.error('❌ Error getting designer data by ID:', error);
     throw error;
@@ -469,58 +430,7 @@ export const getDesignerDataById = async (userId: string): Promise<DesignerData>
  */
 export const savePortfolioById = async (userId: string, portfolio: Hairstyle[]): Promise<boolean> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      const existingData = localData[userId] || {
-        stats: { ...DEFAULT_STATS },
-        settings: { ...DEFAULT_SETTINGS },
-        createdAt: new Date().toISOString()
-      };
-      
-      const updatedPortfolio = portfolio.map(style => ({
-        ...style,
-        id: style.id || generateId(),
-        uploadedBy: userId, // 디자이너 ID 추가
-        createdAt: style.createdAt || new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }));
-
-      localData[userId] = {
-        ...existingData,
-        portfolio: updatedPortfolio,
-        updatedAt: new Date().toISOString()
-      };
-      
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, userId);
-    
-    const updatedPortfolio = portfolio.map(style => ({
-      ...style,
-      id: style.id || generateId(),
-      uploadedBy: userId,
-      createdAt: style.createdAt || new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    }));
-    
-    const existingData = await getDesignerDataById(userId);
-    
-    const updatedData: DesignerData = {
-      ...existingData,
-      portfolio: updatedPortfolio,
-      updatedAt: new Date().toISOString()
-    };
-    
-    const cleanedData = removeUndefinedFields(updatedData);
-    await setDoc(designerRef, cleanedData);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    localData[userId] = cleanedData;
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+    await replacePortfolio(userId, portfolio, userId);
     return true;
   } catch (error) {
     console.error('❌ Error saving portfolio:', error);
@@ -528,225 +438,171 @@ export const savePortfolioById = async (userId: string, portfolio: Hairstyle[]):
   }
 };
 
-// ===== 기존 디자이너 관리 함수들 (하위 호환성 유지) =====
+// ===== 디자이너 공개 주소 (slug) =====
 
-export const initializeDB = async (): Promise<void> => {
-  try {
-    if (!isFirebaseAvailable()) {
-      console.warn('⚠️ Firebase not available, using localStorage fallback');
-      const localData = localStorage.getItem('hairfolio_designers');
-      if (!localData) {
-        localStorage.setItem('hairfolio_designers', JSON.stringify({
-          'Sample Designer': {
-            portfolio: portfolioImages,
-            profile: sampleDesigner,
-            reservationUrl: 'https://booking.naver.com/booking/12/bizes/123456',
-            stats: DEFAULT_STATS,
-            settings: DEFAULT_SETTINGS,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          }
-        }));
-        console.log('📝 Sample designer initialized in localStorage');
+/**
+ * 이름으로 기본 주소 만들기 ("Hong Gil Dong" → "hong-gil-dong")
+ */
+export const slugify = (name: string): string => {
+  const slug = name
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^a-z0-9가-힣]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, SLUG_MAX_LENGTH)
+    .replace(/-+$/, '');
+
+  return slug.length >= SLUG_MIN_LENGTH ? slug : 'designer';
+};
+
+export const isValidDesignerSlug = (slug: string): boolean => {
+  return slug.length >= SLUG_MIN_LENGTH && slug.length <= SLUG_MAX_LENGTH && SLUG_PATTERN.test(slug);
+};
+
+/**
+ * 공개 주소가 없으면 이름으로 만들어 저장 (이미 있으면 그대로 반환)
+ * 같은 주소가 있으면 -2, -3 ... 을 붙이고, 그래도 없으면 UID 앞부분을 붙인다.
+ */
+export const ensureDesignerSlug = async (designerId: string, fallbackName?: string): Promise<string | null> => {
+  try {
+    const data = await designerRepository().getDesigner(designerId);
+    if (!data) return null;
+    if (data.slug) return data.slug;
+
+    const base = slugify(data.profile?.name || fallbackName || '');
+    const suffix = designerId.toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 6);
+    const candidates = [
+      base,
+      ...Array.from({ length: 8 }, (_, index) => `${base}-${index + 2}`),
+      `${base}-${suffix}`
+    ].map(candidate => candidate.slice(0, SLUG_MAX_LENGTH));
+
+    for (const candidate of candidates) {
+      if (await designerRepository().claimSlug(candidate, designerId)) {
+        await updateDesignerData(designerId, { slug: candidate });
+        console.log('🔗 Designer slug created:', candidate);
+        return candidate;
       }
-      return;
     }
 
-    console.log('🔄 Checking Sample Designer in Firebase...');
-    const sampleDesignerRef = doc(db, COLLECTIONS.DESIGNERS, 'Sample Designer');
-    const sampleDesignerSnap = await getDoc(sampleDesignerRef);
-    
-    if (!sampleDesignerSnap.exists()) {
-      console.log('📝 Creating Sample Designer in Firebase...');
-      const sampleDesignerData: DesignerData = {
-        portfolio: portfolioImages.map(style => ({
-          ...style,
-          id: style.id || generateId(),
-          createdAt: style.createdAt || new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        })),
-        profile: sampleDesigner,
-        reservationUrl: 'https://booking.naver.com/booking/12/bizes/123456',
-        stats: { ...DEFAULT_STATS },
-        settings: { ...DEFAULT_SETTINGS },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-      
-      const cleanedData = removeUndefinedFields(sampleDesignerData);
-      await setDoc(sampleDesignerRef, cleanedData);
-      console.log('✅ Sample designer initialized in Firebase');
-    } else {
-      console.log('✅ Sample designer already exists in Firebase');
-    }
+    console.warn('⚠️ 사용할 수 있는 공개 주소를 찾지 못했습니다:', designerId);
+    return null;
   } catch (error) {
-    console.error('❌ Error initializing Firebase DB:', error);
-    const localData = localStorage.getItem('hairfolio_designers');
-    if (!localData) {
-      localStorage.setItem('hairfolio_designers', JSON.stringify({
-        'Sample Designer': {
-          portfolio: portfolioImages,
-          profile: sampleDesigner,
-          reservationUrl: 'https://booking.naver.com/booking/12/bizes/123456',
-          stats: DEFAULT_STATS,
-          settings: DEFAULT_SETTINGS,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-      }));
-      console.log('📝 Fallback: Sample designer initialized in localStorage');
-    }
+    console.error('❌ Error ensuring designer slug:', error);
+    return null;
   }
 };
 
-export const getDesignerData = async (designerName: string): Promise<DesignerData> => {
+/**
+ * 공개 주소 변경 (이전 주소는 해제되어 다른 디자이너가 사용할 수 있음)
+ */
+export const updateDesignerSlug = async (
+  designerId: string,
+  slug: string
+): Promise<{ success: boolean; slug?: string; error?: 'invalid' | 'taken' | 'failed' }> => {
+  const nextSlug = slug.trim().toLowerCase();
+  if (!isValidDesignerSlug(nextSlug)) {
+    return { success: false, error: 'invalid' };
+  }
+
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for getDesignerData');
-      const localData = localStorage.getItem('hairfolio_designers');
-      if (localData) {
-        const designers = JSON.parse(localData);
-        return designers[designerName] || {
-          portfolio: [],
-          stats: { ...DEFAULT_STATS },
-          settings: { ...DEFAULT_SETTINGS },
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-      }
-      throw new Error('No data available');
+    const currentData = await loadDesignerDocument(designerId);
+    if (currentData?.slug === nextSlug) {
+      return { success: true, slug: nextSlug };
     }
 
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const designerSnap = await getDoc(designerRef);
-    
-    if (designerSnap.exists()) {
-      const data = designerSnap.data() as DesignerData;
-      return {
-        ...data,
-        stats: data.stats || { ...DEFAULT_STATS },
-        settings: data.settings || { ...DEFAULT_SETTINGS },
-        portfolio: data.portfolio || []
-      };
-    } else {
-      return {
-        portfolio: [],
-        stats: { ...DEFAULT_STATS },
-        settings: { ...DEFAULT_SETTINGS },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+    if (!(await designerRepository().claimSlug(nextSlug, designerId))) {
+      return { success: false, error: 'taken' };
     }
-  } catch (error) {
-    console.error('❌ Error getting designer data from Firebase:', error);
-    const localData = localStorage.getItem('hairfolio_designers');
-    if (localData) {
-      const designers = JSON.parse(localData);
-      return designers[designerName] || {
-        portfolio: [],
-        stats: { ...DEFAULT_STATS },
-        settings: { ...DEFAULT_SETTINGS },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+
+    await updateDesignerData(designerId, { slug: nextSlug });
+    if (currentData?.slug) {
+      await designerRepository().releaseSlug(currentData.slug, designerId);
     }
-    throw error;
+
+    console.log('✅ Designer slug updated:', nextSlug);
+    return { success: true, slug: nextSlug };
+  } catch (error) {
+    console.error('❌ Error updating designer slug:', error);
+    return { success: false, error: 'failed' };
+  }
+};
+
+/**
+ * 링크의 ?designer= 값을 디자이너 ID로 변환
+ * 공개 주소 → 디자이너 ID(UID) 그대로 → 합쳐진 예전 이름 순서로 찾고, 없으면 null
+ */
+export const resolveDesignerId = async (param: string): Promise<string | null> => {
+  try {
+    const bySlug = await designerRepository().getDesignerIdBySlug(param.toLowerCase());
+    if (bySlug) return bySlug;
+
+    if (await designerRepository().getDesigner(param)) return param;
+
+    // 예전 이름 링크 (?designer=<이름>)
+    const designers = await designerRepository().listDesigners();
+    const merged = designers.find(({ data }) => data.legacyNames?.includes(param));
+    return merged?.designerId || null;
+  } catch (error) {
+    console.error('❌ Error resolving designer:', error);
+    return null;
   }
 };
 
-export const savePortfolio = async (designerName: string, portfolio: Hairstyle[]): Promise<boolean> => {
+// ===== 기존 디자이너 관리 함수들 (하위 호환성 유지) =====
+
+export const initializeDB = async (): Promise<void> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for savePortfolio');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      const existingData = localData[designerName] || {
-        stats: { ...DEFAULT_STATS },
-        settings: { ...DEFAULT_SETTINGS },
-        createdAt: new Date().toISOString()
-      };
-      
-      const updatedPortfolio = portfolio.map(style => ({
-        ...style,
-        id: style.id || generateId(),
-        createdAt: style.createdAt || new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }));
-
-      localData[designerName] = {
-        ...existingData,
-        portfolio: updatedPortfolio,
-        updatedAt: new Date().toISOString()
-      };
-      
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
+    console.log('🔄 Checking Sample Designer...');
+    const existing = await designerRepository().getDesigner(SAMPLE_DESIGNER_ID);
+
+    if (!existing) {
+      console.log('📝 Creating Sample Designer...');
+      await designerRepository().saveDesigner(SAMPLE_DESIGNER_ID, {
+        ...createEmptyDesignerDocument(),
+        profile: sampleDesigner,
+        reservationUrl: 'https://booking.naver.com/booking/12/bizes/123456'
+      });
+      await replacePortfolio(SAMPLE_DESIGNER_ID, portfolioImages);
+      console.log(`✅ Sample designer initialized (${getRepositories().kind})`);
+    } else {
+      console.log('✅ Sample designer already exists');
     }
 
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    
-    const updatedPortfolio = portfolio.map(style => ({
-      ...style,
-      id: style.id || generateId(),
-      createdAt: style.createdAt || new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    }));
-    
-    const existingData = await getDesignerData(designerName);
-    
-    const updatedData: DesignerData = {
-      ...existingData,
-      portfolio: updatedPortfolio,
-      updatedAt: new Date().toISOString()
-    };
-    
-    const cleanedData = removeUndefinedFields(updatedData);
-    await setDoc(designerRef, cleanedData);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    localData[designerName] = cleanedData;
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+    if (!existing?.slug) {
+      await ensureDesignerSlug(SAMPLE_DESIGNER_ID, SAMPLE_DESIGNER_ID);
+    }
+  } catch (error) {
+    console.error('❌ Error initializing DB:', error);
+  }
+};
+
+export const getDesignerData = async (designerId: string): Promise<DesignerData> => {
+  try {
+    return await loadDesignerData(designerId);
+  } catch (error) {
+    console.error('❌ Error getting designer data:', error);
+    throw error;
+  }
+};
+
+export const savePortfolio = async (designerId: string, portfolio: Hairstyle[]): Promise<boolean> => {
+  try {
+    await replacePortfolio(designerId, portfolio);
     return true;
   } catch (error) {
-    console.error('❌ Error saving portfolio to Firebase:', error);
+    console.error('❌ Error saving portfolio:', error);
     return false;
   }
 };
 
-export const addStyleToPortfolio = async (designerName: string, style: Hairstyle): Promise<boolean> => {
+export const addStyleToPortfolio = async (designerId: string, style: Hairstyle): Promise<boolean> => {
   try {
-    const currentData = await getDesignerData(designerName);
-    
-    const newStyle: Hairstyle = {
-      ...style,
-      id: style.id || generateId(),
-      createdAt: style.createdAt || new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    };
-    
-    const updatedPortfolio = [newStyle, ...currentData.portfolio];
-    const updatedData: DesignerData = {
-      ...currentData,
-      portfolio: updatedPortfolio,
-      updatedAt: new Date().toISOString()
-    };
-
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for addStyleToPortfolio');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      localData[designerName] = updatedData;
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
-    }
+    // 다른 스타일은 다시 쓰지 않고 새 스타일 문서만 추가 (맨 앞에 표시)
+    const styles = await designerRepository().listStyles(designerId);
+    const order = Math.min(0, ...styles.map(existing => existing.order ?? 0)) - 1;
 
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const cleanedData = removeUndefinedFields(updatedData);
-    await setDoc(designerRef, cleanedData);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    localData[designerName] = cleanedData;
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+    await designerRepository().saveStyle(designerId, { ...prepareStyle(style), order });
     return true;
   } catch (error) {
     console.error('❌ Error adding style to portfolio:', error);
@@ -754,30 +610,26 @@ export const addStyleToPortfolio = async (designerName: string, style: Hairstyle
   }
 };
 
-export const removeStyleFromPortfolio = async (designerName: string, styleId: string): Promise<boolean> => {
+export const removeStyleFromPortfolio = async (designerId: string, styleId: string): Promise<boolean> => {
   try {
-    const currentData = await getDesignerData(designerName);
-    const updatedPortfolio = currentData.portfolio.filter(style => style.id !== styleId);
-    return await savePortfolio(designerName, updatedPortfolio);
+    const savedStyleId = await findStyleId(designerId, styleId);
+    if (!savedStyleId) return false;
+
+    await designerRepository().deleteStyle(designerId, savedStyleId);
+    return true;
   } catch (error) {
     console.error('❌ Error removing style from portfolio:', error);
     return false;
   }
 };
 
-export const updateStyleInPortfolio = async (designerName: string, styleId: string, updates: Partial<Hairstyle>): Promise<boolean> => {
+export const updateStyleInPortfolio = async (designerId: string, styleId: string, updates: Partial<Hairstyle>): Promise<boolean> => {
   try {
-    const currentData = await getDesignerData(designerName);
-    const styleIndex = currentData.portfolio.findIndex(style => style.id === styleId);
-    if (styleIndex === -1) return false;
-    
-    currentData.portfolio[styleIndex] = {
-      ...currentData.portfolio[styleIndex],
-      ...updates,
-      updatedAt: new Date().toISOString()
-    };
-    
-    return await savePortfolio(designerName, currentData.portfolio);
+    // 바꾼 항목만 저장 - 다른 탭에서 같은 시점에 수정한 다른 스타일을 덮어쓰지 않음
+    if (await designerRepository().updateStyle(designerId, styleId, updates)) return true;
+
+    const savedStyleId = await findStyleId(designerId, styleId);
+    return savedStyleId ? designerRepository().updateStyle(designerId, savedStyleId, updates) : false;
   } catch (error) {
     console.error('❌ Error updating style in portfolio:', error);
     return false;
@@ -786,30 +638,7 @@ export const updateStyleInPortfolio = async (designerName: string, styleId: stri
 
 export const saveDesignerProfile = async (userId: string, profile: DesignerProfile): Promise<boolean> => {
   try {
-    const currentData = await getDesignerDataById(userId);
-    
-    const updatedData: DesignerData = {
-      ...currentData,
-      profile,
-      updatedAt: new Date().toISOString()
-    };
-
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for saveDesignerProfile');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      localData[userId] = updatedData;
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, userId);
-    const cleanedData = removeUndefinedFields(updatedData);
-    await setDoc(designerRef, cleanedData);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    localData[userId] = cleanedData;
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+    await updateDesignerData(userId, { profile });
     return true;
   } catch (error) {
     console.error('❌ Error saving designer profile:', error);
@@ -817,32 +646,9 @@ export const saveDesignerProfile = async (userId: string, profile: DesignerProfi
   }
 };
 
-export const saveDesignerSettings = async (designerName: string, settings: DesignerSettings): Promise<boolean> => {
+export const saveDesignerSettings = async (designerId: string, settings: DesignerSettings): Promise<boolean> => {
   try {
-    const currentData = await getDesignerData(designerName);
-    
-    const updatedData: DesignerData = {
-      ...currentData,
-      settings,
-      updatedAt: new Date().toISOString()
-    };
-
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for saveDesignerSettings');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      localData[designerName] = updatedData;
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const cleanedData = removeUndefinedFields(updatedData);
-    await setDoc(designerRef, cleanedData);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    localData[designerName] = cleanedData;
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+    await updateDesignerData(designerId, { settings });
     return true;
   } catch (error) {
     console.error('❌ Error saving designer settings:', error);
@@ -850,32 +656,9 @@ export const saveDesignerSettings = async (designerName: string, settings: Desig
   }
 };
 
-export const saveReservationUrl = async (designerName: string, url: string): Promise<boolean> => {
+export const saveReservationUrl = async (designerId: string, url: string): Promise<boolean> => {
   try {
-    const currentData = await getDesignerData(designerName);
-    
-    const updatedData: DesignerData = {
-      ...currentData,
-      reservationUrl: url,
-      updatedAt: new Date().toISOString()
-    };
-
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for saveReservationUrl');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      localData[designerName] = updatedData;
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const cleanedData = removeUndefinedFields(updatedData);
-    await setDoc(designerRef, cleanedData);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    localData[designerName] = cleanedData;
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+    await updateDesignerData(designerId, { reservationUrl: url });
     return true;
   } catch (error) {
     console.error('❌ Error saving reservation URL:', error);
@@ -883,73 +666,33 @@ export const saveReservationUrl = async (designerName: string, url: string): Pro
   }
 };
 
-export const designerExists = async (designerName: string): Promise<boolean> => {
+export const designerExists = async (designerId: string): Promise<boolean> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for designerExists');
-      const localData = localStorage.getItem('hairfolio_designers');
-      if (localData) {
-        const designers = JSON.parse(localData);
-        return designerName in designers;
-      }
-      return false;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const designerSnap = await getDoc(designerRef);
-    return designerSnap.exists();
+    return (await designerRepository().getDesigner(designerId)) !== null;
   } catch (error) {
     console.error('❌ Error checking if designer exists:', error);
-    const localData = localStorage.getItem('hairfolio_designers');
-    if (localData) {
-      const designers = JSON.parse(localData);
-      return designerName in designers;
-    }
     return false;
   }
 };
 
 export const getAllDesignerNames = async (): Promise<string[]> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for getAllDesignerNames');
-      const localData = localStorage.getItem('hairfolio_designers');
-      if (localData) {
-        return Object.keys(JSON.parse(localData));
-      }
-      return [];
-    }
-
-    const designersRef = collection(db, COLLECTIONS.DESIGNERS);
-    const snapshot = await getDocs(designersRef);
-    return snapshot.docs.map(doc => doc.id);
+    const designers = await designerRepository().listDesigners();
+    return designers.map(({ designerId }) => designerId);
   } catch (error) {
     console.error('❌ Error getting all designer names:', error);
-    const localData = localStorage.getItem('hairfolio_designers');
-    if (localData) {
-      return Object.keys(JSON.parse(localData));
-    }
     return [];
   }
 };
 
-export const deleteDesigner = async (designerName: string): Promise<boolean> => {
+export const deleteDesigner = async (designerId: string): Promise<boolean> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for deleteDesigner');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      delete localData[designerName];
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
+    // Firestore는 문서를 지워도 하위 컬렉션이 남으므로 스타일부터 삭제
+    const styles = await designerRepository().listStyles(designerId);
+    for (const style of styles) {
+      await designerRepository().deleteStyle(designerId, style.id!);
     }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    await deleteDoc(designerRef);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    delete localData[designerName];
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+    await designerRepository().deleteDesigner(designerId);
     return true;
   } catch (error) {
     console.error('❌ Error deleting designer:', error);
@@ -957,80 +700,44 @@ export const deleteDesigner = async (designerName: string): Promise<boolean> =>
   }
 };
 
-export const trackVisit = async (designerName: string): Promise<void> => {
-  const sessionKey = `hairfolio_visit_tracked_${designerName}`;
-  
+export const trackVisit = async (designerId: string): Promise<void> => {
+  const sessionKey = `hairfolio_visit_tracked_${designerId}`;
+
   if (sessionStorage.getItem(sessionKey)) {
     return;
   }
-  
-  try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, skipping trackVisit');
-      sessionStorage.setItem(sessionKey, 'true');
-      return;
-    }
 
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    
-    await updateDoc(designerRef, {
-      'stats.visits': increment(1),
-      'stats.lastUpdated': new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+  try {
+    await designerRepository().updateStats(designerId, {
+      set: { lastUpdated: new Date().toISOString() },
+      increment: [{ path: ['visits'], amount: 1 }]
     });
-    
+
     sessionStorage.setItem(sessionKey, 'true');
   } catch (error) {
     console.error('❌ Error tracking visit:', error);
   }
 };
 
-export const trackStyleView = async (designerName: string, styleUrl: string): Promise<void> => {
+export const trackStyleView = async (designerId: string, styleUrl: string): Promise<void> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, skipping trackStyleView');
-      return;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const currentData = await getDesignerData(designerName);
-    
-    const styleViews = currentData.stats?.styleViews || {};
-    styleViews[styleUrl] = (styleViews[styleUrl] || 0) + 1;
-    
-    await updateDoc(designerRef, {
-      'stats.styleViews': styleViews,
-      'stats.totalTryOns': increment(1),
-      'stats.lastUpdated': new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+    await designerRepository().updateStats(designerId, {
+      set: { lastUpdated: new Date().toISOString() },
+      increment: [
+        { path: ['totalTryOns'], amount: 1 },
+        { path: ['styleViews', styleUrl], amount: 1 }
+      ]
     });
   } catch (error) {
     console.error('❌ Error tracking style view:', error);
   }
 };
 
-export const trackBooking = async (designerName: string, styleUrl: string): Promise<void> => {
+export const trackBooking = async (designerId: string, styleUrl: string): Promise<void> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, skipping trackBooking');
-      return;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const currentData = await getDesignerData(designerName);
-    
-    const bookings = currentData.stats?.bookings || {};
-    bookings[styleUrl] = (bookings[styleUrl] || 0) + 1;
-    
-    const totalViews = Object.values(currentData.stats?.styleViews || {}).reduce((sum, count) => sum + count, 0);
-    const totalBookings = Object.values(bookings).reduce((sum, count) => sum + count, 0);
-    const conversionRate = totalViews > 0 ? (totalBookings / totalViews) * 100 : 0;
-    
-    await updateDoc(designerRef, {
-      'stats.bookings': bookings,
-      'stats.conversionRate': conversionRate,
-      'stats.lastUpdated': new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+    await designerRepository().updateStats(designerId, {
+      set: { lastUpdated: new Date().toISOString() },
+      increment: [{ path: ['bookings', styleUrl], amount: 1 }]
     });
   } catch (error) {
     console.error('❌ Error tracking booking:', error);
@@ -1038,77 +745,134 @@ export const trackBooking = async (designerName: string, styleUrl: string): Prom
 };
 
 export const trackTrialResult = async (
-  designerName: string, 
+  designerId: string,
   trialData: {
     styleUrl: string;
     resultUrl: string;
     styleName?: string;
+    type?: TrialResult['type'];
+    resultKind?: ColorTryOnResultKind;
   }
 ): Promise<void> => {
   try {
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, skipping trackTrialResult');
-      return;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const currentData = await getDesignerData(designerName);
-    
     const trialResult: TrialResult = {
       styleUrl: trialData.styleUrl,
       resultUrl: trialData.resultUrl,
       timestamp: new Date().toISOString(),
-      styleName: trialData.styleName
+      styleName: trialData.styleName,
+      type: trialData.type,
+      resultKind: trialData.resultKind
     };
-    
-    const trialResults = currentData.stats?.trialResults || [];
-    trialResults.unshift(trialResult);
-    
-    if (trialResults.length > 20) {
-      trialResults.splice(20);
-    }
-    
-    await updateDoc(designerRef, {
-      'stats.trialResults': trialResults,
-      'stats.lastUpdated': new Date().toISOString(),
-      updatedAt: new Date().toISOString()
+
+    // 결과 목록에 추가만 하고 개수는 increment로 올림 - 기존 결과를 읽어 다시 쓰지 않아 동시에 기록해도 누락 없음
+    await designerRepository().addTrialResult(designerId, trialResult);
+    await designerRepository().updateStats(designerId, {
+      set: { lastUpdated: new Date().toISOString() },
+      increment: [{ path: ['totalTrialResults'], amount: 1 }]
     });
-    
+
     console.log('✅ Trial result tracked successfully');
   } catch (error) {
     console.error('❌ Error tracking trial result:', error);
   }
 };
 
-export const resetAnalytics = async (designerName: string): Promise<boolean> => {
+// 염색 체험 결과가 고객에게 보여질 때마다 종류별로 집계 (AI 생성이 아닌 결과가 얼마나 나가는지 확인용)
+export const trackColorTryOnResult = async (designerId: string, resultKind: ColorTryOnResultKind): Promise<void> => {
   try {
-    const currentData = await getDesignerData(designerName);
-    
-    const updatedData: DesignerData = {
-      ...currentData,
-      stats: {
-        ...DEFAULT_STATS,
-        lastUpdated: new Date().toISOString()
-      },
-      updatedAt: new Date().toISOString()
+    await designerRepository().updateStats(designerId, {
+      set: { lastUpdated: new Date().toISOString() },
+      increment: [{ path: ['colorTryOnResults', resultKind], amount: 1 }]
+    });
+  } catch (error) {
+    console.error('❌ Error tracking color try-on result:', error);
+  }
+};
+
+// ===== 분석 이벤트 (analyticsService에서 사용) =====
+
+/**
+ * 분석 이벤트 기록 (추가만 함)
+ */
+export const logAnalyticsEvent = async (event: AnalyticsEvent): Promise<boolean> => {
+  try {
+    await analyticsRepository().addEvent(event);
+    return true;
+  } catch (error) {
+    console.error('❌ Error logging analytics event:', error);
+    return false;
+  }
+};
+
+/**
+ * 기간 내 분석 이벤트 조회 (start 포함, end 제외, 오래된 순)
+ */
+export const getAnalyticsEvents = async (designerId: string, start: Date, end: Date): Promise<AnalyticsEvent[]> => {
+  try {
+    return await analyticsRepository().listEvents(designerId, start.toISOString(), end.toISOString());
+  } catch (error) {
+    console.error('❌ Error getting analytics events:', error);
+    return [];
+  }
+};
+
+/**
+ * 저장된 일별 집계 조회 (YYYY-MM-DD, 양 끝 포함)
+ */
+export const getDailyRollups = async (designerId: string, startDate: string, endDate: string): Promise<AnalyticsDailyRollup[]> => {
+  try {
+    return await analyticsRepository().listDailyRollups(designerId, startDate, endDate);
+  } catch (error) {
+    console.error('❌ Error getting daily rollups:', error);
+    return [];
+  }
+};
+
+/**
+ * 일별 집계가 완료된 기간 (from ~ through, 집계한 적이 없으면 빈 객체)과 통계를 초기화한 시각
+ */
+export const getAnalyticsRollupRange = async (designerId: string): Promise<{ from?: string; through?: string; resetAt?: string }> => {
+  try {
+    const document = await designerRepository().getDesigner(designerId);
+    return {
+      from: document?.analyticsRollupFrom,
+      through: document?.analyticsRollupThrough,
+      resetAt: document?.analyticsResetAt
     };
+  } catch (error) {
+    console.error('❌ Error getting analytics rollup range:', error);
+    return {};
+  }
+};
 
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for resetAnalytics');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      localData[designerName] = updatedData;
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
-    }
+/**
+ * 일별 집계 저장 후 from ~ through 기간을 집계 완료로 기록
+ */
+export const saveDailyRollups = async (
+  designerId: string,
+  rollups: AnalyticsDailyRollup[],
+  range: { from?: string; through: string }
+): Promise<boolean> => {
+  try {
+    await analyticsRepository().saveDailyRollups(rollups);
+    await updateDesignerData(designerId, { analyticsRollupFrom: range.from, analyticsRollupThrough: range.through });
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving daily rollups:', error);
+    return false;
+  }
+};
 
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, designerName);
-    const cleanedData = removeUndefinedFields(updatedData);
-    await setDoc(designerRef, cleanedData);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    localData[designerName] = cleanedData;
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+export const resetAnalytics = async (designerId: string): Promise<boolean> => {
+  try {
+    const resetAt = new Date().toISOString();
+    const stats: DesignerStats = {
+      ...DEFAULT_STATS,
+      lastUpdated: resetAt
+    };
+
+    // 누적 카운터는 0으로, 기간 통계(이벤트 / 일별 집계)와 체험 결과는 이 시각 이후만 읽음
+    await updateDesignerData(designerId, { stats, analyticsResetAt: resetAt });
     return true;
   } catch (error) {
     console.error('❌ Error resetting analytics:', error);
@@ -1116,16 +880,16 @@ export const resetAnalytics = async (designerName: string): Promise<boolean> =>
   }
 };
 
-export const exportDesignerData = async (designerName: string): Promise<string | null> => {
+export const exportDesignerData = async (designerId: string): Promise<string | null> => {
   try {
-    const data = await getDesignerData(designerName);
+    const data = await getDesignerData(designerId);
     if (!data.portfolio.length && !data.profile) return null;
-    
+
     return JSON.stringify({
-      designerName,
+      designerId,
       data,
       exportDate: new Date().toISOString(),
-      version: '1.0'
+      version: '2.0'
     }, null, 2);
   } catch (error) {
     console.error('❌ Error exporting designer data:', error);
@@ -1136,33 +900,18 @@ export const exportDesignerData = async (designerName: string): Promise<string |
 export const importDesignerData = async (jsonData: string): Promise<boolean> => {
   try {
     const imported = JSON.parse(jsonData);
-    
-    if (!imported.designerName || !imported.data) {
+
+    if (!imported.designerId || !imported.data) {
       console.error('Invalid import data format');
       return false;
     }
-    
-    const updatedData = {
-      ...imported.data,
-      updatedAt: new Date().toISOString()
-    };
 
-    if (!isFirebaseAvailable()) {
-      console.log('⚠️ Firebase not available, using localStorage for importDesignerData');
-      const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-      localData[imported.designerName] = updatedData;
-      localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-      return true;
-    }
-
-    const designerRef = doc(db, COLLECTIONS.DESIGNERS, imported.designerName);
-    const cleanedData = removeUndefinedFields(updatedData);
-    await setDoc(designerRef, cleanedData);
-    
-    const localData = JSON.parse(localStorage.getItem('hairfolio_designers') || '{}');
-    localData[imported.designerName] = cleanedData;
-    localStorage.setItem('hairfolio_designers', JSON.stringify(localData));
-    
+    const { portfolio = [], ...document } = imported.data as DesignerData;
+    await designerRepository().saveDesigner(imported.designerId, {
+      ...document,
+      updatedAt: new Date().toISOString()
+    });
+    await replacePortfolio(imported.designerId, portfolio);
     return true;
   } catch (error) {
     console.error('❌ Error importing designer data:', error);
@@ -1173,8 +922,9 @@ export const importDesignerData = async (jsonData: string): Promise<boolean> =>
 export const clearAllData = async (): Promise<boolean> => {
   try {
     localStorage.removeItem('hairfolio_designers');
+    localStorage.removeItem('hairfolio_designer_styles');
     sessionStorage.clear();
-    
+
     console.warn('⚠️ Cleared localStorage only. Firebase data preserved for safety.');
     return true;
   } catch (error) {
@@ -1188,7 +938,7 @@ export const getStorageInfo = async () => {
     const localData = localStorage.getItem('hairfolio_designers') || '{}';
     const totalSize = new Blob([localData]).size;
     const designerCount = Object.keys(JSON.parse(localData)).length;
-    
+
     return {
       totalSize,
       designerCount,
@@ -1205,20 +955,20 @@ export const getStorageInfo = async () => {
   }
 };
 
-export const getAnalyticsSummary = async (designerName: string) => {
+export const getAnalyticsSummary = async (designerId: string) => {
   try {
-    const data = await getDesignerData(designerName);
+    const data = await getDesignerData(designerId);
     const stats = data.stats!;
-    
+
     const totalViews = Object.values(stats.styleViews || {}).reduce((sum, count) => sum + count, 0);
     const totalBookings = Object.values(stats.bookings || {}).reduce((sum, count) => sum + count, 0);
-    
+
     const topViewedStyle = Object.entries(stats.styleViews || {})
       .sort(([, a], [, b]) => b - a)[0];
-    
+
     const topBookedStyle = Object.entries(stats.bookings || {})
       .sort(([, a], [, b]) => b - a)[0];
-    
+
     return {
       visits: stats.visits,
       totalViews,
@@ -1254,10 +1004,10 @@ export const getAnalyticsSummary = async (designerName: string) => {
 
 const formatBytes = (bytes: number): string => {
   if (bytes === 0) return '0 B';
-  
+
   const k = 1024;
   const sizes = ['B', 'KB', 'MB', 'GB'];
   const i = Math.floor(Math.log(bytes) / Math.log(k));
-  
+
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
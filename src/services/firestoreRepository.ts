@@ -0,0 +1,495 @@
+// Firestore 저장소 - Firebase 초기화, 디자이너 / 고객 데이터 저장 (디자이너 데이터는 localStorage에도 복사해 오류 시 사용)
+import { initializeApp } from "firebase/app";
+import {
+  DocumentData,
+  FieldPath,
+  Firestore,
+  Timestamp,
+  getFirestore,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  increment,
+  serverTimestamp,
+  collection,
+  collectionGroup,
+  getDocs,
+  deleteDoc,
+  deleteField,
+  runTransaction,
+  writeBatch,
+  query,
+  where,
+  orderBy,
+  limit as firestoreLimit
+} from "firebase/firestore";
+import {
+  AnalyticsDailyRollup,
+  AnalyticsEvent,
+  AnalyticsRepository,
+  ClientProfile,
+  ClientRepository,
+  DesignerDocument,
+  DesignerRepository,
+  Favorite,
+  Hairstyle,
+  Repositories,
+  TrialResult,
+  TryOnCacheEntry,
+  TryOnHistory,
+  TryOnLedgerEntry,
+  User
+} from '../types';
+
+// Firebase 설정 디버깅
+console.log('🔧 Firebase Config Debug:', {
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY ? 'SET ✅' : 'NOT SET ❌',
+  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN || 'NOT SET ❌',
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || 'NOT SET ❌',
+  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET || 'NOT SET ❌',
+  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID ? 'SET ✅' : 'NOT SET ❌',
+  appId: import.meta.env.VITE_FIREBASE_APP_ID ? 'SET ✅' : 'NOT SET ❌',
+  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID ? 'SET ✅' : 'NOT SET ❌'
+});
+
+const firebaseConfig = {
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+  appId: import.meta.env.VITE_FIREBASE_APP_ID,
+  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID
+};
+
+// Firebase 초기화 (실패하면 null - localStorage 저장소 사용)
+const initializeFirestore = (): Firestore | null => {
+  try {
+    console.log('🚀 Initializing Firebase...');
+    const app = initializeApp(firebaseConfig);
+    const db = getFirestore(app);
+    console.log('✅ Firebase initialized successfully');
+    return db;
+  } catch (error) {
+    console.error('❌ Firebase initialization failed:', error);
+    console.error('Error details:', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: (error as any)?.code || 'No code',
+      stack: error instanceof Error ? error.stack : 'No stack'
+    });
+    return null;
+  }
+};
+
+export const firestoreDb = initializeFirestore();
+
+// 컬렉션 레퍼런스
+const COLLECTIONS = {
+  DESIGNERS: 'designers',
+  DESIGNER_SLUGS: 'designerSlugs',
+  STYLES: 'styles',                 // designers/{uid}/styles/{styleId}
+  USERS: 'users',
+  CLIENTS: 'clients',
+  FAVORITES: 'favorites',
+  SEARCH_HISTORY: 'searchHistory',
+  TRYON_HISTORY: 'tryonHistory',
+  TRYON_CACHE: 'tryonCache',
+  TRYON_LEDGER: 'tryonLedger',
+  TRIAL_RESULTS: 'trialResults',    // designers/{uid}/trialResults/{자동 ID}
+  ANALYTICS_EVENTS: 'analyticsEvents',
+  ANALYTICS_DAILY: 'analyticsDaily'   // 문서 ID: {designerId}_{YYYY-MM-DD}
+} as const;
+
+// 한 번에 커밋할 수 있는 쓰기 수 (Firestore 제한 500)
+const MAX_BATCH_WRITES = 500;
+
+// undefined 값 제거 함수 (Firestore는 undefined 필드를 저장하지 못함)
+// 배열과 일반 객체만 따라 들어가고, Date / Timestamp 같은 클래스 인스턴스는 그대로 둠
+const removeUndefinedFields = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(item => removeUndefinedFields<unknown>(item)) as T;
+  }
+
+  if (value === null || typeof value !== 'object') return value;
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) return value;
+
+  const cleaned: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, field]) => {
+    if (field !== undefined) {
+      cleaned[key] = removeUndefinedFields<unknown>(field);
+    }
+  });
+  return cleaned as T;
+};
+
+const stylesCollection = (db: Firestore, designerId: string) => {
+  return collection(db, COLLECTIONS.DESIGNERS, designerId, COLLECTIONS.STYLES);
+};
+
+// 스타일 시각은 서버 시각(Timestamp)으로 저장하고, 읽을 때 앱에서 쓰는 ISO 문자열로 변환
+const toIsoString = (value: unknown): string | undefined => {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  return typeof value === 'string' ? value : undefined;
+};
+
+const fromStyleData = (styleId: string, data: DocumentData): Hairstyle => ({
+  ...(data as Hairstyle),
+  id: styleId,
+  uploadedAt: data.uploadedAt instanceof Timestamp ? data.uploadedAt.toDate() : data.uploadedAt,
+  createdAt: toIsoString(data.createdAt),
+  updatedAt: toIsoString(data.updatedAt)
+});
+
+// 스타일 문서 내용 - 생성 시각이 없으면 서버 시각으로 기록
+const toStyleData = (style: Hairstyle): DocumentData => {
+  const { createdAt, updatedAt, ...fields } = style;
+  return {
+    ...removeUndefinedFields(fields),
+    createdAt: createdAt ? Timestamp.fromDate(new Date(createdAt)) : serverTimestamp(),
+    updatedAt: serverTimestamp()
+  };
+};
+
+const createFirestoreDesignerRepository = (db: Firestore, mirror: DesignerRepository): DesignerRepository => ({
+  getDesigner: async (designerId) => {
+    try {
+      const designerSnap = await getDoc(doc(db, COLLECTIONS.DESIGNERS, designerId));
+      return designerSnap.exists() ? designerSnap.data() as DesignerDocument : null;
+    } catch (error) {
+      console.error('❌ Error getting designer data from Firebase, using local copy:', error);
+      return mirror.getDesigner(designerId);
+    }
+  },
+
+  listDesigners: async () => {
+    try {
+      const snapshot = await getDocs(collection(db, COLLECTIONS.DESIGNERS));
+      return snapshot.docs.map(designerDoc => ({
+        designerId: designerDoc.id,
+        data: designerDoc.data() as DesignerDocument
+      }));
+    } catch (error) {
+      console.error('❌ Error listing designers from Firebase, using local copy:', error);
+      return mirror.listDesigners();
+    }
+  },
+
+  listDesignersByOwner: async (ownerUid) => {
+    const snapshot = await getDocs(query(collection(db, COLLECTIONS.DESIGNERS), where('ownerUid', '==', ownerUid)));
+    return snapshot.docs.map(designerDoc => ({
+      designerId: designerDoc.id,
+      data: designerDoc.data() as DesignerDocument
+    }));
+  },
+
+  saveDesigner: async (designerId, data) => {
+    const cleanedData = removeUndefinedFields(data);
+    await setDoc(doc(db, COLLECTIONS.DESIGNERS, designerId), cleanedData);
+    await mirror.saveDesigner(designerId, cleanedData);
+  },
+
+  // 주어진 최상위 항목만 통째로 교체 - 통계처럼 다른 곳에서 올리는 값은 덮어쓰지 않음
+  updateDesigner: async (designerId, fields) => {
+    const cleanedFields = removeUndefinedFields(fields);
+    await setDoc(doc(db, COLLECTIONS.DESIGNERS, designerId), cleanedFields, {
+      mergeFields: Object.keys(cleanedFields)
+    });
+    await mirror.updateDesigner(designerId, cleanedFields);
+  },
+
+  deleteDesigner: async (designerId) => {
+    await deleteDoc(doc(db, COLLECTIONS.DESIGNERS, designerId));
+    await mirror.deleteDesigner(designerId);
+  },
+
+  listStyles: async (designerId) => {
+    try {
+      const snapshot = await getDocs(stylesCollection(db, designerId));
+      return snapshot.docs.map(styleDoc => fromStyleData(styleDoc.id, styleDoc.data()));
+    } catch (error) {
+      console.error('❌ Error listing styles from Firebase, using local copy:', error);
+      return mirror.listStyles(designerId);
+    }
+  },
+
+  listAllStyles: async () => {
+    try {
+      const snapshot = await getDocs(collectionGroup(db, COLLECTIONS.STYLES));
+      return snapshot.docs
+        .filter(styleDoc => styleDoc.ref.parent.parent)
+        .map(styleDoc => ({
+          designerId: styleDoc.ref.parent.parent!.id,
+          style: fromStyleData(styleDoc.id, styleDoc.data())
+        }));
+    } catch (error) {
+      console.error('❌ Error listing all styles from Firebase, using local copy:', error);
+      return mirror.listAllStyles();
+    }
+  },
+
+  // 스타일마다 문서 하나 - 다른 스타일을 건드리지 않아 여러 탭에서 동시에 수정해도 서로 덮어쓰지 않음
+  saveStyle: async (designerId, style) => {
+    await setDoc(doc(stylesCollection(db, designerId), style.id), toStyleData(style));
+    await mirror.saveStyle(designerId, style);
+  },
+
+  updateStyle: async (designerId, styleId, updates) => {
+    const styleRef = doc(stylesCollection(db, designerId), styleId);
+    const styleSnap = await getDoc(styleRef);
+    if (!styleSnap.exists()) return false;
+
+    // 바꾼 항목만 기록
+    const { id, createdAt, updatedAt, ...fields } = updates;
+    await updateDoc(styleRef, { ...removeUndefinedFields(fields), updatedAt: serverTimestamp() });
+    await mirror.saveStyle(designerId, { ...fromStyleData(styleId, styleSnap.data()), ...fields, id: styleId });
+    return true;
+  },
+
+  deleteStyle: async (designerId, styleId) => {
+    await deleteDoc(doc(stylesCollection(db, designerId), styleId));
+    await mirror.deleteStyle(designerId, styleId);
+  },
+
+  // 스타일 문서 쓰기와 portfolio 필드 삭제를 한 배치로 커밋 - 문서를 다시 쓰지 않아 그사이 올라간 통계 / 수정 내용을 유지
+  // 스타일이 많아 배치를 나누면 필드 삭제는 마지막 배치에 넣어, 중간에 실패해도 배열이 남아 다시 실행할 수 있음
+  moveEmbeddedPortfolio: async (designerId, styles) => {
+    const writesPerBatch = MAX_BATCH_WRITES - 1;
+    const batchCount = Math.max(1, Math.ceil(styles.length / writesPerBatch));
+    for (let index = 0; index < batchCount; index++) {
+      const batch = writeBatch(db);
+      styles.slice(index * writesPerBatch, (index + 1) * writesPerBatch).forEach(style => {
+        batch.set(doc(stylesCollection(db, designerId), style.id), toStyleData(style));
+      });
+      if (index === batchCount - 1) {
+        batch.update(doc(db, COLLECTIONS.DESIGNERS, designerId), {
+          portfolio: deleteField(),
+          updatedAt: new Date().toISOString()
+        });
+      }
+      await batch.commit();
+    }
+    await mirror.moveEmbeddedPortfolio(designerId, styles);
+  },
+
+  // 점으로 이은 문자열 경로 대신 FieldPath 사용 - 스타일 URL처럼 '.'이 들어간 키도 필드 하나로 다룸
+  updateStats: async (designerId, update) => {
+    const moreFieldsAndValues: unknown[] = [];
+    Object.entries(update.set || {}).forEach(([key, value]) => {
+      if (value !== undefined) moreFieldsAndValues.push(new FieldPath('stats', key), removeUndefinedFields(value));
+    });
+    (update.increment || []).forEach(({ path, amount }) => {
+      moreFieldsAndValues.push(new FieldPath('stats', ...path), increment(amount));
+    });
+
+    await updateDoc(
+      doc(db, COLLECTIONS.DESIGNERS, designerId),
+      'updatedAt', new Date().toISOString(),
+      ...moreFieldsAndValues
+    );
+  },
+
+  // 결과마다 문서 하나 - 동시에 여러 고객이 기록해도 서로 덮어쓰지 않고 디자이너 문서 크기도 늘지 않음
+  addTrialResult: async (designerId, result) => {
+    const cleanedResult = removeUndefinedFields(result);
+    await setDoc(doc(collection(db, COLLECTIONS.DESIGNERS, designerId, COLLECTIONS.TRIAL_RESULTS)), cleanedResult);
+    await mirror.addTrialResult(designerId, cleanedResult);
+  },
+
+  listTrialResults: async (designerId, limitCount) => {
+    try {
+      const q = query(
+        collection(db, COLLECTIONS.DESIGNERS, designerId, COLLECTIONS.TRIAL_RESULTS),
+        orderBy('timestamp', 'desc'),
+        firestoreLimit(limitCount)
+      );
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(resultDoc => resultDoc.data() as TrialResult);
+    } catch (error) {
+      console.error('❌ Error listing trial results from Firebase, using local copy:', error);
+      return mirror.listTrialResults(designerId, limitCount);
+    }
+  },
+
+  getTryOnCacheEntry: async (cacheKey) => {
+    const cacheDoc = await getDoc(doc(db, COLLECTIONS.TRYON_CACHE, cacheKey));
+    return cacheDoc.exists() ? (cacheDoc.data() as TryOnCacheEntry) : null;
+  },
+
+  saveTryOnCacheEntry: async (entry) => {
+    await setDoc(doc(db, COLLECTIONS.TRYON_CACHE, entry.cacheKey), removeUndefinedFields(entry));
+    return true;
+  },
+
+  saveTryOnLedgerEntry: async (entry) => {
+    await setDoc(doc(db, COLLECTIONS.TRYON_LEDGER, entry.taskId), removeUndefinedFields(entry));
+  },
+
+  updateTryOnLedgerEntry: async (taskId, updates) => {
+    const ledgerRef = doc(db, COLLECTIONS.TRYON_LEDGER, taskId);
+    const ledgerDoc = await getDoc(ledgerRef);
+    if (!ledgerDoc.exists()) return false;
+
+    await updateDoc(ledgerRef, removeUndefinedFields(updates));
+    return true;
+  },
+
+  getTryOnLedger: async (designerId, sinceIso) => {
+    const q = query(
+      collection(db, COLLECTIONS.TRYON_LEDGER),
+      where('designerName', '==', designerId),
+      where('createdAt', '>=', sinceIso),
+      orderBy('createdAt', 'desc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(ledgerDoc => ledgerDoc.data() as TryOnLedgerEntry);
+  },
+
+  getDesignerIdBySlug: async (slug) => {
+    try {
+      const slugSnap = await getDoc(doc(db, COLLECTIONS.DESIGNER_SLUGS, slug));
+      return slugSnap.exists() ? (slugSnap.data().designerId as string) : null;
+    } catch (error) {
+      console.error('❌ Error resolving designer slug from Firebase, using local copy:', error);
+      return mirror.getDesignerIdBySlug(slug);
+    }
+  },
+
+  // 주소 문서(designerSlugs/{slug})를 트랜잭션으로 만들어 두 디자이너가 같은 주소를 동시에 가져가지 못하게 함
+  claimSlug: async (slug, designerId) => {
+    const slugRef = doc(db, COLLECTIONS.DESIGNER_SLUGS, slug);
+    const claimed = await runTransaction(db, async (transaction) => {
+      const slugSnap = await transaction.get(slugRef);
+      if (slugSnap.exists()) {
+        return slugSnap.data().designerId === designerId;
+      }
+      transaction.set(slugRef, { designerId, createdAt: new Date().toISOString() });
+      return true;
+    });
+
+    if (claimed) await mirror.claimSlug(slug, designerId);
+    return claimed;
+  },
+
+  releaseSlug: async (slug, designerId) => {
+    const slugRef = doc(db, COLLECTIONS.DESIGNER_SLUGS, slug);
+    await runTransaction(db, async (transaction) => {
+      const slugSnap = await transaction.get(slugRef);
+      if (slugSnap.exists() && slugSnap.data().designerId === designerId) {
+        transaction.delete(slugRef);
+      }
+    });
+    await mirror.releaseSlug(slug, designerId);
+  }
+});
+
+const createFirestoreClientRepository = (db: Firestore): ClientRepository => ({
+  getUser: async (userId) => {
+    const userSnap = await getDoc(doc(db, COLLECTIONS.USERS, userId));
+    return userSnap.exists() ? userSnap.data() as User : null;
+  },
+
+  saveUser: async (user) => {
+    await setDoc(doc(db, COLLECTIONS.USERS, user.userId), removeUndefinedFields(user));
+  },
+
+  getClientProfile: async (userId) => {
+    const clientSnap = await getDoc(doc(db, COLLECTIONS.CLIENTS, userId));
+    return clientSnap.exists() ? clientSnap.data() as ClientProfile : null;
+  },
+
+  saveClientProfile: async (profile) => {
+    await setDoc(doc(db, COLLECTIONS.CLIENTS, profile.userId), removeUndefinedFields(profile));
+  },
+
+  addFavorite: async (favorite) => {
+    await setDoc(doc(db, COLLECTIONS.FAVORITES, favorite.id), removeUndefinedFields(favorite));
+  },
+
+  getFavorites: async (userId) => {
+    const q = query(
+      collection(db, COLLECTIONS.FAVORITES),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(favoriteDoc => favoriteDoc.data() as Favorite);
+  },
+
+  removeFavorite: async (favoriteId) => {
+    await deleteDoc(doc(db, COLLECTIONS.FAVORITES, favoriteId));
+  },
+
+  addTryOnHistory: async (history) => {
+    await setDoc(doc(db, COLLECTIONS.TRYON_HISTORY, history.id), removeUndefinedFields(history));
+  },
+
+  getTryOnHistory: async (userId, limitCount) => {
+    const q = query(
+      collection(db, COLLECTIONS.TRYON_HISTORY),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc'),
+      firestoreLimit(limitCount)
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(historyDoc => historyDoc.data() as TryOnHistory);
+  }
+});
+
+const createFirestoreAnalyticsRepository = (db: Firestore): AnalyticsRepository => ({
+  addEvent: async (event) => {
+    await setDoc(doc(db, COLLECTIONS.ANALYTICS_EVENTS, event.id), removeUndefinedFields(event));
+  },
+
+  listEvents: async (designerId, startIso, endIso) => {
+    const q = query(
+      collection(db, COLLECTIONS.ANALYTICS_EVENTS),
+      where('designerId', '==', designerId),
+      where('timestamp', '>=', startIso),
+      where('timestamp', '<', endIso),
+      orderBy('timestamp', 'asc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(eventDoc => eventDoc.data() as AnalyticsEvent);
+  },
+
+  listDailyRollups: async (designerId, startDate, endDate) => {
+    const q = query(
+      collection(db, COLLECTIONS.ANALYTICS_DAILY),
+      where('designerId', '==', designerId),
+      where('date', '>=', startDate),
+      where('date', '<=', endDate),
+      orderBy('date', 'asc')
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map(rollupDoc => rollupDoc.data() as AnalyticsDailyRollup);
+  },
+
+  saveDailyRollups: async (rollups) => {
+    for (let start = 0; start < rollups.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      rollups.slice(start, start + MAX_BATCH_WRITES).forEach(rollup => {
+        batch.set(doc(db, COLLECTIONS.ANALYTICS_DAILY, `${rollup.designerId}_${rollup.date}`), removeUndefinedFields(rollup));
+      });
+      await batch.commit();
+    }
+  }
+});
+
+/**
+ * Firestore 저장소 생성
+ * @param mirror 디자이너 데이터 사본 저장소 (저장할 때 함께 기록, Firestore 조회 실패 시 사용)
+ */
+export const createFirestoreRepositories = (db: Firestore, mirror: DesignerRepository): Repositories => ({
+  kind: 'firestore',
+  designers: createFirestoreDesignerRepository(db, mirror),
+  clients: createFirestoreClientRepository(db),
+  analytics: createFirestoreAnalyticsRepository(db)
+});
@@ -0,0 +1,62 @@
+// 염색 가상체험 테스트 - 머리카락 영역을 찾지 못하면 사진 전체를 칠하지 않고 TryOnNoHairDetectedError
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import GeminiColorTryOnService, { ColorTryOnRequest } from './geminiColorService';
+import { recolorHair } from './hairRecolorService';
+import { segmentHair } from './hairSegmentationService';
+import { TryOnNoHairDetectedError } from './tryOnErrors';
+
+vi.mock('./hairSegmentationService', () => ({
+  segmentHair: vi.fn(async () => null)
+}));
+
+vi.mock('./hairRecolorService', () => ({
+  recolorHair: vi.fn(async () => 'blob:recolored')
+}));
+
+const request: ColorTryOnRequest = {
+  userPhotoUrl: 'https://example.com/user.jpg',
+  colorStyleUrl: 'https://example.com/style.jpg',
+  colorType: 'full-color',
+  intensity: 'medium'
+};
+
+describe('GeminiColorTryOnService 머리카락 영역 없음', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // Gemini 호출은 모두 실패, 사진은 정상 로드
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => (
+      url.includes('generativelanguage')
+        ? new Response('API error', { status: 500 })
+        : new Response(new Blob(['photo'], { type: 'image/jpeg' }))
+    )));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.mocked(segmentHair).mockClear();
+    vi.mocked(recolorHair).mockClear();
+  });
+
+  it('데모 모드는 미리보기 없이 TryOnNoHairDetectedError', async () => {
+    vi.stubEnv('VITE_GEMINI_API_KEY', '');
+
+    await expect(new GeminiColorTryOnService().tryOnHairColor(request)).rejects.toBeInstanceOf(TryOnNoHairDetectedError);
+    expect(recolorHair).not.toHaveBeenCalled();
+  });
+
+  it('AI 변환이 실패해도 로컬 염색을 다시 시도하지 않고 같은 오류', async () => {
+    vi.stubEnv('VITE_GEMINI_API_KEY', 'test-key');
+
+    const error = await new GeminiColorTryOnService().tryOnHairColor(request).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(TryOnNoHairDetectedError);
+    expect(error).toMatchObject({ code: 'no-hair-detected', action: 'change-photo' });
+    expect(recolorHair).not.toHaveBeenCalled();
+    // 로컬 염색을 두 번 시도하지 않으므로 사진 분할도 한 번
+    expect(vi.mocked(segmentHair).mock.calls.length).toBe(1);
+  });
+});
@@ -1,4 +1,9 @@
 import { useState } from 'react';
+import { getGeminiEndpoint } from './apiConfig';
+import { ColorTryOnResultKind, HairLengthClass, HairMask, HairSegmentation } from '../types';
+import { recolorHair } from './hairRecolorService';
+import { segmentHair } from './hairSegmentationService';
+import { toTryOnError, TryOnError, TryOnNoHairDetectedError } from './tryOnErrors';
 
 // 타입 정의
 export interface ColorTryOnRequest {
@@ -8,10 +13,12 @@ export interface ColorTryOnRequest {
   intensity: 'light' | 'medium' | 'bold';
   colorHex?: string;
   colorName?: string;
+  hairSegmentation?: HairSegmentation;  // 얼굴 분석에서 얻은 머리카락 영역 (userPhotoUrl과 같은 사진일 때만)
 }
 
 export interface ColorTryOnResult {
   resultImageUrl: string;
+  resultKind: ColorTryOnResultKind;  // AI 생성 이미지인지, 로컬 염색 미리보기인지
   confidence: number;
   processingTime: number;
   apiCallsUsed: number;
@@ -46,11 +53,19 @@ interface SkinToneAnalysis {
   avoidColors: string[];
 }
 
+const HAIR_LENGTH_DESCRIPTIONS: Record<HairLengthClass, string> = {
+  buzz: 'buzz cut',
+  short: 'short (above the jawline)',
+  bob: 'bob (jaw to neck)',
+  medium: 'medium (neck to shoulders)',
+  long: 'long (below the shoulders)'
+};
+
 // Gemini Color Try-On Service - Gemini Vision 사용
 class GeminiColorTryOnService {
   private apiKey: string;
-  private analysisEndpoint: string = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent';
-  private imageGenerationEndpoint: string = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image-preview:generateContent';
+  private analysisEndpoint: string = getGeminiEndpoint('gemini-2.5-flash');
+  private imageGenerationEndpoint: string = getGeminiEndpoint('gemini-2.5-flash-image-preview');
   
   private colorCache = new Map<string, string>();
   private callTimestamps: number[] = [];
@@ -129,12 +144,12 @@ class GeminiColorTryOnService {
 
   async tryOnHairColor(request: ColorTryOnRequest): Promise<ColorTryOnResult> {
     let apiCallsUsed = 0;
+    const startTime = Date.now();
     
     try {
-      const startTime = Date.now();
 
       if (!this.apiKey || this.apiKey === 'your_gemini_api_key_here') {
-        return this.createDemoResult(request, startTime);
+        return await this.createLocalResult(request, startTime, 'demo');
       }
 
       // 1. 포트폴리오 색상 분석
@@ -145,6 +160,13 @@ class GeminiColorTryOnService {
       const { hairAnalysis, skinToneAnalysis } = await this.analyzeUserPhotoForHairAndSkinTone(request.userPhotoUrl);
       apiCallsUsed++;
 
+      // 얼굴 분석에서 측정한 현재 머리 상태가 있으면 우선 사용
+      if (request.hairSegmentation) {
+        const { color, lengthClass } = request.hairSegmentation;
+        if (color) hairAnalysis.currentColor = color.hex;
+        if (lengthClass) hairAnalysis.length = HAIR_LENGTH_DESCRIPTIONS[lengthClass];
+      }
+
       // 3. 폴백 색상 처리
       if (colorAnalysis.dominantColors.includes("#8B4513") && colorAnalysis.technique === "full-color") {
         const recommendedColors = this.getRecommendedColorsBySkinTone(skinToneAnalysis.type);
@@ -154,7 +176,7 @@ class GeminiColorTryOnService {
       
       // 4. 염색 이미지 생성
       await this.waitForAvailableSlot();
-      const resultImageUrl = await this.processColorTransformation(
+      const { imageUrl: resultImageUrl, resultKind } = await this.processColorTransformation(
         request.userPhotoUrl,
         hairAnalysis,
         colorAnalysis,
@@ -170,10 +192,11 @@ class GeminiColorTryOnService {
 
       const processingTime = Date.now() - startTime;
 
-      console.log(`✅ 염색 체험 완료! API 호출: ${apiCallsUsed}회`);
+      console.log(`✅ 염색 체험 완료! API 호출: ${apiCallsUsed}회, 결과: ${resultKind}`);
 
       return {
         resultImageUrl,
+        resultKind,
         confidence: this.calculateConfidence(hairAnalysis, colorAnalysis),
         processingTime,
         apiCallsUsed,
@@ -186,10 +209,15 @@ class GeminiColorTryOnService {
 
     } catch (error) {
       console.error('❌ Color try-on failed:', error);
+
+      // 머리카락을 찾지 못한 경우 등 원인이 분명한 오류는 로컬 염색으로 다시 시도하지 않음
+      if (error instanceof TryOnError) {
+        throw error;
+      }
       
       if (error instanceof Error && (error.message.includes('API') || error.message.includes('파싱'))) {
-        console.warn('⚠️ AI 분석 오류 발생, 데모 모드로 전환합니다.');
-        return { ...this.createDemoResult(request, Date.now()), apiCallsUsed };
+        console.warn('⚠️ AI 분석 오류 발생, 로컬 염색으로 전환합니다.');
+        return { ...(await this.createLocalResult(request, startTime, 'fallback')), apiCallsUsed };
       }
       
       throw new Error('염색 가상체험 처리 중 오류가 발생했습니다: ' + (error as Error).message);
@@ -436,16 +464,35 @@ Rules:
     }
   }
 
+  // 머리카락 마스크(알파) → 검정 배경 흰색 머리카락 JPEG (base64)
+  private async createHairMaskImage(mask: HairMask): Promise<string> {
+    const image = new Image();
+    image.src = mask.dataUrl;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('캔버스를 사용할 수 없습니다.');
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0);
+    return canvas.toDataURL('image/jpeg').split(',')[1];
+  }
+
   private async processColorTransformation(
     originalImageUrl: string,
     hairAnalysis: HairAnalysis,
     colorAnalysis: ColorAnalysis,
     request: ColorTryOnRequest
-  ): Promise<string> {
+  ): Promise<{ imageUrl: string; resultKind: ColorTryOnResultKind }> {
+    const targetColors = request.colorHex 
+      ? [request.colorHex, ...colorAnalysis.dominantColors].slice(0, 3)
+      : colorAnalysis.dominantColors;
+
     try {
-      const targetColors = request.colorHex 
-        ? [request.colorHex, ...colorAnalysis.dominantColors].slice(0, 3)
-        : colorAnalysis.dominantColors;
       
       const colorDescription = request.colorName 
         ? `${request.colorName} (${targetColors.join(', ')})`
@@ -466,12 +513,20 @@ INTENSITY: ${request.intensity}
 4. DO NOT: change haircut, add/remove hair, modify texture
 5. Result must be photorealistic
 
-Apply ${request.colorType} technique with ${request.intensity} intensity.
+${request.hairSegmentation?.mask ? `HAIR MASK: The second image is a mask of the same photo. White = hair, black = not hair.
+Recolor ONLY the white area of the mask.
+` : ''}Apply ${request.colorType} technique with ${request.intensity} intensity.
 Transform ONLY the hair color from ${hairAnalysis.currentColor} to target colors.
 Keep everything else identical.
 `;
 
       const imageData = await this.fetchImageAsBase64(originalImageUrl);
+      const maskData = request.hairSegmentation?.mask
+        ? await this.createHairMaskImage(request.hairSegmentation.mask).catch((error) => {
+            console.warn('⚠️ 머리카락 마스크 변환 실패, 마스크 없이 진행:', error);
+            return null;
+          })
+        : null;
       
       const response = await fetch(`${this.imageGenerationEndpoint}?key=${this.apiKey}`, {
         method: 'POST',
@@ -480,7 +535,8 @@ Keep everything else identical.
           contents: [{
             parts: [
               { text: transformationPrompt },
-              { inline_data: { mime_type: "image/jpeg", data: imageData } }
+              { inline_data: { mime_type: "image/jpeg", data: imageData } },
+              ...(maskData ? [{ inline_data: { mime_type: "image/jpeg", data: maskData } }] : [])
             ]
           }],
           generationConfig: {
@@ -523,27 +579,63 @@ Keep everything else identical.
             const blobUrl = URL.createObjectURL(blob);
             
             console.log('✅ 염색 이미지 생성 성공');
-            return blobUrl;
+            return { imageUrl: blobUrl, resultKind: 'generated' };
           }
         }
       }
 
-      console.warn('⚠️ 이미지 생성 실패, 원본 반환');
-      return originalImageUrl;
+      console.warn('⚠️ 이미지 생성 실패, 로컬 염색으로 대체');
+    } catch (error) {
+      console.error('❌ 이미지 변환 중 오류, 로컬 염색으로 대체:', error);
+    }
 
+    const imageUrl = await recolorHair({
+      imageUrl: originalImageUrl,
+      mask: await this.getHairMask(request),
+      targetColors,
+      technique: request.colorType,
+      intensity: request.intensity
+    });
+    return { imageUrl, resultKind: 'fallback' };
+  }
+
+  // 포트폴리오 사진에서 머리카락 색상 추출 (실패하면 null)
+  private async getStyleHairColor(colorStyleUrl: string): Promise<string | null> {
+    try {
+      const response = await fetch(colorStyleUrl);
+      if (!response.ok) return null;
+      const segmentation = await segmentHair(await response.blob());
+      return segmentation?.color?.hex || null;
     } catch (error) {
-      console.error('❌ 이미지 변환 중 오류:', error);
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      return originalImageUrl;
+      console.warn('⚠️ 스타일 사진 머리색 추출 실패:', error);
+      return null;
     }
   }
 
-  private createDemoResult(request: ColorTryOnRequest, startTime: number): ColorTryOnResult {
-    const processingTime = Date.now() - startTime + 2500;
-    
-    const demoResults = {
+  // 얼굴 분석의 마스크가 없으면(모달에서 새로 올린 사진) 여기서 분할
+  // 분할할 수 없으면 사진 전체에 색을 입히지 않고 TryOnNoHairDetectedError
+  private async getHairMask(request: ColorTryOnRequest): Promise<HairMask> {
+    if (request.hairSegmentation?.mask) return request.hairSegmentation.mask;
+
+    const response = await fetch(request.userPhotoUrl);
+    if (!response.ok) {
+      throw new Error(`이미지 로드 실패: ${response.status}`);
+    }
+    const segmentation = await segmentHair(await response.blob());
+    if (!segmentation) {
+      throw new TryOnNoHairDetectedError();
+    }
+    return segmentation.mask;
+  }
+
+  // API 키가 없거나(demo) AI 분석이 실패했을 때(fallback) - 기법별 기본 색상으로 로컬 염색
+  private async createLocalResult(
+    request: ColorTryOnRequest,
+    startTime: number,
+    resultKind: Exclude<ColorTryOnResultKind, 'generated'>
+  ): Promise<ColorTryOnResult> {
+    const localResults = {
       'highlight': {
-        resultImageUrl: 'https://images.unsplash.com/photo-1580618672591-eb180b1a973f?w=400&h=600&fit=crop',
         dominantColors: ['#D4AF37', '#F4E4BC'],
         skinToneMatch: 'excellent' as const,
         recommendations: [
@@ -553,7 +645,6 @@ Keep everything else identical.
         ]
       },
       'full-color': {
-        resultImageUrl: 'https://images.unsplash.com/photo-1594736797933-d0501ba2fe65?w=400&h=500&fit=crop',
         dominantColors: ['#8B4513', '#D2691E'],
         skinToneMatch: 'good' as const,
         recommendations: [
@@ -563,7 +654,6 @@ Keep everything else identical.
         ]
       },
       'ombre': {
-        resultImageUrl: 'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=400&h=550&fit=crop',
         dominantColors: ['#2F1B14', '#D4AF37'],
         skinToneMatch: 'good' as const,
         recommendations: [
@@ -573,7 +663,6 @@ Keep everything else identical.
         ]
       },
       'balayage': {
-        resultImageUrl: 'https://images.unsplash.com/photo-1487412912498-0447578fcca8?w=400&h=650&fit=crop',
         dominantColors: ['#6B4423', '#F4E4BC'],
         skinToneMatch: 'excellent' as const,
         recommendations: [
@@ -584,17 +673,31 @@ Keep everything else identical.
       }
     };
 
-    const demo = demoResults[request.colorType] || demoResults['full-color'];
-    
+    const local = localResults[request.colorType] || localResults['full-color'];
+    // 지정 색상 → 스타일 사진의 머리색 → 기법별 기본 색상 순
+    const primaryColor = request.colorHex || await this.getStyleHairColor(request.colorStyleUrl);
+    const dominantColors = primaryColor
+      ? [primaryColor, ...local.dominantColors].slice(0, 3)
+      : local.dominantColors;
+
+    const resultImageUrl = await recolorHair({
+      imageUrl: request.userPhotoUrl,
+      mask: await this.getHairMask(request),
+      targetColors: dominantColors,
+      technique: request.colorType,
+      intensity: request.intensity
+    });
+
     return {
-      resultImageUrl: demo.resultImageUrl,
+      resultImageUrl,
+      resultKind,
       confidence: 0.85,
-      processingTime,
+      processingTime: Date.now() - startTime,
       apiCallsUsed: 0,
       colorAnalysis: {
-        dominantColors: demo.dominantColors,
-        skinToneMatch: demo.skinToneMatch,
-        recommendations: demo.recommendations
+        dominantColors,
+        skinToneMatch: local.skinToneMatch,
+        recommendations: local.recommendations
       }
     };
   }
@@ -646,9 +749,9 @@ Keep everything else identical.
 export const useColorTryOn = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [result, setResult] = useState<ColorTryOnResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<TryOnError | null>(null);
 
-  const tryOnColor = async (request: ColorTryOnRequest) => {
+  const tryOnColor = async (request: ColorTryOnRequest): Promise<ColorTryOnResult | null> => {
     setIsProcessing(true);
     setError(null);
     setResult(null);
@@ -659,10 +762,11 @@ export const useColorTryOn = () => {
       setResult(colorResult);
       
       console.log(`📊 API 호출 횟수: ${colorResult.apiCallsUsed}회`);
+      return colorResult;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : '알 수 없는 오류가 발생했습니다.';
-      setError(errorMessage);
+      setError(toTryOnError(err));
       console.error('❌ Color try-on error:', err);
+      return null;
     } finally {
       setIsProcessing(false);
     }
@@ -0,0 +1,317 @@
+// 캔버스 기반 머리카락 염색 - 머리카락 마스크 안에서만 LAB 색조를 바꾸는 결정적(같은 입력 → 같은 결과) 로컬 엔진
+// Gemini 이미지 API 없이 동작하므로 데모 모드와 API 실패 시 대체 결과로 사용
+import { HairMask } from '../types';
+
+export type RecolorTechnique = 'highlight' | 'full-color' | 'ombre' | 'balayage';
+export type RecolorIntensity = 'light' | 'medium' | 'bold';
+
+export interface HairRecolorOptions {
+  imageUrl: string;
+  mask: HairMask;
+  targetColors: string[];          // hex, 첫 번째가 주 색상 (옴브레/발레아쥬는 순서대로 끝으로 갈수록)
+  technique: RecolorTechnique;
+  intensity: RecolorIntensity;
+}
+
+type Lab = [number, number, number];
+
+// 결과 이미지 최대 크기
+const MAX_OUTPUT_SIZE = 1280;
+const OUTPUT_QUALITY = 0.92;
+
+const MIN_MASK_ALPHA = 0.02;       // 이보다 낮으면 머리카락이 아닌 것으로 보고 건너뜀
+const HAIR_ROW_ALPHA = 0.5;        // 머리 위/아래 끝을 찾을 때 기준
+
+// 강도별 색 적용 비율 (색도 a/b, 명도 L)
+const INTENSITY_STRENGTH: Record<RecolorIntensity, { chroma: number; lightness: number }> = {
+  light: { chroma: 0.45, lightness: 0.35 },
+  medium: { chroma: 0.7, lightness: 0.6 },
+  bold: { chroma: 0.92, lightness: 0.85 }
+};
+
+// 하이라이트 가닥 비율 (강도별)
+const HIGHLIGHT_DENSITY: Record<RecolorIntensity, number> = {
+  light: 0.18,
+  medium: 0.3,
+  bold: 0.45
+};
+
+// 그라데이션 시작/끝 (머리 위 끝 = 0, 아래 끝 = 1)
+const GRADIENT_RANGE: Record<'ombre' | 'balayage', [number, number]> = {
+  ombre: [0.3, 0.75],
+  balayage: [0.1, 0.9]
+};
+
+// ============================================================================
+// 색 변환 (sRGB ↔ CIELAB, D65)
+// ============================================================================
+
+const WHITE = [0.95047, 1, 1.08883];
+
+const toLinear = (channel: number): number => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (value: number): number => {
+  const c = value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return Math.min(255, Math.max(0, Math.round(c * 255)));
+};
+
+const labF = (t: number): number => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+const labFInverse = (t: number): number => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+
+const rgbToLab = (r: number, g: number, b: number): Lab => {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+  const x = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / WHITE[0]);
+  const y = labF((0.2126 * lr + 0.7152 * lg + 0.0722 * lb) / WHITE[1]);
+  const z = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / WHITE[2]);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+};
+
+const labToRgb = ([l, a, b]: Lab): [number, number, number] => {
+  const fy = (l + 16) / 116;
+  const x = labFInverse(fy + a / 500) * WHITE[0];
+  const y = labFInverse(fy) * WHITE[1];
+  const z = labFInverse(fy - b / 200) * WHITE[2];
+  return [
+    fromLinear(3.2406 * x - 1.5372 * y - 0.4986 * z),
+    fromLinear(-0.9689 * x + 1.8758 * y + 0.0415 * z),
+    fromLinear(0.0557 * x - 0.204 * y + 1.057 * z)
+  ];
+};
+
+const hexToLab = (hex: string): Lab | null => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return rgbToLab((value >> 16) & 255, (value >> 8) & 255, value & 255);
+};
+
+const mixLab = (from: Lab, to: Lab, t: number): Lab => [
+  from[0] + (to[0] - from[0]) * t,
+  from[1] + (to[1] - from[1]) * t,
+  from[2] + (to[2] - from[2]) * t
+];
+
+const smoothstep = (edge0: number, edge1: number, x: number): number => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// 정수 → 0-1 고정 난수 (가닥 배치를 항상 같게)
+const hash01 = (n: number): number => {
+  let h = Math.imul(n ^ 0x9e3779b9, 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+// ============================================================================
+// 패턴 (픽셀별 색 적용 가중치와 목표 색)
+// ============================================================================
+
+interface HairBounds {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// 그라데이션 맵 - 목표 색 목록을 위치(0-1)에 따라 이어 붙임
+const sampleGradient = (colors: Lab[], t: number): Lab => {
+  if (colors.length === 1) return colors[0];
+  const position = Math.min(1, Math.max(0, t)) * (colors.length - 1);
+  const index = Math.min(colors.length - 2, Math.floor(position));
+  return mixLab(colors[index], colors[index + 1], position - index);
+};
+
+// 하이라이트 가닥 - 가로를 가는 띠로 나누고 일부만 밝게, 아래로 갈수록 살짝 휘게
+const getStreakWeight = (x: number, y: number, bounds: HairBounds, density: number): number => {
+  const width = Math.max(1, bounds.right - bounds.left);
+  const bandWidth = Math.max(3, width / 48);
+  const sway = Math.sin((y - bounds.top) / Math.max(1, bounds.bottom - bounds.top) * Math.PI) * bandWidth * 0.8;
+  const position = (x - bounds.left + sway) / bandWidth;
+  const band = Math.floor(position);
+  if (hash01(band) >= density) return 0;
+
+  // 띠 가장자리는 부드럽게
+  const offset = position - band;
+  return smoothstep(0, 0.3, offset) * smoothstep(1, 0.7, offset);
+};
+
+// 발레아쥬 붓질 - 가닥마다 다른 높이에서 시작하는 넓은 띠
+const getSweepWeight = (x: number, bounds: HairBounds): number => {
+  const width = Math.max(1, bounds.right - bounds.left);
+  const position = (x - bounds.left) / (width / 14);
+  const band = Math.floor(position);
+  const next = hash01(band + 1);
+  const current = hash01(band);
+  // 띠 사이는 이어지게 보간
+  const blend = smoothstep(0, 1, position - band);
+  return 0.55 + 0.45 * (current + (next - current) * blend);
+};
+
+const findHairBounds = (alpha: Float32Array, width: number, height: number): HairBounds | null => {
+  let top = height, bottom = -1, left = width, right = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (alpha[y * width + x] < HAIR_ROW_ALPHA) continue;
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+    }
+  }
+  return bottom < 0 ? null : { top, bottom, left, right };
+};
+
+// ============================================================================
+// 이미지 처리
+// ============================================================================
+
+const loadImage = async (url: string): Promise<HTMLImageElement> => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = url;
+  await image.decode();
+  return image;
+};
+
+// 마스크를 결과 크기로 늘려 알파(0-1)만 추출
+const readMaskAlpha = async (mask: HairMask, width: number, height: number): Promise<Float32Array> => {
+  const image = await loadImage(mask.dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('캔버스를 사용할 수 없습니다.');
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const alpha = new Float32Array(width * height);
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = data[i * 4 + 3] / 255;
+  }
+  return alpha;
+};
+
+/**
+ * 머리카락 마스크 영역만 염색한 이미지 (blob URL)
+ * 명도 차이(결, 그림자)는 유지하고 평균 명도와 색도만 목표 색으로 옮김
+ */
+export const recolorHair = async ({
+  imageUrl,
+  mask,
+  targetColors,
+  technique,
+  intensity
+}: HairRecolorOptions): Promise<string> => {
+  const targets = targetColors.map(hexToLab).filter((lab): lab is Lab => lab !== null);
+  if (targets.length === 0) {
+    throw new Error('염색할 색상이 올바르지 않습니다.');
+  }
+
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, MAX_OUTPUT_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('캔버스를 사용할 수 없습니다.');
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const alpha = await readMaskAlpha(mask, width, height);
+  const bounds = findHairBounds(alpha, width, height);
+  if (!bounds) {
+    throw new Error('사진에서 머리카락 영역을 찾지 못했습니다.');
+  }
+
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const { data } = pixels;
+
+  // 머리카락 평균 명도 - 목표 색과의 차이만큼 전체를 옮겨 명암 구조는 유지
+  let lightnessSum = 0;
+  let weightSum = 0;
+  const labs = new Float32Array(width * height * 3);
+  for (let i = 0; i < alpha.length; i++) {
+    if (alpha[i] < MIN_MASK_ALPHA) continue;
+    const [l, a, b] = rgbToLab(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    labs[i * 3] = l;
+    labs[i * 3 + 1] = a;
+    labs[i * 3 + 2] = b;
+    lightnessSum += l * alpha[i];
+    weightSum += alpha[i];
+  }
+  const meanLightness = weightSum > 0 ? lightnessSum / weightSum : 50;
+
+  const strength = INTENSITY_STRENGTH[intensity];
+  // 하이라이트는 가장 밝은 목표 색으로
+  const highlightTarget = targets.reduce((lightest, lab) => (lab[0] > lightest[0] ? lab : lightest));
+  const hairHeight = Math.max(1, bounds.bottom - bounds.top);
+
+  for (let y = 0; y < height; y++) {
+    const t = (y - bounds.top) / hairHeight;
+
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const maskAlpha = alpha[i];
+      if (maskAlpha < MIN_MASK_ALPHA) continue;
+
+      let weight: number;
+      let target: Lab;
+      switch (technique) {
+        case 'highlight':
+          weight = getStreakWeight(x, y, bounds, HIGHLIGHT_DENSITY[intensity]);
+          target = highlightTarget;
+          break;
+        case 'ombre': {
+          const [start, end] = GRADIENT_RANGE.ombre;
+          weight = smoothstep(start, end, t);
+          target = sampleGradient(targets, (t - start) / (1 - start));
+          break;
+        }
+        case 'balayage': {
+          const [start, end] = GRADIENT_RANGE.balayage;
+          weight = smoothstep(start, end, t) * getSweepWeight(x, bounds);
+          target = sampleGradient(targets, (t - start) / (1 - start));
+          break;
+        }
+        default:
+          weight = 1;
+          target = targets[0];
+      }
+      if (weight <= 0) continue;
+
+      const l = labs[i * 3];
+      const a = labs[i * 3 + 1];
+      const b = labs[i * 3 + 2];
+      const recolored = labToRgb([
+        l + (target[0] - meanLightness) * strength.lightness * weight,
+        a + (target[1] - a) * strength.chroma * weight,
+        b + (target[2] - b) * strength.chroma * weight
+      ]);
+
+      // 마스크 가장자리는 원본과 섞음
+      data[i * 4] = Math.round(data[i * 4] + (recolored[0] - data[i * 4]) * maskAlpha);
+      data[i * 4 + 1] = Math.round(data[i * 4 + 1] + (recolored[1] - data[i * 4 + 1]) * maskAlpha);
+      data[i * 4 + 2] = Math.round(data[i * 4 + 2] + (recolored[2] - data[i * 4 + 2]) * maskAlpha);
+    }
+  }
+
+  ctx.putImageData(pixels, 0, 0);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', OUTPUT_QUALITY));
+  if (!blob) {
+    throw new Error('염색 이미지를 만들지 못했습니다.');
+  }
+
+  console.log('🎨 로컬 염색 완료:', { technique, intensity, 색상: targetColors, 크기: `${width}x${height}` });
+  return URL.createObjectURL(blob);
+};
@@ -0,0 +1,36 @@
+// 머리카락 분할 - 모델 실행과 픽셀 처리는 얼굴 분석 워커에서 하고(faceAnalysis.worker.ts), 여기서는 워커 결과의 마스크를 화면용 dataURL로 변환
+// 마스크는 화면 표시 / 염색 합성에만 쓰고 저장하지 않음 (faceAnalysisSchema의 toStoredFaceAnalysis)
+import { HairMask, HairSegmentation } from '../types';
+import type { HairSegmentationWorkerResult } from './faceAnalysis.worker';
+import { segmentHairInWorker } from './faceMeshService';
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('머리카락 마스크 변환에 실패했습니다.'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * 워커 분할 결과 → 앱에서 쓰는 형태 (마스크 PNG → dataURL)
+ */
+export const toHairSegmentation = async (
+  result: HairSegmentationWorkerResult
+): Promise<HairSegmentation & { mask: HairMask }> => {
+  const { mask, ...rest } = result;
+  return {
+    ...rest,
+    mask: { width: mask.width, height: mask.height, dataUrl: await blobToDataUrl(mask.png) }
+  };
+};
+
+/**
+ * 머리카락 분할 (얼굴 분석 없이 사진만 있을 때 - 머리 길이는 null)
+ * @returns 모델을 불러오지 못하면 null
+ */
+export const segmentHair = async (image: Blob): Promise<(HairSegmentation & { mask: HairMask }) | null> => {
+  const { hair } = await segmentHairInWorker(image);
+  return hair ? toHairSegmentation(hair) : null;
+};
@@ -0,0 +1,202 @@
+// Gemini Vision 기반 헤어스타일 분석 서비스 (스타일 업로드 시 구조화 정보 생성)
+import {
+  HairFringe,
+  HairLengthClass,
+  HairParting,
+  HairTexture,
+  HairVolume,
+  HairstyleDescriptor
+} from '../types';
+import { getGeminiEndpoint } from './apiConfig';
+
+const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
+const ANALYSIS_ENDPOINT = getGeminiEndpoint('gemini-2.5-flash');
+
+// 허용 값 (응답 검증 + 프롬프트에 그대로 사용)
+const LENGTH_CLASSES: HairLengthClass[] = ['buzz', 'short', 'bob', 'medium', 'long'];
+const TEXTURES: HairTexture[] = ['straight', 'wavy', 'curly', 'coily'];
+const FRINGES: HairFringe[] = ['none', 'full', 'side', 'curtain', 'wispy'];
+const PARTINGS: HairParting[] = ['none', 'center', 'side'];
+const VOLUMES: HairVolume[] = ['flat', 'natural', 'voluminous'];
+
+// 검색용 한국어 키워드
+const LENGTH_KEYWORDS: Record<HairLengthClass, string> = {
+  buzz: '삭발',
+  short: '숏',
+  bob: '단발',
+  medium: '중단발',
+  long: '장발'
+};
+
+const TEXTURE_KEYWORDS: Record<HairTexture, string> = {
+  straight: '생머리',
+  wavy: '웨이브',
+  curly: '컬',
+  coily: '곱슬'
+};
+
+const FRINGE_KEYWORDS: Record<HairFringe, string | null> = {
+  none: null,
+  full: '풀뱅',
+  side: '옆머리',
+  curtain: '시스루뱅',
+  wispy: '잔머리'
+};
+
+const isGeminiConfigured = (): boolean => {
+  return !!GEMINI_API_KEY && GEMINI_API_KEY !== 'your_gemini_api_key_here';
+};
+
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(new Error('이미지 읽기에 실패했습니다.'));
+    reader.readAsDataURL(file);
+  });
+};
+
+const pick = <T extends string>(value: unknown, allowed: T[]): T => {
+  if (typeof value === 'string' && allowed.includes(value.toLowerCase() as T)) {
+    return value.toLowerCase() as T;
+  }
+  throw new Error(`예상하지 못한 분석 값: ${String(value)}`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const parseDescriptor = (raw: unknown): HairstyleDescriptor => {
+  if (!isRecord(raw)) {
+    throw new Error('분석 결과가 객체가 아닙니다.');
+  }
+
+  const color = isRecord(raw.color) ? raw.color : {};
+  const hex = typeof color.hex === 'string' && /^#[0-9a-f]{6}$/i.test(color.hex)
+    ? color.hex.toUpperCase()
+    : '#000000';
+
+  return {
+    length: pick(raw.length, LENGTH_CLASSES),
+    texture: pick(raw.texture, TEXTURES),
+    fringe: pick(raw.fringe, FRINGES),
+    parting: pick(raw.parting, PARTINGS),
+    volume: pick(raw.volume, VOLUMES),
+    color: {
+      name: typeof color.name === 'string' ? color.name.toLowerCase() : 'unknown',
+      hex
+    },
+    analyzedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * 헤어스타일 사진 분석 → 구조화 정보
+ * Gemini API 키가 없거나 분석에 실패하면 null (업로드는 그대로 진행)
+ */
+export const analyzeHairstyleImage = async (file: File): Promise<HairstyleDescriptor | null> => {
+  if (!isGeminiConfigured()) {
+    console.warn('VITE_GEMINI_API_KEY가 설정되지 않아 헤어스타일 분석을 건너뜁니다.');
+    return null;
+  }
+
+  try {
+    console.log('🔍 헤어스타일 분석 시작...');
+    const imageData = await fileToBase64(file);
+
+    const prompt = `Describe the hairstyle in this photo. Return ONLY this JSON:
+
+{
+  "length": "${LENGTH_CLASSES.join('|')}",
+  "texture": "${TEXTURES.join('|')}",
+  "fringe": "${FRINGES.join('|')}",
+  "parting": "${PARTINGS.join('|')}",
+  "volume": "${VOLUMES.join('|')}",
+  "color": { "name": "ash brown", "hex": "#6B5A4E" }
+}
+
+Rules: Pick exactly one value for each field. Use exact field names. No extra text.`;
+
+    const response = await fetch(`${ANALYSIS_ENDPOINT}?key=${GEMINI_API_KEY}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{
+          parts: [
+            { text: prompt },
+            { inline_data: { mime_type: file.type || 'image/jpeg', data: imageData } }
+          ]
+        }],
+        generationConfig: {
+          temperature: 0.1,
+          maxOutputTokens: 1000,
+          responseMimeType: 'application/json'
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gemini 헤어스타일 분석 실패: ${response.status}`);
+    }
+
+    const result = await response.json();
+    const text = (result.candidates?.[0]?.content?.parts || [])
+      .map((part: { text?: string }) => part.text || '')
+      .join('');
+
+    const descriptor = parseDescriptor(JSON.parse(text));
+    console.log('✅ 헤어스타일 분석 완료:', descriptor);
+    return descriptor;
+  } catch (error) {
+    console.error('❌ 헤어스타일 분석 실패:', error);
+    return null;
+  }
+};
+
+/**
+ * 가상체험 요청용 영문 설명 생성
+ * 예: "long wavy hair, curtain bangs, center part, voluminous, ash brown"
+ */
+export const describeHairstyle = (descriptor: HairstyleDescriptor): string => {
+  const parts = [
+    descriptor.length === 'buzz' ? 'buzz cut' : `${descriptor.length} ${descriptor.texture} hair`,
+    descriptor.fringe !== 'none' ? `${descriptor.fringe} bangs` : null,
+    descriptor.parting !== 'none' ? `${descriptor.parting} part` : null,
+    descriptor.volume !== 'natural' ? descriptor.volume : null,
+    descriptor.color.name !== 'unknown' ? descriptor.color.name : null
+  ];
+  return parts.filter(Boolean).join(', ');
+};
+
+/**
+ * 스타일 설명 - 저장된 구조화 정보 우선, 없으면 디자이너가 입력한 설명/이름
+ */
+export const getHairstyleDescription = (hairstyle: {
+  name: string;
+  description?: string;
+  descriptor?: HairstyleDescriptor;
+}): string => {
+  if (hairstyle.descriptor) {
+    return describeHairstyle(hairstyle.descriptor);
+  }
+  return hairstyle.description || hairstyle.name;
+};
+
+/**
+ * 검색용 키워드 (영문 값 + 한국어 키워드)
+ */
+export const getDescriptorKeywords = (descriptor?: HairstyleDescriptor): string[] => {
+  if (!descriptor) return [];
+
+  return [
+    descriptor.length,
+    descriptor.texture,
+    descriptor.fringe !== 'none' ? descriptor.fringe : null,
+    descriptor.volume,
+    descriptor.color.name,
+    LENGTH_KEYWORDS[descriptor.length],
+    TEXTURE_KEYWORDS[descriptor.texture],
+    FRINGE_KEYWORDS[descriptor.fringe]
+  ].filter((keyword): keyword is string => !!keyword);
+};
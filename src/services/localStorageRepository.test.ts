@@ -0,0 +1,318 @@
+// 저장소 계약 테스트 - 메모리 저장소(localStorage와 같은 구현)로 DesignerRepository 동작 확인
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, DEFAULT_STATS, DesignerDocument, DesignerRepository, Hairstyle, Repositories } from '../types';
+import { migrateEmbeddedPortfolio, migrateNameKeyedDesigner } from './designerMigrationService';
+import { createMemoryRepositories } from './localStorageRepository';
+import { setRepositories } from './repository';
+import {
+  addStyleToPortfolio,
+  getDesignerData,
+  removeStyleFromPortfolio,
+  savePortfolio,
+  trackTrialResult,
+  updateStyleInPortfolio
+} from './firebaseService';
+
+const DESIGNER_ID = 'designer-1';
+
+const createDesigner = (fields: Partial<DesignerDocument> = {}): DesignerDocument => ({
+  stats: { ...DEFAULT_STATS, styleViews: {}, bookings: {} },
+  settings: { ...DEFAULT_SETTINGS },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...fields
+});
+
+const createStyle = (id: string, fields: Partial<Hairstyle> = {}): Hairstyle & { id: string } => ({
+  id,
+  name: `Style ${id}`,
+  url: `https://example.com/${id}.jpg`,
+  ...fields
+});
+
+describe('DesignerRepository (memory)', () => {
+  let designers: DesignerRepository;
+
+  beforeEach(() => {
+    designers = createMemoryRepositories().designers;
+  });
+
+  describe('디자이너 문서', () => {
+    it('저장한 문서를 읽고, 없는 디자이너는 null', async () => {
+      await designers.saveDesigner(DESIGNER_ID, createDesigner({ profile: { name: 'Kim' } }));
+
+      expect((await designers.getDesigner(DESIGNER_ID))?.profile?.name).toBe('Kim');
+      expect(await designers.getDesigner('unknown')).toBeNull();
+      expect(await designers.listDesigners()).toHaveLength(1);
+    });
+
+    it('updateDesigner는 주어진 항목만 바꾸고 통계는 유지', async () => {
+      await designers.saveDesigner(DESIGNER_ID, createDesigner({ stats: { ...DEFAULT_STATS, visits: 3, styleViews: {}, bookings: {} } }));
+      await designers.updateDesigner(DESIGNER_ID, { profile: { name: 'Lee' } });
+
+      const saved = await designers.getDesigner(DESIGNER_ID);
+      expect(saved?.profile?.name).toBe('Lee');
+      expect(saved?.stats?.visits).toBe(3);
+      expect(saved?.settings).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('저장한 값은 호출 측 객체와 분리', async () => {
+      const designer = createDesigner({ profile: { name: 'Kim' } });
+      await designers.saveDesigner(DESIGNER_ID, designer);
+      designer.profile!.name = 'Changed';
+
+      expect((await designers.getDesigner(DESIGNER_ID))?.profile?.name).toBe('Kim');
+    });
+
+    it('deleteDesigner는 문서만 지우고 스타일은 남김', async () => {
+      await designers.saveDesigner(DESIGNER_ID, createDesigner());
+      await designers.saveStyle(DESIGNER_ID, createStyle('a'));
+      await designers.deleteDesigner(DESIGNER_ID);
+
+      expect(await designers.getDesigner(DESIGNER_ID)).toBeNull();
+      expect(await designers.listStyles(DESIGNER_ID)).toHaveLength(1);
+    });
+  });
+
+  describe('통계', () => {
+    it('increment는 중첩 경로의 숫자에 더하고 없는 경로는 0부터 시작', async () => {
+      await designers.saveDesigner(DESIGNER_ID, createDesigner());
+      await designers.updateStats(DESIGNER_ID, {
+        increment: [
+          { path: ['visits'], amount: 1 },
+          { path: ['styleViews', 'https://example.com/a.jpg'], amount: 1 },
+          { path: ['colorTryOnResults', 'demo'], amount: 2 }
+        ]
+      });
+      await designers.updateStats(DESIGNER_ID, {
+        increment: [
+          { path: ['visits'], amount: 1 },
+          { path: ['styleViews', 'https://example.com/a.jpg'], amount: 1 }
+        ]
+      });
+
+      const { stats } = (await designers.getDesigner(DESIGNER_ID))!;
+      expect(stats?.visits).toBe(2);
+      expect(stats?.styleViews).toEqual({ 'https://example.com/a.jpg': 2 });
+      expect(stats?.colorTryOnResults).toEqual({ demo: 2 });
+    });
+
+    it('set과 increment를 함께 적용하고 다른 항목은 유지', async () => {
+      await designers.saveDesigner(DESIGNER_ID, createDesigner({ stats: { ...DEFAULT_STATS, visits: 5, styleViews: {}, bookings: {} } }));
+      await designers.updateStats(DESIGNER_ID, {
+        set: { popularStyles: ['https://example.com/a.jpg'] },
+        increment: [{ path: ['bookings', 'https://example.com/a.jpg'], amount: 1 }]
+      });
+
+      const { stats } = (await designers.getDesigner(DESIGNER_ID))!;
+      expect(stats?.visits).toBe(5);
+      expect(stats?.popularStyles).toEqual(['https://example.com/a.jpg']);
+      expect(stats?.bookings).toEqual({ 'https://example.com/a.jpg': 1 });
+    });
+
+    it('디자이너가 없으면 예외', async () => {
+      await expect(designers.updateStats('unknown', { increment: [{ path: ['visits'], amount: 1 }] })).rejects.toThrow();
+    });
+
+    it('체험 결과는 최신순으로 읽음', async () => {
+      await designers.addTrialResult(DESIGNER_ID, { styleUrl: 'a', resultUrl: 'ra', timestamp: '2024-01-01T00:00:00.000Z' });
+      await designers.addTrialResult(DESIGNER_ID, { styleUrl: 'b', resultUrl: 'rb', timestamp: '2024-01-02T00:00:00.000Z' });
+
+      expect((await designers.listTrialResults(DESIGNER_ID, 10)).map(result => result.styleUrl)).toEqual(['b', 'a']);
+      expect(await designers.listTrialResults(DESIGNER_ID, 1)).toHaveLength(1);
+      expect(await designers.listTrialResults('designer-2', 10)).toEqual([]);
+    });
+  });
+
+  describe('스타일', () => {
+    it('saveStyle은 생성 시각을 기록하고, 같은 ID면 덮어쓰되 생성 시각은 유지', async () => {
+      await designers.saveStyle(DESIGNER_ID, createStyle('a', { createdAt: '2024-01-01T00:00:00.000Z' }));
+      await designers.saveStyle(DESIGNER_ID, createStyle('a', { name: 'Renamed', createdAt: '2024-01-01T00:00:00.000Z' }));
+
+      const styles = await designers.listStyles(DESIGNER_ID);
+      expect(styles).toHaveLength(1);
+      expect(styles[0].name).toBe('Renamed');
+      expect(styles[0].createdAt).toBe('2024-01-01T00:00:00.000Z');
+      expect(styles[0].updatedAt).toBeTruthy();
+    });
+
+    it('updateStyle은 주어진 항목만 바꾸고 ID / 생성 시각은 유지, 없는 스타일은 false', async () => {
+      await designers.saveStyle(DESIGNER_ID, createStyle('a', { createdAt: '2024-01-01T00:00:00.000Z' }));
+
+      expect(await designers.updateStyle(DESIGNER_ID, 'a', { name: 'Updated', id: 'other', createdAt: 'x' })).toBe(true);
+      expect(await designers.updateStyle(DESIGNER_ID, 'missing', { name: 'Updated' })).toBe(false);
+
+      const [style] = await designers.listStyles(DESIGNER_ID);
+      expect(style).toMatchObject({ id: 'a', name: 'Updated', url: 'https://example.com/a.jpg', createdAt: '2024-01-01T00:00:00.000Z' });
+    });
+
+    it('moveEmbeddedPortfolio는 스타일을 저장하고 문서에서 portfolio만 제거', async () => {
+      await designers.saveDesigner(DESIGNER_ID, createDesigner({ portfolio: [createStyle('a')], profile: { name: 'Kim' } }));
+      await designers.updateStats(DESIGNER_ID, { increment: [{ path: ['visits'], amount: 1 }] });
+      await designers.moveEmbeddedPortfolio(DESIGNER_ID, [createStyle('a', { order: 0 })]);
+
+      const saved = await designers.getDesigner(DESIGNER_ID);
+      expect(saved?.portfolio).toBeUndefined();
+      expect(saved?.profile?.name).toBe('Kim');
+      expect(saved?.stats?.visits).toBe(1);
+      expect((await designers.listStyles(DESIGNER_ID)).map(style => style.id)).toEqual(['a']);
+    });
+
+    it('deleteStyle은 해당 디자이너의 스타일만 삭제', async () => {
+      await designers.saveStyle(DESIGNER_ID, createStyle('a'));
+      await designers.saveStyle(DESIGNER_ID, createStyle('b'));
+      await designers.saveStyle('designer-2', createStyle('a'));
+      await designers.deleteStyle(DESIGNER_ID, 'a');
+
+      expect((await designers.listStyles(DESIGNER_ID)).map(style => style.id)).toEqual(['b']);
+      expect(await designers.listStyles('designer-2')).toHaveLength(1);
+      expect(await designers.listAllStyles()).toHaveLength(2);
+    });
+  });
+});
+
+describe('포트폴리오 순서 (firebaseService + 메모리 저장소)', () => {
+  const ids = async () => (await getDesignerData(DESIGNER_ID)).portfolio.map(style => style.id);
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  it('savePortfolio는 목록 순서대로 저장', async () => {
+    await savePortfolio(DESIGNER_ID, [createStyle('a'), createStyle('b'), createStyle('c')]);
+
+    expect(await ids()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('새 스타일은 맨 앞에 추가', async () => {
+    await savePortfolio(DESIGNER_ID, [createStyle('a'), createStyle('b')]);
+    await addStyleToPortfolio(DESIGNER_ID, createStyle('c'));
+    await addStyleToPortfolio(DESIGNER_ID, createStyle('d'));
+
+    expect(await ids()).toEqual(['d', 'c', 'a', 'b']);
+  });
+
+  it('수정 / 삭제해도 나머지 순서 유지', async () => {
+    await savePortfolio(DESIGNER_ID, [createStyle('a'), createStyle('b'), createStyle('c')]);
+    await updateStyleInPortfolio(DESIGNER_ID, 'c', { name: 'Updated' });
+    await removeStyleFromPortfolio(DESIGNER_ID, 'b');
+
+    expect(await ids()).toEqual(['a', 'c']);
+  });
+
+  it('목록에 없는 스타일은 savePortfolio에서 삭제하고 새 순서로 저장', async () => {
+    await savePortfolio(DESIGNER_ID, [createStyle('a'), createStyle('b'), createStyle('c')]);
+    await savePortfolio(DESIGNER_ID, [createStyle('c'), createStyle('a')]);
+
+    expect(await ids()).toEqual(['c', 'a']);
+  });
+
+  it('문서 안의 배열은 옮기기 전에도 그대로 읽고, 옮긴 뒤에도 순서 유지', async () => {
+    const portfolio = [createStyle('b'), createStyle('a'), { name: 'Legacy', url: 'https://example.com/legacy.jpg' }];
+    await repositories.designers.saveDesigner(DESIGNER_ID, createDesigner({ portfolio }));
+
+    expect((await getDesignerData(DESIGNER_ID)).portfolio.map(style => style.url)).toEqual(portfolio.map(style => style.url));
+    expect(await migrateEmbeddedPortfolio(DESIGNER_ID)).toBe(true);
+    expect((await getDesignerData(DESIGNER_ID)).portfolio.map(style => style.url)).toEqual(portfolio.map(style => style.url));
+    expect(await migrateEmbeddedPortfolio(DESIGNER_ID)).toBe(false);
+  });
+
+  it('스타일 컬렉션이 있으면 문서에 남은 배열(빈 배열 포함)보다 우선', async () => {
+    await repositories.designers.saveDesigner(DESIGNER_ID, createDesigner({ portfolio: [] }));
+    await repositories.designers.saveStyle(DESIGNER_ID, createStyle('a', { order: 0 }));
+
+    expect((await getDesignerData(DESIGNER_ID)).portfolio.map(style => style.id)).toEqual(['a']);
+  });
+});
+
+describe('체험 결과 기록 (firebaseService + 메모리 저장소)', () => {
+  let repositories: Repositories;
+
+  beforeEach(() => {
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  it('동시에 기록해도 결과와 개수가 모두 남고, 예전 문서의 결과와 함께 최신순으로 읽음', async () => {
+    await repositories.designers.saveDesigner(DESIGNER_ID, createDesigner({
+      stats: {
+        ...DEFAULT_STATS,
+        styleViews: {},
+        bookings: {},
+        trialResults: [{ styleUrl: 'legacy', resultUrl: 'r', timestamp: '2024-01-01T00:00:00.000Z' }]
+      }
+    }));
+
+    await Promise.all(['a', 'b', 'c'].map(styleUrl => trackTrialResult(DESIGNER_ID, { styleUrl, resultUrl: `r-${styleUrl}` })));
+
+    const { stats } = await getDesignerData(DESIGNER_ID);
+    expect(stats?.totalTrialResults).toBe(3);
+    expect(stats?.trialResults?.map(result => result.styleUrl).sort()).toEqual(['a', 'b', 'c', 'legacy']);
+    expect(stats?.trialResults?.[3].styleUrl).toBe('legacy');
+  });
+});
+
+describe('이름 문서 이전 (designerMigrationService + 메모리 저장소)', () => {
+  const LEGACY_NAME = 'Kim';
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+    await repositories.designers.saveDesigner(DESIGNER_ID, createDesigner({
+      stats: { ...DEFAULT_STATS, visits: 2, styleViews: {}, bookings: {} }
+    }));
+    await repositories.designers.saveStyle(DESIGNER_ID, createStyle('current', { order: 0 }));
+    await repositories.analytics.addEvent({
+      id: 'legacy-visit',
+      designerId: LEGACY_NAME,
+      type: 'visit',
+      timestamp: '2024-01-02T00:00:00.000Z',
+      sessionId: 'session-1',
+      source: 'portfolio_link'
+    });
+  });
+
+  const saveLegacyDesigner = (fields: Partial<DesignerDocument> = {}) => repositories.designers.saveDesigner(LEGACY_NAME, createDesigner({
+    stats: { ...DEFAULT_STATS, visits: 5, styleViews: {}, bookings: {} },
+    portfolio: [createStyle('legacy')],
+    ...fields
+  }));
+
+  it('소유 계정이 기록되지 않은 문서는 이름이 같아도 건드리지 않음', async () => {
+    await saveLegacyDesigner();
+
+    expect(await migrateNameKeyedDesigner(DESIGNER_ID)).toEqual([]);
+    expect(await repositories.designers.getDesigner(LEGACY_NAME)).not.toBeNull();
+  });
+
+  it('소유 계정이 기록된 문서는 스타일 / 통계 / 분석 이벤트를 합치고 삭제', async () => {
+    await saveLegacyDesigner({ ownerUid: DESIGNER_ID });
+
+    expect(await migrateNameKeyedDesigner(DESIGNER_ID)).toEqual([LEGACY_NAME]);
+
+    const merged = await repositories.designers.getDesigner(DESIGNER_ID);
+    expect(merged).toMatchObject({ stats: { visits: 7 }, legacyNames: [LEGACY_NAME] });
+    expect(merged?.ownerUid).toBeUndefined();
+    expect((await repositories.designers.listStyles(DESIGNER_ID)).map(style => style.id).sort()).toEqual(['current', 'legacy']);
+    const events = await repositories.analytics.listEvents(DESIGNER_ID, '2024-01-01T00:00:00.000Z', '2024-12-31T00:00:00.000Z');
+    expect(events.map(event => event.id)).toEqual(['legacy-visit']);
+    expect(await repositories.designers.getDesigner(LEGACY_NAME)).toBeNull();
+  });
+
+  it('합친 뒤 예전 문서 삭제가 실패해도 다시 실행할 때 통계를 두 번 더하지 않음', async () => {
+    await saveLegacyDesigner({ ownerUid: DESIGNER_ID });
+    const deleteDesigner = vi.spyOn(repositories.designers, 'deleteDesigner').mockRejectedValueOnce(new Error('network'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await migrateNameKeyedDesigner(DESIGNER_ID)).toEqual([]);
+    expect(await migrateNameKeyedDesigner(DESIGNER_ID)).toEqual([LEGACY_NAME]);
+
+    expect((await repositories.designers.getDesigner(DESIGNER_ID))?.stats?.visits).toBe(7);
+    expect(await repositories.analytics.listEvents(DESIGNER_ID, '2024-01-01T00:00:00.000Z', '2024-12-31T00:00:00.000Z')).toHaveLength(1);
+    expect(deleteDesigner).toHaveBeenCalledTimes(2);
+    vi.restoreAllMocks();
+  });
+});
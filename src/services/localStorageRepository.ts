@@ -0,0 +1,354 @@
+// localStorage 저장소 - Firebase 없이 브라우저에 저장 (같은 구현을 메모리 저장소에도 사용)
+import {
+  AnalyticsDailyRollup,
+  AnalyticsEvent,
+  AnalyticsRepository,
+  ClientProfile,
+  ClientRepository,
+  DEFAULT_STATS,
+  DesignerDocument,
+  DesignerRepository,
+  DesignerStats,
+  Favorite,
+  Hairstyle,
+  Repositories,
+  STORAGE_KEYS,
+  TrialResult,
+  TryOnHistory,
+  TryOnLedgerEntry,
+  User
+} from '../types';
+
+// getItem / setItem / removeItem만 있으면 저장 위치로 사용 가능 (localStorage, 메모리 등)
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// 이전 버전과 같은 키를 사용해 기존 데이터를 그대로 읽음
+const KEYS = {
+  DESIGNERS: STORAGE_KEYS.DESIGNERS,
+  DESIGNER_STYLES: 'hairfolio_designer_styles',
+  FAVORITES: STORAGE_KEYS.FAVORITES,
+  TRYON_HISTORY: STORAGE_KEYS.TRYON_HISTORY,
+  TRYON_LEDGER: 'hairfolio_tryon_ledger',
+  DESIGNER_SLUGS: 'hairfolio_designer_slugs',
+  TRIAL_RESULTS: 'hairfolio_trial_results',
+  ANALYTICS_EVENTS: 'hairfolio_analytics_events',
+  ANALYTICS_DAILY: 'hairfolio_analytics_daily',
+  user: (userId: string) => `hairfolio_user_${userId}`,
+  client: (userId: string) => `hairfolio_client_${userId}`
+};
+
+// 사용자별 체험 기록 보관 개수
+const MAX_TRYON_HISTORY = 50;
+
+// 디자이너별 체험 결과 보관 개수 (대시보드의 최근 결과)
+const MAX_TRIAL_RESULTS = 20;
+
+// 디자이너별 분석 이벤트 보관 개수 (브라우저 저장 용량 제한 - 오래된 이벤트부터 삭제, 일별 집계는 유지)
+const MAX_ANALYTICS_EVENTS = 2000;
+
+const readJson = <T>(storage: KeyValueStorage, key: string, fallback: T): T => {
+  const value = storage.getItem(key);
+  return value ? JSON.parse(value) as T : fallback;
+};
+
+const writeJson = (storage: KeyValueStorage, key: string, value: unknown): void => {
+  storage.setItem(key, JSON.stringify(value));
+};
+
+// ['colorTryOnResults', 'demo'] 같은 경로의 숫자에 더하기 (중간 객체가 없으면 생성)
+const incrementPath = (target: Record<string, unknown>, path: string[], amount: number): void => {
+  const keys = [...path];
+  const last = keys.pop()!;
+  const parent = keys.reduce<Record<string, unknown>>((node, key) => {
+    const child = { ...(node[key] as Record<string, unknown> | undefined) };
+    node[key] = child;
+    return child;
+  }, target);
+  parent[last] = (typeof parent[last] === 'number' ? parent[last] : 0) + amount;
+};
+
+export const createLocalDesignerRepository = (storage: KeyValueStorage = localStorage): DesignerRepository => {
+  const readDesigners = () => readJson<Record<string, DesignerDocument>>(storage, KEYS.DESIGNERS, {});
+  // 디자이너 ID → 스타일 ID → 스타일
+  const readStyles = () => readJson<Record<string, Record<string, Hairstyle>>>(storage, KEYS.DESIGNER_STYLES, {});
+  const readLedger = () => readJson<Record<string, TryOnLedgerEntry>>(storage, KEYS.TRYON_LEDGER, {});
+  const readSlugs = () => readJson<Record<string, string>>(storage, KEYS.DESIGNER_SLUGS, {});
+  // 디자이너 ID → 체험 결과 (최신순)
+  const readTrialResults = () => readJson<Record<string, TrialResult[]>>(storage, KEYS.TRIAL_RESULTS, {});
+
+  return {
+    getDesigner: async (designerId) => {
+      return readDesigners()[designerId] || null;
+    },
+
+    listDesigners: async () => {
+      return Object.entries(readDesigners()).map(([designerId, data]) => ({ designerId, data }));
+    },
+
+    listDesignersByOwner: async (ownerUid) => {
+      return Object.entries(readDesigners())
+        .filter(([, data]) => data.ownerUid === ownerUid)
+        .map(([designerId, data]) => ({ designerId, data }));
+    },
+
+    saveDesigner: async (designerId, data) => {
+      const designers = readDesigners();
+      designers[designerId] = data;
+      writeJson(storage, KEYS.DESIGNERS, designers);
+    },
+
+    updateDesigner: async (designerId, fields) => {
+      const designers = readDesigners();
+      designers[designerId] = { ...designers[designerId], ...fields };
+      writeJson(storage, KEYS.DESIGNERS, designers);
+    },
+
+    deleteDesigner: async (designerId) => {
+      const designers = readDesigners();
+      delete designers[designerId];
+      writeJson(storage, KEYS.DESIGNERS, designers);
+    },
+
+    listStyles: async (designerId) => {
+      return Object.values(readStyles()[designerId] || {});
+    },
+
+    listAllStyles: async () => {
+      return Object.entries(readStyles()).flatMap(([designerId, styles]) =>
+        Object.values(styles).map(style => ({ designerId, style }))
+      );
+    },
+
+    saveStyle: async (designerId, style) => {
+      const styles = readStyles();
+      const now = new Date().toISOString();
+      styles[designerId] = {
+        ...(styles[designerId] || {}),
+        [style.id]: { ...style, createdAt: style.createdAt || now, updatedAt: now }
+      };
+      writeJson(storage, KEYS.DESIGNER_STYLES, styles);
+    },
+
+    updateStyle: async (designerId, styleId, updates) => {
+      const styles = readStyles();
+      const current = styles[designerId]?.[styleId];
+      if (!current) return false;
+
+      styles[designerId][styleId] = {
+        ...current,
+        ...updates,
+        id: styleId,
+        createdAt: current.createdAt,
+        updatedAt: new Date().toISOString()
+      };
+      writeJson(storage, KEYS.DESIGNER_STYLES, styles);
+      return true;
+    },
+
+    deleteStyle: async (designerId, styleId) => {
+      const styles = readStyles();
+      if (!styles[designerId]?.[styleId]) return;
+      delete styles[designerId][styleId];
+      writeJson(storage, KEYS.DESIGNER_STYLES, styles);
+    },
+
+    moveEmbeddedPortfolio: async (designerId, movedStyles) => {
+      const styles = readStyles();
+      const now = new Date().toISOString();
+      styles[designerId] = { ...(styles[designerId] || {}) };
+      movedStyles.forEach(style => {
+        styles[designerId][style.id] = { ...style, createdAt: style.createdAt || now, updatedAt: now };
+      });
+      writeJson(storage, KEYS.DESIGNER_STYLES, styles);
+
+      const designers = readDesigners();
+      if (!designers[designerId]) return;
+      const { portfolio, ...rest } = designers[designerId];
+      designers[designerId] = { ...rest, updatedAt: now };
+      writeJson(storage, KEYS.DESIGNERS, designers);
+    },
+
+    updateStats: async (designerId, update) => {
+      const designers = readDesigners();
+      const data = designers[designerId];
+      if (!data) {
+        throw new Error(`디자이너를 찾을 수 없습니다: ${designerId}`);
+      }
+
+      const stats: DesignerStats = { ...DEFAULT_STATS, ...data.stats, ...update.set };
+      (update.increment || []).forEach(({ path, amount }) => {
+        incrementPath(stats as unknown as Record<string, unknown>, path, amount);
+      });
+
+      designers[designerId] = { ...data, stats, updatedAt: new Date().toISOString() };
+      writeJson(storage, KEYS.DESIGNERS, designers);
+    },
+
+    addTrialResult: async (designerId, result) => {
+      const results = readTrialResults();
+      results[designerId] = [result, ...(results[designerId] || [])].slice(0, MAX_TRIAL_RESULTS);
+      writeJson(storage, KEYS.TRIAL_RESULTS, results);
+    },
+
+    listTrialResults: async (designerId, limitCount) => {
+      return [...(readTrialResults()[designerId] || [])]
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, limitCount);
+    },
+
+    // 결과 캐시는 기기 안에서는 tryOnCacheService가 관리 - 기기 간 공유 캐시 없음
+    getTryOnCacheEntry: async () => null,
+    saveTryOnCacheEntry: async () => false,
+
+    saveTryOnLedgerEntry: async (entry) => {
+      const ledger = readLedger();
+      ledger[entry.taskId] = entry;
+      writeJson(storage, KEYS.TRYON_LEDGER, ledger);
+    },
+
+    updateTryOnLedgerEntry: async (taskId, updates) => {
+      const ledger = readLedger();
+      if (!ledger[taskId]) return false;
+      ledger[taskId] = { ...ledger[taskId], ...updates };
+      writeJson(storage, KEYS.TRYON_LEDGER, ledger);
+      return true;
+    },
+
+    getTryOnLedger: async (designerId, sinceIso) => {
+      return Object.values(readLedger())
+        .filter(entry => entry.designerName === designerId && entry.createdAt >= sinceIso)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    getDesignerIdBySlug: async (slug) => {
+      return readSlugs()[slug] || null;
+    },
+
+    claimSlug: async (slug, designerId) => {
+      const slugs = readSlugs();
+      if (slugs[slug] && slugs[slug] !== designerId) return false;
+      slugs[slug] = designerId;
+      writeJson(storage, KEYS.DESIGNER_SLUGS, slugs);
+      return true;
+    },
+
+    releaseSlug: async (slug, designerId) => {
+      const slugs = readSlugs();
+      if (slugs[slug] !== designerId) return;
+      delete slugs[slug];
+      writeJson(storage, KEYS.DESIGNER_SLUGS, slugs);
+    }
+  };
+};
+
+export const createLocalClientRepository = (storage: KeyValueStorage = localStorage): ClientRepository => {
+  const readFavorites = () => readJson<Record<string, Favorite[]>>(storage, KEYS.FAVORITES, {});
+  const readHistories = () => readJson<Record<string, TryOnHistory[]>>(storage, KEYS.TRYON_HISTORY, {});
+
+  return {
+    getUser: async (userId) => {
+      return readJson<User | null>(storage, KEYS.user(userId), null);
+    },
+
+    saveUser: async (user) => {
+      writeJson(storage, KEYS.user(user.userId), user);
+    },
+
+    getClientProfile: async (userId) => {
+      return readJson<ClientProfile | null>(storage, KEYS.client(userId), null);
+    },
+
+    saveClientProfile: async (profile) => {
+      writeJson(storage, KEYS.client(profile.userId), profile);
+    },
+
+    addFavorite: async (favorite) => {
+      const favorites = readFavorites();
+      favorites[favorite.userId] = [...(favorites[favorite.userId] || []), favorite];
+      writeJson(storage, KEYS.FAVORITES, favorites);
+    },
+
+    getFavorites: async (userId) => {
+      return [...(readFavorites()[userId] || [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    removeFavorite: async (favoriteId, userId) => {
+      const favorites = readFavorites();
+      if (!favorites[userId]) return;
+      favorites[userId] = favorites[userId].filter(favorite => favorite.id !== favoriteId);
+      writeJson(storage, KEYS.FAVORITES, favorites);
+    },
+
+    addTryOnHistory: async (history) => {
+      const histories = readHistories();
+      histories[history.userId] = [history, ...(histories[history.userId] || [])].slice(0, MAX_TRYON_HISTORY);
+      writeJson(storage, KEYS.TRYON_HISTORY, histories);
+    },
+
+    getTryOnHistory: async (userId, limitCount) => {
+      return (readHistories()[userId] || []).slice(0, limitCount);
+    }
+  };
+};
+
+export const createLocalAnalyticsRepository = (storage: KeyValueStorage = localStorage): AnalyticsRepository => {
+  // 디자이너 ID → 이벤트 (오래된 순)
+  const readEvents = () => readJson<Record<string, AnalyticsEvent[]>>(storage, KEYS.ANALYTICS_EVENTS, {});
+  // `${디자이너 ID}_${날짜}` → 집계
+  const readRollups = () => readJson<Record<string, AnalyticsDailyRollup>>(storage, KEYS.ANALYTICS_DAILY, {});
+
+  return {
+    addEvent: async (event) => {
+      const events = readEvents();
+      events[event.designerId] = [...(events[event.designerId] || []), event].slice(-MAX_ANALYTICS_EVENTS);
+      writeJson(storage, KEYS.ANALYTICS_EVENTS, events);
+    },
+
+    listEvents: async (designerId, startIso, endIso) => {
+      return (readEvents()[designerId] || [])
+        .filter(event => event.timestamp >= startIso && event.timestamp < endIso)
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    },
+
+    listDailyRollups: async (designerId, startDate, endDate) => {
+      return Object.values(readRollups())
+        .filter(rollup => rollup.designerId === designerId && rollup.date >= startDate && rollup.date <= endDate)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+
+    saveDailyRollups: async (rollups) => {
+      const saved = readRollups();
+      rollups.forEach(rollup => {
+        saved[`${rollup.designerId}_${rollup.date}`] = rollup;
+      });
+      writeJson(storage, KEYS.ANALYTICS_DAILY, saved);
+    }
+  };
+};
+
+export const createLocalStorageRepositories = (): Repositories => ({
+  kind: 'localStorage',
+  designers: createLocalDesignerRepository(),
+  clients: createLocalClientRepository(),
+  analytics: createLocalAnalyticsRepository()
+});
+
+/**
+ * 메모리 저장소 생성 - 새로고침하면 사라짐 (테스트, 일회성 데모)
+ * localStorage와 같은 구현을 Map 위에서 실행해 동작이 같고, 값은 JSON으로 복사되어 호출 측 객체와 분리된다.
+ */
+export const createMemoryRepositories = (): Repositories => {
+  const values = new Map<string, string>();
+  const storage: KeyValueStorage = {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, value); },
+    removeItem: (key) => { values.delete(key); }
+  };
+
+  return {
+    kind: 'memory',
+    designers: createLocalDesignerRepository(storage),
+    clients: createLocalClientRepository(storage),
+    analytics: createLocalAnalyticsRepository(storage)
+  };
+};
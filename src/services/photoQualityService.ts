@@ -0,0 +1,181 @@
+// 가상체험 전 사진 품질 검사 - 얼굴 수/크기/각도, 밝기/대비, 흐림 (측정은 얼굴 분석 워커에서)
+import {
+  CameraGuidance,
+  CameraGuidanceCode,
+  PhotoQualityIssue,
+  PhotoQualityIssueCode,
+  PhotoQualityMetrics,
+  PhotoQualityReport
+} from '../types';
+
+// 판정 기준 (block: 가상체험 불가 / warn: 확인 후 진행)
+const THRESHOLDS = {
+  faceSizeBlock: 0.03,     // 얼굴 영역이 이미지의 3% 미만
+  faceSizeWarn: 0.08,
+  faceSizeMaxWarn: 0.65,   // 얼굴이 화면을 거의 채우면 머리카락이 잘림
+  yawBlock: 35,            // 도
+  yawWarn: 20,
+  pitchWarn: 25,
+  rollWarn: 20,
+  darkBlock: 35,           // 평균 밝기 (0-255)
+  darkWarn: 70,
+  brightWarn: 215,
+  contrastWarn: 25,        // 밝기 표준편차
+  blurBlock: 15,           // 라플라시안 분산
+  blurWarn: 60,
+  centerOffsetWarn: 0.12   // 카메라 촬영 시 얼굴 중심과 가이드 중심의 거리 (프레임 대비)
+};
+
+const ISSUE_MESSAGES: Record<PhotoQualityIssueCode, { i18nKey: string; message: string }> = {
+  'no-face': { i18nKey: 'quality.issues.noFace', message: '얼굴을 찾지 못했습니다. 얼굴이 잘 보이는 정면 사진을 올려주세요.' },
+  'multiple-faces': { i18nKey: 'quality.issues.multipleFaces', message: '여러 사람이 함께 나온 사진입니다. 혼자 나온 사진을 사용해주세요.' },
+  'face-too-small': { i18nKey: 'quality.issues.faceTooSmall', message: '얼굴이 너무 작게 나왔습니다. 조금 더 가까이에서 찍어주세요.' },
+  'face-too-large': { i18nKey: 'quality.issues.faceTooLarge', message: '얼굴이 화면을 가득 채웠습니다. 머리카락 전체가 보이도록 조금 떨어져서 찍어주세요.' },
+  'face-turned': { i18nKey: 'quality.issues.faceTurned', message: '고개가 옆으로 돌아가 있습니다. 카메라를 정면으로 바라봐주세요.' },
+  'face-tilted': { i18nKey: 'quality.issues.faceTilted', message: '고개가 기울어져 있습니다. 턱을 살짝 당기고 정면을 바라봐주세요.' },
+  'too-dark': { i18nKey: 'quality.issues.tooDark', message: '사진이 너무 어둡습니다. 밝은 곳에서 다시 찍어주세요.' },
+  'too-bright': { i18nKey: 'quality.issues.tooBright', message: '사진이 너무 밝습니다. 직사광선이나 강한 조명을 피해주세요.' },
+  'low-contrast': { i18nKey: 'quality.issues.lowContrast', message: '사진이 뿌옇게 보입니다. 렌즈를 닦거나 조명을 바꿔보세요.' },
+  'blurry': { i18nKey: 'quality.issues.blurry', message: '사진이 흐릿합니다. 카메라를 고정하고 초점을 맞춰 다시 찍어주세요.' }
+};
+
+const createIssue = (code: PhotoQualityIssueCode, severity: PhotoQualityIssue['severity']): PhotoQualityIssue => ({
+  code,
+  severity,
+  ...ISSUE_MESSAGES[code]
+});
+
+const collectIssues = (metrics: PhotoQualityMetrics): PhotoQualityIssue[] => {
+  const issues: PhotoQualityIssue[] = [];
+  const t = THRESHOLDS;
+
+  if (metrics.faceCount > 1) {
+    issues.push(createIssue('multiple-faces', 'block'));
+  }
+
+  if (metrics.faceSizeRatio < t.faceSizeBlock) {
+    issues.push(createIssue('face-too-small', 'block'));
+  } else if (metrics.faceSizeRatio < t.faceSizeWarn) {
+    issues.push(createIssue('face-too-small', 'warn'));
+  } else if (metrics.faceSizeRatio > t.faceSizeMaxWarn) {
+    issues.push(createIssue('face-too-large', 'warn'));
+  }
+
+  if (Math.abs(metrics.yaw) > t.yawBlock) {
+    issues.push(createIssue('face-turned', 'block'));
+  } else if (Math.abs(metrics.yaw) > t.yawWarn) {
+    issues.push(createIssue('face-turned', 'warn'));
+  }
+
+  if (Math.abs(metrics.pitch) > t.pitchWarn || Math.abs(metrics.roll) > t.rollWarn) {
+    issues.push(createIssue('face-tilted', 'warn'));
+  }
+
+  if (metrics.brightness < t.darkBlock) {
+    issues.push(createIssue('too-dark', 'block'));
+  } else if (metrics.brightness < t.darkWarn) {
+    issues.push(createIssue('too-dark', 'warn'));
+  } else if (metrics.brightness > t.brightWarn) {
+    issues.push(createIssue('too-bright', 'warn'));
+  }
+
+  if (metrics.contrast < t.contrastWarn) {
+    issues.push(createIssue('low-contrast', 'warn'));
+  }
+
+  if (metrics.blurVariance < t.blurBlock) {
+    issues.push(createIssue('blurry', 'block'));
+  } else if (metrics.blurVariance < t.blurWarn) {
+    issues.push(createIssue('blurry', 'warn'));
+  }
+
+  return issues;
+};
+
+const buildReport = (issues: PhotoQualityIssue[], metrics: PhotoQualityMetrics | null): PhotoQualityReport => ({
+  passed: issues.every(issue => issue.severity !== 'block'),
+  issues,
+  metrics,
+  checkedAt: new Date().toISOString()
+});
+
+/**
+ * 사진 품질 검사
+ * @param metrics 얼굴 분석 워커에서 측정한 값 (얼굴이 없으면 null)
+ */
+export const assessPhotoQuality = (metrics: PhotoQualityMetrics | null): PhotoQualityReport => {
+  if (!metrics) {
+    return buildReport([createIssue('no-face', 'block')], null);
+  }
+
+  const report = buildReport(collectIssues(metrics), metrics);
+  console.log('📷 사진 품질 검사:', {
+    통과: report.passed,
+    문제: report.issues.map(issue => `${issue.code}(${issue.severity})`),
+    얼굴비율: metrics.faceSizeRatio.toFixed(3),
+    yaw: metrics.yaw.toFixed(1),
+    pitch: metrics.pitch.toFixed(1),
+    roll: metrics.roll.toFixed(1),
+    밝기: metrics.brightness.toFixed(0),
+    대비: metrics.contrast.toFixed(0),
+    선명도: metrics.blurVariance.toFixed(0)
+  });
+  return report;
+};
+
+/**
+ * 가상체험 전 확인이 필요한 문제 (block이 있으면 진행 불가, warn만 있으면 확인 후 진행)
+ */
+export const getBlockingIssues = (report?: PhotoQualityReport | null): PhotoQualityIssue[] => {
+  return report?.issues.filter(issue => issue.severity === 'block') || [];
+};
+
+export const getQualityWarnings = (report?: PhotoQualityReport | null): PhotoQualityIssue[] => {
+  return report?.issues.filter(issue => issue.severity === 'warn') || [];
+};
+
+const GUIDANCE_MESSAGES: Record<CameraGuidanceCode, { i18nKey: string; message: string }> = {
+  'no-face': { i18nKey: 'camera.guidance.noFace', message: '얼굴을 가이드 안에 맞춰주세요' },
+  'multiple-faces': { i18nKey: 'camera.guidance.multipleFaces', message: '한 명만 화면에 나오도록 해주세요' },
+  'center-face': { i18nKey: 'camera.guidance.centerFace', message: '얼굴을 가이드 중앙에 맞춰주세요' },
+  'move-closer': { i18nKey: 'camera.guidance.moveCloser', message: '조금 더 가까이 와주세요' },
+  'move-back': { i18nKey: 'camera.guidance.moveBack', message: '머리카락이 다 보이도록 조금 뒤로 가주세요' },
+  'face-camera': { i18nKey: 'camera.guidance.faceCamera', message: '카메라를 정면으로 바라봐주세요' },
+  'more-light': { i18nKey: 'camera.guidance.moreLight', message: '더 밝은 곳으로 이동해주세요' },
+  'less-light': { i18nKey: 'camera.guidance.lessLight', message: '강한 조명을 피해주세요' },
+  'hold-still': { i18nKey: 'camera.guidance.holdStill', message: '움직이지 말고 잠시 멈춰주세요' },
+  'ready': { i18nKey: 'camera.guidance.ready', message: '좋아요! 그대로 있어주세요' }
+};
+
+// 품질 문제 → 촬영 안내 (위에서부터 우선)
+const ISSUE_GUIDANCE: [PhotoQualityIssueCode, CameraGuidanceCode][] = [
+  ['multiple-faces', 'multiple-faces'],
+  ['face-too-small', 'move-closer'],
+  ['face-too-large', 'move-back'],
+  ['face-turned', 'face-camera'],
+  ['face-tilted', 'face-camera'],
+  ['too-dark', 'more-light'],
+  ['low-contrast', 'more-light'],
+  ['too-bright', 'less-light'],
+  ['blurry', 'hold-still']
+];
+
+const createGuidance = (code: CameraGuidanceCode): CameraGuidance => ({
+  code,
+  ...GUIDANCE_MESSAGES[code]
+});
+
+/**
+ * 카메라 프레임 측정값 → 촬영 안내 (warn 수준 문제까지 없어야 ready)
+ * @param centerOffset 얼굴 중심과 가이드 중심의 거리 (프레임 크기 대비 0-1)
+ */
+export const getCameraGuidance = (metrics: PhotoQualityMetrics | null, centerOffset = 0): CameraGuidance => {
+  if (!metrics) return createGuidance('no-face');
+
+  const issueCodes = new Set(collectIssues(metrics).map(issue => issue.code));
+  const match = ISSUE_GUIDANCE.find(([issueCode]) => issueCodes.has(issueCode));
+  if (match) return createGuidance(match[1]);
+
+  if (centerOffset > THRESHOLDS.centerOffsetWarn) return createGuidance('center-face');
+  return createGuidance('ready');
+};
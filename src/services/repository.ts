@@ -0,0 +1,57 @@
+// 데이터 저장소 선택 - 시작할 때 설정(VITE_STORAGE_BACKEND)에 맞는 저장소를 한 번 정하고 firebaseService가 사용
+import { Repositories, RepositoryKind } from '../types';
+import { createFirestoreRepositories, firestoreDb } from './firestoreRepository';
+import {
+  createLocalDesignerRepository,
+  createLocalStorageRepositories,
+  createMemoryRepositories
+} from './localStorageRepository';
+
+// 사용할 저장소 설정 (비어 있거나 'auto'면 Firebase가 설정되어 있으면 Firestore, 아니면 localStorage)
+const CONFIGURED_BACKEND: string = import.meta.env.VITE_STORAGE_BACKEND || 'auto';
+
+const resolveRepositoryKind = (configured: string): RepositoryKind => {
+  if (configured === 'localStorage' || configured === 'memory') {
+    return configured;
+  }
+  if (configured !== 'auto' && configured !== 'firestore') {
+    console.warn(`저장소 '${configured}'를 알 수 없습니다. 자동 선택으로 전환합니다.`);
+  }
+  if (firestoreDb) {
+    return 'firestore';
+  }
+  if (configured === 'firestore') {
+    console.warn('⚠️ Firebase를 사용할 수 없어 localStorage 저장소로 전환합니다.');
+  }
+  return 'localStorage';
+};
+
+/**
+ * 저장소 생성
+ */
+export const createRepositories = (kind: RepositoryKind): Repositories => {
+  if (kind === 'firestore' && firestoreDb) {
+    return createFirestoreRepositories(firestoreDb, createLocalDesignerRepository());
+  }
+  return kind === 'memory' ? createMemoryRepositories() : createLocalStorageRepositories();
+};
+
+let repositories: Repositories | null = null;
+
+/**
+ * 현재 저장소 조회 (처음 호출할 때 설정에 맞게 생성)
+ */
+export const getRepositories = (): Repositories => {
+  if (!repositories) {
+    repositories = createRepositories(resolveRepositoryKind(CONFIGURED_BACKEND));
+    console.log(`🗄️ 데이터 저장소: ${repositories.kind}`);
+  }
+  return repositories;
+};
+
+/**
+ * 저장소 교체 (테스트에서 메모리 저장소를 넣을 때 등)
+ */
+export const setRepositories = (next: Repositories): void => {
+  repositories = next;
+};
@@ -0,0 +1,157 @@
+// 가상체험 결과 캐시 - 같은 얼굴 사진 + 같은 스타일이면 저장된 결과를 재사용 (로컬 → Firestore)
+import {
+  DesignerSettings,
+  DEFAULT_SETTINGS,
+  TryOnCacheContext,
+  TryOnCacheEntry,
+  TryOnCacheScope,
+  TryOnResult
+} from '../types';
+import { getTryOnCacheEntry, saveTryOnCacheEntry } from './firebaseService';
+
+const LOCAL_CACHE_KEY = 'hairfolio_tryon_cache';
+const LOCAL_CACHE_SIZE = 100; // 최근 100개만 유지
+
+// 같은 File을 여러 번 해시하지 않도록 보관
+const faceHashes = new WeakMap<Blob, Promise<string>>();
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * 얼굴 사진 SHA-256 해시 (hex)
+ */
+export const hashFaceFile = (file: Blob): Promise<string> => {
+  let hash = faceHashes.get(file);
+  if (!hash) {
+    hash = file.arrayBuffer()
+      .then(buffer => crypto.subtle.digest('SHA-256', buffer))
+      .then(toHex);
+    faceHashes.set(file, hash);
+  }
+  return hash;
+};
+
+// 캐시 키 - 범위 / 버전이 다르면 다른 항목으로 저장하고, 스타일 ID에 URL이 들어올 수 있으므로 다시 해시해 Firestore 문서 ID로 사용
+const getCacheKey = async (faceHash: string, cache: TryOnCacheContext): Promise<string> => {
+  const data = new TextEncoder().encode(`${cache.scope}:${cache.version}:${faceHash}:${cache.styleId}`);
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+const readLocalCache = (): Record<string, TryOnCacheEntry> => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeLocalCache = (entries: Record<string, TryOnCacheEntry>): void => {
+  try {
+    const recent = Object.values(entries)
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+      .slice(0, LOCAL_CACHE_SIZE);
+    localStorage.setItem(
+      LOCAL_CACHE_KEY,
+      JSON.stringify(Object.fromEntries(recent.map(entry => [entry.cacheKey, entry])))
+    );
+  } catch (error) {
+    console.warn('가상체험 캐시 저장 실패:', error);
+  }
+};
+
+// 디자이너가 캐시를 초기화했으면(버전 변경) 사용하지 않음
+const isEntryValid = (entry: TryOnCacheEntry, cache: TryOnCacheContext): boolean => {
+  return entry.scope === cache.scope && entry.version === cache.version && !!entry.imageUrl;
+};
+
+const toResult = (entry: TryOnCacheEntry): TryOnResult => ({
+  imageUrl: entry.imageUrl,
+  providerId: entry.providerId,
+  isDemo: false,
+  processingTime: 0,
+  fromCache: true
+});
+
+/**
+ * 디자이너 설정으로 캐시 범위 결정 (캐시를 끈 디자이너면 null)
+ */
+export const getTryOnCacheScope = (
+  designerName: string,
+  settings?: DesignerSettings | null
+): TryOnCacheScope | null => {
+  const { tryOnCacheEnabled, tryOnCacheVersion } = { ...DEFAULT_SETTINGS, ...settings };
+  if (!tryOnCacheEnabled) {
+    return null;
+  }
+  return { scope: designerName, version: tryOnCacheVersion || 0 };
+};
+
+/**
+ * 캐시된 가상체험 결과 조회 (로컬에 없으면 Firestore 확인)
+ */
+export const findCachedTryOnResult = async (
+  faceFile: Blob,
+  cache: TryOnCacheContext
+): Promise<TryOnResult | null> => {
+  try {
+    const cacheKey = await getCacheKey(await hashFaceFile(faceFile), cache);
+
+    const localEntries = readLocalCache();
+    const localEntry = localEntries[cacheKey];
+    if (localEntry) {
+      if (isEntryValid(localEntry, cache)) {
+        console.log('⚡ 가상체험 캐시 사용 (로컬):', cache.styleId);
+        return toResult(localEntry);
+      }
+      delete localEntries[cacheKey];
+      writeLocalCache(localEntries);
+    }
+
+    const remoteEntry = await getTryOnCacheEntry(cacheKey);
+    if (remoteEntry && isEntryValid(remoteEntry, cache)) {
+      console.log('⚡ 가상체험 캐시 사용 (Firestore):', cache.styleId);
+      writeLocalCache({ ...readLocalCache(), [cacheKey]: remoteEntry });
+      return toResult(remoteEntry);
+    }
+
+    return null;
+  } catch (error) {
+    // 캐시 조회 실패는 가상체험 자체를 막지 않음
+    console.warn('가상체험 캐시 조회 실패:', error);
+    return null;
+  }
+};
+
+/**
+ * 가상체험 결과 캐시 저장 (데모 결과는 저장하지 않음)
+ */
+export const saveTryOnResultToCache = async (
+  faceFile: Blob,
+  cache: TryOnCacheContext,
+  result: TryOnResult
+): Promise<void> => {
+  if (result.isDemo || result.fromCache) return;
+
+  try {
+    const faceHash = await hashFaceFile(faceFile);
+    const entry: TryOnCacheEntry = {
+      cacheKey: await getCacheKey(faceHash, cache),
+      faceHash,
+      styleId: cache.styleId,
+      scope: cache.scope,
+      version: cache.version,
+      imageUrl: result.imageUrl,
+      providerId: result.providerId,
+      createdAt: new Date().toISOString()
+    };
+
+    writeLocalCache({ ...readLocalCache(), [entry.cacheKey]: entry });
+    await saveTryOnCacheEntry(entry);
+  } catch (error) {
+    console.warn('가상체험 캐시 저장 실패:', error);
+  }
+};
@@ -0,0 +1,138 @@
+// 가상체험 오류 분류 - 원인별 번역 키, 재시도 가능 여부, 안내할 다음 행동
+import { TryOnErrorAction, TryOnErrorCode } from '../types';
+
+// 원인별 번역 키 (기본 메시지는 각 오류 클래스의 message, 알 수 없는 오류는 원래 메시지 그대로 표시)
+const I18N_KEYS: Record<Exclude<TryOnErrorCode, 'unknown'>, string> = {
+  'auth': 'tryOnError.auth',
+  'insufficient-credits': 'tryOnError.insufficientCredits',
+  'budget-exceeded': 'tryOnError.budgetExceeded',
+  'safety-blocked': 'tryOnError.safetyBlocked',
+  'timeout': 'tryOnError.timeout',
+  'upload-failed': 'tryOnError.uploadFailed',
+  'no-face-detected': 'tryOnError.noFaceDetected',
+  'no-hair-detected': 'tryOnError.noHairDetected'
+};
+
+/**
+ * 가상체험 오류 공통 클래스
+ * 화면에는 t(i18nKey, message)로 보여주고, action에 따라 다음 행동 버튼을 안내한다.
+ */
+export class TryOnError extends Error {
+  readonly code: TryOnErrorCode;
+  readonly i18nKey: string | null;
+  readonly retryable: boolean;
+  readonly action: TryOnErrorAction;
+
+  constructor(
+    code: TryOnErrorCode,
+    message: string,
+    { retryable, action }: { retryable: boolean; action: TryOnErrorAction }
+  ) {
+    super(message);
+    this.name = 'TryOnError';
+    this.code = code;
+    this.i18nKey = code === 'unknown' ? null : I18N_KEYS[code];
+    this.retryable = retryable;
+    this.action = action;
+  }
+}
+
+/**
+ * API 키가 유효하지 않거나 접근이 거부됨 (401 / 403)
+ */
+export class TryOnAuthError extends TryOnError {
+  constructor() {
+    super('auth', '가상체험 서비스 인증에 실패했습니다. 디자이너에게 문의해주세요.', {
+      retryable: false,
+      action: 'contact-designer'
+    });
+    this.name = 'TryOnAuthError';
+  }
+}
+
+/**
+ * 백엔드 크레딧 부족 (402)
+ */
+export class TryOnInsufficientCreditsError extends TryOnError {
+  constructor() {
+    super('insufficient-credits', '가상체험 크레딧이 부족합니다. 디자이너에게 문의해주세요.', {
+      retryable: false,
+      action: 'contact-designer'
+    });
+    this.name = 'TryOnInsufficientCreditsError';
+  }
+}
+
+/**
+ * 안전성 정책으로 처리할 수 없는 사진
+ */
+export class TryOnSafetyBlockedError extends TryOnError {
+  constructor() {
+    super('safety-blocked', '사진 내용이 안전성 정책에 맞지 않아 처리할 수 없습니다. 다른 사진으로 시도해주세요.', {
+      retryable: false,
+      action: 'change-photo'
+    });
+    this.name = 'TryOnSafetyBlockedError';
+  }
+}
+
+/**
+ * 응답 대기 시간 초과
+ */
+export class TryOnTimeoutError extends TryOnError {
+  constructor(message: string = '응답 시간이 초과되었습니다. 잠시 후 다시 시도해주세요.') {
+    super('timeout', message, { retryable: true, action: 'retry' });
+    this.name = 'TryOnTimeoutError';
+  }
+}
+
+/**
+ * 얼굴 / 스타일 이미지 업로드 실패
+ */
+export class TryOnUploadFailedError extends TryOnError {
+  constructor() {
+    super('upload-failed', '이미지 업로드에 실패했습니다. 네트워크 연결을 확인해주세요.', {
+      retryable: true,
+      action: 'retry'
+    });
+    this.name = 'TryOnUploadFailedError';
+  }
+}
+
+/**
+ * 사진에서 얼굴을 찾지 못함
+ */
+export class TryOnNoFaceDetectedError extends TryOnError {
+  constructor() {
+    super('no-face-detected', '사진에서 얼굴을 찾지 못했습니다. 얼굴이 정면으로 잘 보이는 사진을 사용해주세요.', {
+      retryable: false,
+      action: 'change-photo'
+    });
+    this.name = 'TryOnNoFaceDetectedError';
+  }
+}
+
+/**
+ * 사진에서 머리카락 영역을 찾지 못함 (분할 모델이 없거나 머리카락이 보이지 않음)
+ * 마스크 없이 사진 전체에 색을 입히지 않고, 결과 대신 이 오류를 보여준다
+ */
+export class TryOnNoHairDetectedError extends TryOnError {
+  constructor() {
+    super('no-hair-detected', '머리카락 영역을 찾지 못해 염색 미리보기를 만들 수 없습니다. 머리카락이 잘 보이는 사진을 사용해주세요.', {
+      retryable: false,
+      action: 'change-photo'
+    });
+    this.name = 'TryOnNoHairDetectedError';
+  }
+}
+
+/**
+ * 알 수 없는 오류를 TryOnError로 변환 (원인을 모르면 재시도 안내)
+ */
+export const toTryOnError = (error: unknown): TryOnError => {
+  if (error instanceof TryOnError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : '헤어스타일 적용 중 알 수 없는 오류가 발생했습니다.';
+  return new TryOnError('unknown', message, { retryable: true, action: 'retry' });
+};
@@ -0,0 +1,95 @@
+// 가상체험 비용 기록 - 작업별 크레딧 사용 내역 저장, 디자이너별 월간 한도 확인
+import {
+  TryOnLedgerContext,
+  TryOnLedgerEntry,
+  TryOnLedgerOutcome,
+  TryOnProviderId
+} from '../types';
+import {
+  getTryOnLedger,
+  saveTryOnLedgerEntry,
+  updateTryOnLedgerOutcome
+} from './firebaseService';
+import { TryOnError } from './tryOnErrors';
+
+/**
+ * 이번 달 가상체험 한도를 모두 사용했을 때 발생
+ */
+export class TryOnBudgetExceededError extends TryOnError {
+  readonly budget: number;
+  readonly spent: number;
+
+  constructor(budget: number, spent: number) {
+    super('budget-exceeded', '이번 달 AI 가상체험 이용 한도를 모두 사용했습니다. 다음 달에 다시 이용하시거나 디자이너에게 문의해주세요.', {
+      retryable: false,
+      action: 'contact-designer'
+    });
+    this.name = 'TryOnBudgetExceededError';
+    this.budget = budget;
+    this.spent = spent;
+  }
+}
+
+/**
+ * 이번 달 1일 0시 (로컬 시간)
+ */
+export const getMonthStart = (date: Date = new Date()): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+};
+
+/**
+ * 기록 목록의 크레딧 합계
+ */
+export const sumLedgerCost = (entries: TryOnLedgerEntry[]): number => {
+  return entries.reduce((sum, entry) => sum + (entry.cost || 0), 0);
+};
+
+/**
+ * 디자이너의 이번 달 크레딧 사용량
+ */
+export const getMonthlySpend = async (designerName: string): Promise<number> => {
+  const entries = await getTryOnLedger(designerName, getMonthStart());
+  return sumLedgerCost(entries);
+};
+
+/**
+ * 월간 한도 확인 (한도가 없으면 통과, 모두 사용했으면 TryOnBudgetExceededError)
+ */
+export const assertWithinBudget = async (ledger: TryOnLedgerContext): Promise<void> => {
+  const budget = ledger.monthlyBudget || 0;
+  if (budget <= 0) return;
+
+  const spent = await getMonthlySpend(ledger.designerName);
+  if (spent >= budget) {
+    console.warn(`💸 월간 한도 초과 (${ledger.designerName}): ${spent} / ${budget}`);
+    throw new TryOnBudgetExceededError(budget, spent);
+  }
+};
+
+/**
+ * 작업 생성 기록 (크레딧 차감 시점)
+ */
+export const recordTryOnTask = async (
+  ledger: TryOnLedgerContext,
+  taskId: string,
+  providerId: TryOnProviderId,
+  cost: number
+): Promise<void> => {
+  await saveTryOnLedgerEntry({
+    taskId,
+    designerName: ledger.designerName,
+    providerId,
+    styleUrl: ledger.styleUrl,
+    styleName: ledger.styleName,
+    cost,
+    outcome: 'pending',
+    createdAt: new Date().toISOString()
+  });
+};
+
+/**
+ * 작업 결과 기록 (기록이 없는 작업이면 무시)
+ */
+export const recordTryOnOutcome = async (taskId: string, outcome: TryOnLedgerOutcome): Promise<void> => {
+  await updateTryOnLedgerOutcome(taskId, outcome);
+};
@@ -0,0 +1,354 @@
+// 헤어스타일 가상체험 서비스 - 백엔드(provider) 레지스트리
+import {
+  TryOnBatchItemState,
+  TryOnCacheContext,
+  TryOnCacheScope,
+  TryOnLedgerContext,
+  TryOnLedgerOutcome,
+  TryOnProvider,
+  TryOnProgressEvent,
+  TryOnProviderId,
+  TryOnRequest,
+  TryOnResult,
+  TryOnResumeOptions,
+  TryOnTaskContext,
+  TryOnTaskRecord
+} from '../types';
+import { vmodelTryOnProvider } from './vmodelService';
+import { isAbortError, removeTryOnTask, throwIfAborted, TryOnTaskPendingError } from './tryOnTaskManager';
+import { findCachedTryOnResult, saveTryOnResultToCache } from './tryOnCacheService';
+import { assertWithinBudget, recordTryOnOutcome, recordTryOnTask } from './tryOnLedgerService';
+import { toTryOnError } from './tryOnErrors';
+
+// 사용할 백엔드 설정 (비어 있거나 'auto'면 사용 가능한 백엔드를 자동 선택)
+const CONFIGURED_PROVIDER: string = import.meta.env.VITE_TRYON_PROVIDER || 'auto';
+
+// 자동 선택 시 우선순위
+const AUTO_PROVIDER_ORDER: TryOnProviderId[] = ['vmodel', 'demo'];
+
+// 데모 모드: 실제 변환된 것처럼 보이는 샘플 이미지
+const DEMO_IMAGES = [
+  'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=400&h=400&fit=crop&crop=face',
+  'https://images.unsplash.com/photo-1494790108755-2616c5e93769?w=400&h=400&fit=crop&crop=face',
+  'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=400&h=400&fit=crop&crop=face',
+  'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=400&h=400&fit=crop&crop=face',
+  'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=400&h=400&fit=crop&crop=face'
+];
+
+const DEMO_PROCESSING_TIME = 3000;
+
+// 여러 스타일 한번에 체험 - 동시에 진행할 작업 수 / 한 번에 고를 수 있는 스타일 수
+const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_SIZE = 5;
+
+// 데모 가상체험 백엔드 (API 키 없이 동작)
+export const demoTryOnProvider: TryOnProvider = {
+  id: 'demo',
+  name: 'Demo',
+  isAvailable: () => true,
+  applyHairstyle: async ({ signal, onProgress }) => {
+    const startTime = Date.now();
+    onProgress?.({ stage: 'processing', elapsedMs: 0, estimatedMs: DEMO_PROCESSING_TIME });
+
+    return new Promise<TryOnResult>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('가상체험이 취소되었습니다.', 'AbortError'));
+      };
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        const randomDemo = DEMO_IMAGES[Math.floor(Math.random() * DEMO_IMAGES.length)];
+        resolve({
+          imageUrl: randomDemo,
+          providerId: 'demo',
+          isDemo: true,
+          processingTime: Date.now() - startTime
+        });
+      }, DEMO_PROCESSING_TIME);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+};
+
+// 등록된 백엔드 목록
+const providers = new Map<TryOnProviderId, TryOnProvider>();
+
+/**
+ * 가상체험 백엔드 등록 (같은 id면 교체)
+ */
+export const registerTryOnProvider = (provider: TryOnProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * 등록된 백엔드 목록 조회
+ */
+export const getTryOnProviders = (): TryOnProvider[] => {
+  return Array.from(providers.values());
+};
+
+/**
+ * 설정에 맞는 가상체험 백엔드 조회
+ * 지정한 백엔드가 없거나 사용할 수 없으면 자동 선택으로 대체한다.
+ */
+export const getTryOnProvider = (providerId: string = CONFIGURED_PROVIDER): TryOnProvider => {
+  if (providerId !== 'auto') {
+    const provider = providers.get(providerId);
+    if (provider && provider.isAvailable()) {
+      return provider;
+    }
+    console.warn(`가상체험 백엔드 '${providerId}'를 사용할 수 없습니다. 자동 선택으로 전환합니다.`);
+  }
+
+  for (const id of AUTO_PROVIDER_ORDER) {
+    const provider = providers.get(id);
+    if (provider && provider.isAvailable()) {
+      return provider;
+    }
+  }
+
+  return demoTryOnProvider;
+};
+
+// 실패 원인별 비용 기록 결과 (대기 시간 초과는 아직 진행 중이므로 null)
+const getLedgerOutcome = (error: unknown): TryOnLedgerOutcome | null => {
+  if (error instanceof TryOnTaskPendingError) return null;
+  return isAbortError(error) ? 'canceled' : 'failed';
+};
+
+/**
+ * 비용 기록과 함께 백엔드 실행
+ * 월간 한도를 먼저 확인하고, 작업이 생성되면 비용을, 끝나면 결과를 기록한다.
+ * 데모 백엔드는 크레딧을 쓰지 않으므로 그대로 실행한다.
+ */
+const runProviderWithLedger = async (
+  provider: TryOnProvider,
+  request: TryOnRequest,
+  ledger?: TryOnLedgerContext | null
+): Promise<TryOnResult> => {
+  if (!ledger || provider.id === 'demo') {
+    return provider.applyHairstyle(request);
+  }
+
+  await assertWithinBudget(ledger);
+
+  const created: { taskId?: string; recorded?: Promise<void> } = {};
+  const recordOutcome = (outcome: TryOnLedgerOutcome) => {
+    const { taskId, recorded } = created;
+    if (taskId && recorded) {
+      void recorded.then(() => recordTryOnOutcome(taskId, outcome));
+    }
+  };
+
+  try {
+    const result = await provider.applyHairstyle({
+      ...request,
+      onTaskCreated: (taskId, cost) => {
+        created.taskId = taskId;
+        created.recorded = recordTryOnTask(ledger, taskId, provider.id, cost);
+        request.onTaskCreated?.(taskId, cost);
+      }
+    });
+    recordOutcome('succeeded');
+    return result;
+  } catch (error) {
+    const outcome = getLedgerOutcome(error);
+    if (outcome) {
+      recordOutcome(outcome);
+    }
+    throw error;
+  }
+};
+
+export interface ApplyHairstyleOptions {
+  providerId?: TryOnProviderId;     // 설정 대신 사용할 백엔드
+  signal?: AbortSignal;             // 취소 신호
+  task?: TryOnTaskContext;          // 새로고침 후 이어서 확인할 작업 정보
+  cache?: TryOnCacheContext | null; // 있으면 같은 얼굴 + 스타일 결과를 재사용하고 새 결과를 저장
+  ledger?: TryOnLedgerContext | null;  // 있으면 월간 한도를 확인하고 비용을 기록
+  onProgress?: (event: TryOnProgressEvent) => void;  // 진행 단계 알림
+}
+
+/**
+ * 헤어스타일 적용 (설정된 백엔드 사용)
+ * cache를 주면 저장된 결과부터 확인하므로 같은 얼굴 + 스타일은 업로드/크레딧 없이 바로 반환된다.
+ */
+export const applyHairstyle = async (
+  faceFile: File,
+  hairstyleFile: File | string,
+  hairstyleDescription: string,
+  options: ApplyHairstyleOptions = {}
+): Promise<TryOnResult> => {
+  const { cache } = options;
+  if (cache) {
+    const cached = await findCachedTryOnResult(faceFile, cache);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const provider = getTryOnProvider(options.providerId);
+
+  if (provider.id === 'demo') {
+    console.warn('가상체험 API가 설정되지 않음. 데모 모드로 실행합니다.');
+  }
+
+  const request: TryOnRequest = {
+    faceFile,
+    hairstyleFile,
+    hairstyleDescription,
+    signal: options.signal,
+    task: options.task,
+    onProgress: options.onProgress
+  };
+  const result = await runProviderWithLedger(provider, request, options.ledger);
+
+  if (cache) {
+    await saveTryOnResultToCache(faceFile, cache, result);
+  }
+  return result;
+};
+
+export interface TryOnBatchStyle {
+  id: string;                       // 결과를 구분할 키 (스타일 URL)
+  styleId?: string;                 // 캐시에 사용할 스타일 ID (없으면 id)
+  styleName?: string;               // 비용 기록용 스타일 이름
+  hairstyleFile: File | string;     // 헤어스타일 이미지 (File 또는 URL)
+  hairstyleDescription: string;     // 헤어스타일 설명
+}
+
+export interface ApplyHairstyleBatchOptions {
+  providerId?: TryOnProviderId;     // 설정 대신 사용할 백엔드
+  signal?: AbortSignal;             // 취소 신호 (모든 스타일 중단)
+  concurrency?: number;             // 동시에 진행할 작업 수
+  cache?: TryOnCacheScope | null;   // 있으면 스타일별로 저장된 결과를 재사용
+  ledger?: Omit<TryOnLedgerContext, 'styleUrl' | 'styleName'> | null;  // 있으면 월간 한도 확인 + 스타일별 비용 기록
+  onItemUpdate?: (styleId: string, state: TryOnBatchItemState) => void;  // 스타일별 상태 변경 알림
+}
+
+/**
+ * 여러 헤어스타일 한번에 적용
+ * 얼굴 사진은 한 번만 업로드하고, 스타일별 작업은 동시 실행 수를 제한해 진행한다.
+ * 한 스타일이 실패해도 나머지는 계속 진행하며, 완료되는 대로 onItemUpdate로 알린다.
+ * 캐시된 결과가 있는 스타일은 바로 완료 처리하고, 나머지가 없으면 얼굴 사진도 올리지 않는다.
+ */
+export const applyHairstyleBatch = async (
+  faceFile: File,
+  styles: TryOnBatchStyle[],
+  options: ApplyHairstyleBatchOptions = {}
+): Promise<Record<string, TryOnBatchItemState>> => {
+  const { signal, onItemUpdate, cache, ledger } = options;
+  const provider = getTryOnProvider(options.providerId);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY);
+  const states: Record<string, TryOnBatchItemState> = {};
+
+  const updateItem = (styleId: string, state: TryOnBatchItemState) => {
+    states[styleId] = state;
+    onItemUpdate?.(styleId, state);
+  };
+
+  styles.forEach(style => updateItem(style.id, { status: 'queued' }));
+
+  const getCacheContext = (style: TryOnBatchStyle): TryOnCacheContext | null => {
+    return cache ? { ...cache, styleId: style.styleId || style.id } : null;
+  };
+
+  // 캐시된 결과 먼저 반영
+  const pendingStyles: TryOnBatchStyle[] = [];
+  for (const style of styles) {
+    const cacheContext = getCacheContext(style);
+    const cached = cacheContext ? await findCachedTryOnResult(faceFile, cacheContext) : null;
+    if (cached) {
+      updateItem(style.id, { status: 'done', result: cached });
+    } else {
+      pendingStyles.push(style);
+    }
+  }
+
+  if (pendingStyles.length === 0) {
+    return states;
+  }
+
+  // 한도를 이미 다 썼으면 얼굴 사진도 올리지 않음
+  if (ledger && provider.id !== 'demo') {
+    await assertWithinBudget({ ...ledger, styleUrl: pendingStyles[0].id });
+  }
+
+  // 얼굴 사진은 한 번만 업로드 (업로드를 지원하지 않는 백엔드는 File 그대로 전달)
+  throwIfAborted(signal);
+  const face = provider.uploadFace
+    ? await provider.uploadFace(faceFile, signal)
+    : faceFile;
+
+  let nextIndex = 0;
+  const runWorker = async (): Promise<void> => {
+    while (nextIndex < pendingStyles.length) {
+      throwIfAborted(signal);
+      const style = pendingStyles[nextIndex++];
+      updateItem(style.id, { status: 'running' });
+
+      try {
+        const result = await runProviderWithLedger(provider, {
+          faceFile: face,
+          hairstyleFile: style.hairstyleFile,
+          hairstyleDescription: style.hairstyleDescription,
+          signal,
+          onProgress: progress => updateItem(style.id, { status: 'running', progress })
+        }, ledger && { ...ledger, styleUrl: style.id, styleName: style.styleName });
+        const cacheContext = getCacheContext(style);
+        if (cacheContext) {
+          await saveTryOnResultToCache(faceFile, cacheContext, result);
+        }
+        updateItem(style.id, { status: 'done', result });
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.error(`❌ 스타일 적용 실패 (${style.id}):`, error);
+        const tryOnError = toTryOnError(error);
+        updateItem(style.id, {
+          status: 'error',
+          error: tryOnError.message,
+          i18nKey: tryOnError.i18nKey || undefined
+        });
+      }
+    }
+  };
+
+  const workerCount = Math.min(concurrency, pendingStyles.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return states;
+};
+
+/**
+ * 저장된 작업 이어서 확인 (새로고침, 대기 시간 초과 후)
+ */
+export const resumeTryOnTask = async (
+  record: TryOnTaskRecord,
+  options: TryOnResumeOptions = {}
+): Promise<TryOnResult> => {
+  const provider = providers.get(record.providerId);
+
+  if (!provider?.resumeTask || !provider.isAvailable()) {
+    await removeTryOnTask(record.taskId);
+    throw new Error('진행 중이던 가상체험을 이어서 확인할 수 없습니다.');
+  }
+
+  try {
+    const result = await provider.resumeTask(record, options);
+    await recordTryOnOutcome(record.taskId, 'succeeded');
+    return result;
+  } catch (error) {
+    const outcome = getLedgerOutcome(error);
+    if (outcome) {
+      await recordTryOnOutcome(record.taskId, outcome);
+    }
+    throw error;
+  }
+};
+
+registerTryOnProvider(vmodelTryOnProvider);
+registerTryOnProvider(demoTryOnProvider);
@@ -0,0 +1,211 @@
+// 가상체험 작업 관리 - 진행 중인 작업 저장(IndexedDB), 취소, 지수 백오프 폴링
+import { TryOnTaskRecord } from '../types';
+import { TryOnTimeoutError } from './tryOnErrors';
+
+const DB_NAME = 'hairfolio';
+const DB_VERSION = 1;
+const TASK_STORE = 'tryonTasks';
+
+// IndexedDB를 쓸 수 없는 환경(사파리 프라이빗 모드 등)의 대체 저장소
+const FALLBACK_STORAGE_KEY = 'hairfolio_tryon_tasks';
+
+// 폴링 설정 (지수 백오프)
+const INITIAL_POLL_DELAY = 2000;   // 첫 대기 2초
+const MAX_POLL_DELAY = 15000;      // 최대 15초 간격
+const BACKOFF_FACTOR = 1.5;
+export const MAX_POLL_DURATION = 5 * 60 * 1000; // 한 번에 최대 5분 대기
+
+// 저장된 작업을 오래 붙잡고 있지 않도록 하루가 지나면 버림
+const TASK_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * 대기 시간을 넘겼지만 작업은 아직 진행 중일 때 발생
+ * 작업 기록은 지워지지 않으므로 resumeTryOnTask로 이어서 확인할 수 있다.
+ */
+export class TryOnTaskPendingError extends TryOnTimeoutError {
+  readonly taskId: string;
+
+  constructor(taskId: string) {
+    super('가상체험이 아직 처리 중입니다.');
+    this.name = 'TryOnTaskPendingError';
+    this.taskId = taskId;
+  }
+}
+
+/**
+ * AbortSignal로 취소된 작업인지 확인
+ */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * 이미 취소된 신호면 AbortError 발생
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new DOMException('가상체험이 취소되었습니다.', 'AbortError');
+  }
+};
+
+/**
+ * attempt번째 폴링 전 대기 시간 (ms)
+ */
+export const getPollDelay = (attempt: number): number => {
+  return Math.min(INITIAL_POLL_DELAY * Math.pow(BACKOFF_FACTOR, attempt), MAX_POLL_DELAY);
+};
+
+/**
+ * 다음 폴링까지 대기 (취소 신호가 오면 즉시 AbortError)
+ */
+export const waitForNextPoll = (attempt: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('가상체험이 취소되었습니다.', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('가상체험이 취소되었습니다.', 'AbortError'));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, getPollDelay(attempt));
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// ===== 작업 저장소 =====
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TASK_STORE)) {
+          db.createObjectStore(TASK_STORE, { keyPath: 'taskId' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('⚠️ IndexedDB 열기 실패, localStorage 사용:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn('⚠️ IndexedDB 사용 불가, localStorage 사용:', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+const runStoreRequest = <T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(TASK_STORE, mode);
+    const request = action(transaction.objectStore(TASK_STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readFallbackTasks = (): Record<string, TryOnTaskRecord> => {
+  try {
+    return JSON.parse(localStorage.getItem(FALLBACK_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeFallbackTasks = (tasks: Record<string, TryOnTaskRecord>): void => {
+  try {
+    localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(tasks));
+  } catch (error) {
+    console.error('진행 중인 작업 저장 실패:', error);
+  }
+};
+
+/**
+ * 진행 중인 작업 저장
+ */
+export const saveTryOnTask = async (record: TryOnTaskRecord): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    if (!db) {
+      const tasks = readFallbackTasks();
+      tasks[record.taskId] = record;
+      writeFallbackTasks(tasks);
+      return;
+    }
+
+    await runStoreRequest(db, 'readwrite', store => store.put(record));
+  } catch (error) {
+    // 저장 실패는 가상체험 자체를 막지 않음
+    console.error('진행 중인 작업 저장 실패:', error);
+  }
+};
+
+/**
+ * 작업 기록 삭제 (완료, 실패, 취소 시)
+ */
+export const removeTryOnTask = async (taskId: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    if (!db) {
+      const tasks = readFallbackTasks();
+      delete tasks[taskId];
+      writeFallbackTasks(tasks);
+      return;
+    }
+
+    await runStoreRequest(db, 'readwrite', store => store.delete(taskId));
+  } catch (error) {
+    console.error('작업 기록 삭제 실패:', error);
+  }
+};
+
+/**
+ * 저장된 작업 조회 (scope를 주면 해당 화면에서 시작한 작업만, 최신순)
+ */
+export const getPendingTryOnTasks = async (scope?: string): Promise<TryOnTaskRecord[]> => {
+  try {
+    const db = await openDatabase();
+    const records = db
+      ? await runStoreRequest<TryOnTaskRecord[]>(db, 'readonly', store => store.getAll())
+      : Object.values(readFallbackTasks());
+
+    const now = Date.now();
+    const expired = records.filter(record => now - Date.parse(record.createdAt) > TASK_TTL);
+    await Promise.all(expired.map(record => removeTryOnTask(record.taskId)));
+
+    return records
+      .filter(record => !expired.includes(record))
+      .filter(record => !scope || record.scope === scope)
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
+  } catch (error) {
+    console.error('진행 중인 작업 조회 실패:', error);
+    return [];
+  }
+};
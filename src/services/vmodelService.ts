@@ -1,7 +1,32 @@
-import { VModelResponse, VModelRequest } from '../types';
+import {
+  TryOnProgressEvent,
+  TryOnProvider,
+  TryOnRequest,
+  TryOnResult,
+  TryOnResumeOptions,
+  TryOnTaskRecord
+} from '../types';
+import {
+  MAX_POLL_DURATION,
+  TryOnTaskPendingError,
+  isAbortError,
+  removeTryOnTask,
+  saveTryOnTask,
+  throwIfAborted,
+  waitForNextPoll
+} from './tryOnTaskManager';
+import { VMODEL_API_BASE_URL, getCloudinaryUploadUrl } from './apiConfig';
+import {
+  TryOnAuthError,
+  TryOnInsufficientCreditsError,
+  TryOnNoFaceDetectedError,
+  TryOnSafetyBlockedError,
+  TryOnTimeoutError,
+  TryOnUploadFailedError
+} from './tryOnErrors';
 
 // VModel API 설정 - 올바른 엔드포인트
-const API_BASE_URL = 'https://api.vmodel.ai/api/tasks/v1';
+const API_BASE_URL = `${VMODEL_API_BASE_URL}/api/tasks/v1`;
 const API_TOKEN = import.meta.env.VITE_VMODEL_API_TOKEN;
 const HAIRSTYLE_MODEL_VERSION = '5c0440717a995b0bbd93377bd65dbb4fe360f67967c506aa6bd8f6b660733a7e';
 
@@ -10,6 +35,11 @@ if (!API_TOKEN) {
   console.warn('VModel API token이 설정되지 않았습니다. .env.local 파일에 VITE_VMODEL_API_TOKEN을 추가하세요.');
 }
 
+// 예상 처리 시간 계산용 (최근 완료된 Task의 predict_time, 초 단위)
+const PREDICT_TIME_STORAGE_KEY = 'hairfolio_vmodel_predict_times';
+const PREDICT_TIME_HISTORY_SIZE = 10;
+const DEFAULT_ESTIMATED_TIME = 30000; // 기록이 없으면 30초로 안내
+
 // VModel Task 응답 타입
 interface VModelTask {
   task_id: string;
@@ -53,7 +83,7 @@ const uploadImageToCloudinary = async (file: File): Promise<string> => {
     });
   } catch (error) {
     console.error('Cloudinary 업로드 실패:', error);
-    throw new Error('이미지 업로드에 실패했습니다. 네트워크 연결을 확인해주세요.');
+    throw new TryOnUploadFailedError();
   }
 };
 
@@ -76,7 +106,7 @@ const reuploadToCloudinary = async (externalUrl: string): Promise<string> => {
     formData.append('folder', 'hairfolio/results'); // 결과물은 별도 폴더에 저장
     formData.append('tags', 'hairfolio,vmodel-result,trial');
 
-    const uploadUrl = `https://api.cloudinary.com/v1_1/${cloudName}/image/upload`;
+    const uploadUrl = getCloudinaryUploadUrl(cloudName);
     
     const response = await fetch(uploadUrl, {
       method: 'POST',
@@ -104,120 +134,242 @@ const reuploadToCloudinary = async (externalUrl: string): Promise<string> => {
   }
 };
 
-// Task 상태를 폴링하여 완료까지 기다리는 함수
-const pollTaskStatus = async (taskId: string): Promise<VModelTask> => {
-  const maxAttempts = 60; // 최대 5분 대기 (5초 간격)
-  const pollInterval = 5000; // 5초
+// 얼굴을 찾지 못했을 때 VModel이 보내는 오류 (코드 / 문구) - 'face'가 들어간 다른 오류(업로드 시간 초과 등)는 일반 오류로 처리
+const NO_FACE_PATTERNS = [
+  /\bno[_ ]face\b/i,
+  /\bno faces? (?:was |were )?(?:detected|found)\b/i,
+  /\bfaces? (?:was |were )?not (?:detected|found)\b/i,
+  /\b(?:could not|cannot|can't|unable to|failed to) (?:detect|find|recognize) (?:a |any |the )?faces?\b/i
+];
+
+// 실패한 Task의 오류 메시지로 원인 분류
+const toTaskError = (message: string | null): Error => {
+  if (message && /nsfw|safety|inappropriate/i.test(message)) {
+    return new TryOnSafetyBlockedError();
+  }
+  if (message && NO_FACE_PATTERNS.some(pattern => pattern.test(message))) {
+    return new TryOnNoFaceDetectedError();
+  }
+  return new Error(message || 'VModel 처리 중 오류가 발생했습니다.');
+};
 
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    try {
-      const response = await fetch(`${API_BASE_URL}/get/${taskId}`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${API_TOKEN}`,
-          'Content-Type': 'application/json'
-        }
-      });
+// Task 상태 조회
+const fetchTask = async (taskId: string, signal?: AbortSignal): Promise<VModelTask> => {
+  const response = await fetch(`${API_BASE_URL}/get/${taskId}`, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${API_TOKEN}`,
+      'Content-Type': 'application/json'
+    },
+    signal
+  });
+
+  if (!response.ok) {
+    throw new Error(`Task 상태 확인 실패: ${response.status}`);
+  }
+
+  const data: VModelGetResponse = await response.json();
+  return data.result;
+};
 
-      if (!response.ok) {
-        throw new Error(`Task 상태 확인 실패: ${response.status}`);
+// Task 취소 요청 (실패해도 무시)
+const cancelTask = async (taskId: string): Promise<void> => {
+  try {
+    await fetch(`${API_BASE_URL}/cancel/${taskId}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${API_TOKEN}`,
+        'Content-Type': 'application/json'
       }
+    });
+    console.log('🛑 VModel Task 취소 요청:', taskId);
+  } catch (error) {
+    console.warn('VModel Task 취소 요청 실패:', error);
+  }
+};
 
-      const data: VModelGetResponse = await response.json();
-      const task = data.result;
+// 최근 Task의 predict_time 평균으로 예상 처리 시간 계산 (ms)
+const getEstimatedProcessingTime = (): number => {
+  try {
+    const history: number[] = JSON.parse(localStorage.getItem(PREDICT_TIME_STORAGE_KEY) || '[]');
+    if (history.length === 0) {
+      return DEFAULT_ESTIMATED_TIME;
+    }
+    const average = history.reduce((sum, seconds) => sum + seconds, 0) / history.length;
+    return Math.round(average * 1000);
+  } catch {
+    return DEFAULT_ESTIMATED_TIME;
+  }
+};
 
-      // Task 완료 상태 확인
-      if (task.status === 'succeeded') {
-        return task;
-      } else if (task.status === 'failed') {
-        throw new Error(task.error || 'VModel 처리 중 오류가 발생했습니다.');
-      } else if (task.status === 'canceled') {
-        throw new Error('Task가 취소되었습니다.');
-      }
+// 완료된 Task의 predict_time 기록
+const recordPredictTime = (predictTime: number): void => {
+  if (!predictTime || predictTime <= 0) return;
 
-      // 아직 처리 중이면 대기
-      if (task.status === 'starting' || task.status === 'processing') {
-        await new Promise(resolve => setTimeout(resolve, pollInterval));
-        continue;
-      }
+  try {
+    const history: number[] = JSON.parse(localStorage.getItem(PREDICT_TIME_STORAGE_KEY) || '[]');
+    const updated = [predictTime, ...history].slice(0, PREDICT_TIME_HISTORY_SIZE);
+    localStorage.setItem(PREDICT_TIME_STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.warn('predict_time 기록 실패:', error);
+  }
+};
+
+// Task 상태를 폴링하여 완료까지 기다리는 함수 (지수 백오프)
+const pollTaskStatus = async (
+  taskId: string,
+  signal?: AbortSignal,
+  onProgress?: (event: TryOnProgressEvent) => void
+): Promise<VModelTask> => {
+  const startedAt = Date.now();
+  const estimatedMs = getEstimatedProcessingTime();
 
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+
+    let task: VModelTask | null = null;
+    try {
+      task = await fetchTask(taskId, signal);
     } catch (error) {
-      if (attempt === maxAttempts - 1) {
+      if (isAbortError(error)) {
         throw error;
       }
       // 임시 오류인 경우 재시도
-      await new Promise(resolve => setTimeout(resolve, pollInterval));
+      console.warn('⚠️ Task 상태 확인 실패, 재시도합니다:', error);
+    }
+
+    // Task 완료 상태 확인
+    if (task?.status === 'succeeded') {
+      recordPredictTime(task.predict_time);
+      return task;
+    } else if (task?.status === 'failed') {
+      console.error('❌ VModel Task 실패:', task.error);
+      throw toTaskError(task.error);
+    } else if (task?.status === 'canceled') {
+      throw new Error('Task가 취소되었습니다.');
+    }
+
+    if (task?.status === 'processing') {
+      // create_at은 초 단위 타임스탬프
+      const createdAt = task.create_at > 0 ? task.create_at * 1000 : startedAt;
+      onProgress?.({
+        stage: 'processing',
+        taskId,
+        elapsedMs: Math.max(0, Date.now() - createdAt),
+        estimatedMs: task.predict_time > 0 ? task.predict_time * 1000 : estimatedMs
+      });
+    }
+
+    // 대기 시간 초과 - 작업은 기록에 남겨 두고 나중에 이어서 확인
+    if (Date.now() - startedAt >= MAX_POLL_DURATION) {
+      throw new TryOnTaskPendingError(taskId);
     }
-  }
 
-  throw new Error('처리 시간이 초과되었습니다. 다시 시도해주세요.');
+    // 아직 처리 중이면 대기
+    await waitForNextPoll(attempt, signal);
+  }
 };
 
-// 헤어스타일 분석 함수 (VModel API에는 없으므로 간단한 분석)
-export const analyzeHairstyle = async (hairstyleFile: File): Promise<string> => {
+// 생성된 Task의 완료를 기다린 뒤 결과 URL 반환 (새 요청 / 이어서 확인 공용)
+const completeTask = async (
+  taskId: string,
+  startTime: number,
+  { signal, onProgress }: TryOnResumeOptions = {}
+): Promise<TryOnResult> => {
   try {
-    // VModel API에는 별도 분석 기능이 없으므로 기본 설명 생성
-    return new Promise<string>((resolve) => {
-      setTimeout(() => {
-        const descriptions = [
-          'modern layered cut with natural texture',
-          'sleek straight hair with subtle highlights',
-          'wavy shoulder-length style with volume',
-          'short pixie cut with edgy finish',
-          'long flowing hair with soft curls',
-          'bob cut with blunt edges',
-          'textured shag with face-framing layers'
-        ];
-        const randomDescription = descriptions[Math.floor(Math.random() * descriptions.length)];
-        resolve(randomDescription);
-      }, 1500);
-    });
+    // 3단계: Task 완료까지 폴링
+    console.log('⏳ VModel 처리 대기 중...');
+    onProgress?.({ stage: 'task-queued', taskId });
+    const completedTask = await pollTaskStatus(taskId, signal, onProgress);
+
+    // 4단계: 결과 이미지 URL 반환
+    if (!completedTask.output || completedTask.output.length === 0) {
+      throw new Error('VModel에서 결과 이미지를 생성하지 못했습니다.');
+    }
+
+    const vmodelResultUrl = completedTask.output[0];
+    console.log('✅ VModel 처리 완료:', vmodelResultUrl);
+    
+    // 5단계: VModel 임시 URL을 Cloudinary로 영구 보관
+    let imageUrl = vmodelResultUrl;
+    onProgress?.({ stage: 'saving-result' });
+    try {
+      imageUrl = await reuploadToCloudinary(vmodelResultUrl);
+      console.log('💾 최종 결과 URL (영구):', imageUrl);
+    } catch (reuploadError) {
+      console.error('⚠️ Cloudinary 재업로드 실패, VModel 임시 URL 반환:', reuploadError);
+      // 재업로드 실패 시 원본 URL 반환 (fallback)
+    }
+
+    await removeTryOnTask(taskId);
+
+    return {
+      imageUrl,
+      providerId: 'vmodel',
+      isDemo: false,
+      taskId,
+      processingTime: Date.now() - startTime
+    };
   } catch (error) {
-    throw new Error('헤어스타일 분석 중 오류가 발생했습니다.');
+    if (error instanceof TryOnTaskPendingError) {
+      throw error;
+    }
+
+    if (isAbortError(error)) {
+      void cancelTask(taskId);
+    }
+
+    await removeTryOnTask(taskId);
+    throw error;
   }
 };
 
+// API 토큰 설정 여부
+const isVModelConfigured = (): boolean => {
+  return !!API_TOKEN && API_TOKEN !== 'your_vmodel_api_token_here';
+};
+
 // 헤어스타일 적용 함수 (메인 기능) - VModel API 사용
-export const applyHairstyle = async (
-  faceFile: File,
-  hairstyleFile: File | string,
-  hairstyleDescription: string
-): Promise<string> => {
+const applyHairstyleWithVModel = async ({
+  faceFile,
+  hairstyleFile,
+  signal,
+  task,
+  onProgress,
+  onTaskCreated
+}: TryOnRequest): Promise<TryOnResult> => {
+  const startTime = Date.now();
+
   try {
-    if (!API_TOKEN || API_TOKEN === 'your_vmodel_api_token_here') {
-      console.warn('VModel API 토큰이 설정되지 않음. 데모 모드로 실행합니다.');
-      
-      // 데모 모드: 실제 변환된 것처럼 보이는 샘플 이미지 반환
-      return new Promise<string>((resolve) => {
-        setTimeout(() => {
-          const demoImages = [
-            'https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=400&h=400&fit=crop&crop=face',
-            'https://images.unsplash.com/photo-1494790108755-2616c5e93769?w=400&h=400&fit=crop&crop=face',
-            'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=400&h=400&fit=crop&crop=face',
-            'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=400&h=400&fit=crop&crop=face',
-            'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=400&h=400&fit=crop&crop=face'
-          ];
-          const randomDemo = demoImages[Math.floor(Math.random() * demoImages.length)];
-          resolve(randomDemo);
-        }, 3000);
-      });
+    if (!isVModelConfigured()) {
+      console.error('VModel API 토큰이 설정되지 않았습니다.');
+      throw new TryOnAuthError();
     }
 
+    throwIfAborted(signal);
     console.log('🚀 VModel API 요청 시작...');
 
     // 1단계: 이미지를 Cloudinary에 업로드하여 URL 획득
-    const targetImageUrl = await uploadImageToCloudinary(faceFile);
-    console.log('✅ 얼굴 이미지 업로드 완료:', targetImageUrl);
+    let targetImageUrl: string;
+    if (typeof faceFile === 'string') {
+      targetImageUrl = faceFile; // 이미 업로드된 경우 (여러 스타일 체험)
+    } else {
+      onProgress?.({ stage: 'face-upload' });
+      targetImageUrl = await uploadImageToCloudinary(faceFile);
+      console.log('✅ 얼굴 이미지 업로드 완료:', targetImageUrl);
+    }
 
     let sourceImageUrl: string;
     if (typeof hairstyleFile === 'string') {
       sourceImageUrl = hairstyleFile; // 이미 URL인 경우
     } else {
+      onProgress?.({ stage: 'style-upload' });
       sourceImageUrl = await uploadImageToCloudinary(hairstyleFile);
       console.log('✅ 헤어스타일 이미지 업로드 완료:', sourceImageUrl);
     }
 
     // 2단계: VModel Task 생성
+    throwIfAborted(signal);
     const createResponse = await fetch(`${API_BASE_URL}/create`, {
       method: 'POST',
       headers: {
@@ -231,19 +383,20 @@ export const applyHairstyle = async (
           target: targetImageUrl,    // 변경할 사람의 사진
           disable_safety_checker: false
         }
-      })
+      }),
+      signal
     });
 
     if (!createResponse.ok) {
       const errorText = await createResponse.text();
       console.error('❌ VModel Task 생성 실패:', errorText);
       
-      if (createResponse.status === 401) {
-        throw new Error('API 키가 유효하지 않습니다. VModel 계정을 확인해주세요.');
+      if (createResponse.status === 401 || createResponse.status === 403) {
+        throw new TryOnAuthError();
       } else if (createResponse.status === 402) {
-        throw new Error('크레딧이 부족합니다. VModel 계정에서 크레딧을 충전해주세요.');
-      } else if (createResponse.status === 403) {
-        throw new Error('API 접근이 거부되었습니다. API 키 권한을 확인해주세요.');
+        throw new TryOnInsufficientCreditsError();
+      } else if (createResponse.status === 408 || createResponse.status === 504) {
+        throw new TryOnTimeoutError();
       }
       
       throw new Error(`VModel API 오류: ${createResponse.status}`);
@@ -257,31 +410,28 @@ export const applyHairstyle = async (
 
     const taskId = createData.result.task_id;
     console.log('📋 VModel Task 생성됨:', taskId, '비용:', createData.result.task_cost);
-
-    // 3단계: Task 완료까지 폴링
-    console.log('⏳ VModel 처리 대기 중...');
-    const completedTask = await pollTaskStatus(taskId);
-
-    // 4단계: 결과 이미지 URL 반환
-    if (!completedTask.output || completedTask.output.length === 0) {
-      throw new Error('VModel에서 결과 이미지를 생성하지 못했습니다.');
+    onTaskCreated?.(taskId, createData.result.task_cost);
+
+    // 새로고침 후에도 이어서 확인할 수 있도록 작업 기록
+    if (task) {
+      await saveTryOnTask({
+        taskId,
+        providerId: 'vmodel',
+        scope: task.scope,
+        faceImageUrl: targetImageUrl,
+        styleUrl: task.styleUrl,
+        styleName: task.styleName,
+        createdAt: new Date(startTime).toISOString()
+      });
     }
 
-    const vmodelResultUrl = completedTask.output[0];
-    console.log('✅ VModel 처리 완료:', vmodelResultUrl);
-    
-    // 5단계: VModel 임시 URL을 Cloudinary로 영구 보관
-    try {
-      const permanentUrl = await reuploadToCloudinary(vmodelResultUrl);
-      console.log('💾 최종 결과 URL (영구):', permanentUrl);
-      return permanentUrl;
-    } catch (reuploadError) {
-      console.error('⚠️ Cloudinary 재업로드 실패, VModel 임시 URL 반환:', reuploadError);
-      // 재업로드 실패 시 원본 URL 반환 (fallback)
-      return vmodelResultUrl;
-    }
+    return await completeTask(taskId, startTime, { signal, onProgress });
 
   } catch (error) {
+    if (isAbortError(error) || error instanceof TryOnTaskPendingError) {
+      throw error;
+    }
+
     console.error('❌ VModel API Error:', error);
     
     if (error instanceof Error) {
@@ -291,10 +441,28 @@ export const applyHairstyle = async (
   }
 };
 
+// VModel 가상체험 백엔드
+export const vmodelTryOnProvider: TryOnProvider = {
+  id: 'vmodel',
+  name: 'VModel AI',
+  isAvailable: isVModelConfigured,
+  applyHairstyle: applyHairstyleWithVModel,
+  uploadFace: async (faceFile: File, signal?: AbortSignal) => {
+    throwIfAborted(signal);
+    const faceImageUrl = await uploadImageToCloudinary(faceFile);
+    console.log('✅ 얼굴 이미지 업로드 완료:', faceImageUrl);
+    return faceImageUrl;
+  },
+  resumeTask: (record: TryOnTaskRecord, options?: TryOnResumeOptions) => {
+    console.log('🔁 진행 중이던 VModel Task 이어서 확인:', record.taskId);
+    return completeTask(record.taskId, Date.parse(record.createdAt), options);
+  }
+};
+
 // API 상태 확인 함수
 export const checkAPIStatus = async (): Promise<boolean> => {
   try {
-    if (!API_TOKEN || API_TOKEN === 'your_vmodel_api_token_here') {
+    if (!isVModelConfigured()) {
       return false;
     }
     
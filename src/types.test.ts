@@ -0,0 +1,24 @@
+// 퍼스널 컬러 변환 테스트 - 이전 분석기 문자열 / 12톤 / 4계절
+import { describe, expect, it } from 'vitest';
+import { getPersonalColorSeason, normalizePersonalColor } from './types';
+
+describe('normalizePersonalColor', () => {
+  it('이전 분석기 문자열은 세부 톤이 같은 가장 가까운 12톤으로', () => {
+    expect(normalizePersonalColor('봄 웜톤 (뮤트)')).toBe('가을 웜톤 뮤트');
+    expect(normalizePersonalColor('겨울 쿨톤 (브라이트)')).toBe('겨울 쿨톤 브라이트');
+  });
+
+  it('12톤과 4계절은 그대로, 알 수 없는 값은 null', () => {
+    expect(normalizePersonalColor('여름 쿨톤 뮤트')).toBe('여름 쿨톤 뮤트');
+    expect(normalizePersonalColor('가을 웜톤')).toBe('가을 웜톤');
+    expect(normalizePersonalColor('봄 웜톤 뮤트')).toBeNull();
+    expect(normalizePersonalColor('toString')).toBeNull();
+    expect(normalizePersonalColor('constructor')).toBeNull();
+  });
+
+  it('12톤은 계절로 대응', () => {
+    expect(getPersonalColorSeason('겨울 쿨톤 딥')).toBe('겨울 쿨톤');
+    expect(getPersonalColorSeason('봄 웜톤')).toBe('봄 웜톤');
+    expect(getPersonalColorSeason('toString')).toBeNull();
+  });
+});
@@ -1,7 +1,8 @@
 // src/types.ts - 완전한 최종 버전 (일반 사용자 기능 포함)
 
 // Loading states for UI components
-export type LoadingState = 'idle' | 'analyzing' | 'generating' | 'error' | 'done';
+// 'pending': 대기 시간을 넘겼지만 백엔드 작업은 계속 진행 중 (나중에 이어서 확인 가능)
+export type LoadingState = 'idle' | 'analyzing' | 'generating' | 'pending' | 'error' | 'done';
 
 // Gender types for hairstyle categorization
 export type Gender = 'Female' | 'Male';
@@ -45,6 +46,7 @@ export interface ClientProfile {
   preferences?: {
     faceShape?: FaceShapeType;         // 얼굴형
     personalColor?: PersonalColorType; // 퍼스널 컬러
+    analysisVersion?: number;          // 위 값을 판정한 얼굴 분석 버전
   };
   createdAt: string;
   updatedAt: string;
@@ -155,14 +157,46 @@ export type FaceShapeType =
   | '알 수 없음';     // Unknown
 
 /**
- * 퍼스널 컬러 타입 (4계절)
+ * 퍼스널 컬러 4계절
  */
-export type PersonalColorType = 
+export type PersonalColorSeason =
   | '봄 웜톤'    // Spring Warm - 밝고 따뜻한 톤
   | '여름 쿨톤'  // Summer Cool - 부드러운 차가운 톤
   | '가을 웜톤'  // Autumn Warm - 깊고 따뜻한 톤
-  | '겨울 쿨톤'  // Winter Cool - 선명한 차가운 톤
-  | null;
+  | '겨울 쿨톤'; // Winter Cool - 선명한 차가운 톤
+
+/**
+ * 계절 안의 세부 톤 (라이트: 밝음, 브라이트: 선명함, 뮤트: 탁함, 딥: 어두움, 트루: 계절 대표)
+ */
+export type PersonalColorVariant = 'light' | 'bright' | 'muted' | 'deep' | 'true';
+
+/**
+ * 퍼스널 컬러 12톤 (계절마다 3가지) - 일반적인 12계절 체계
+ * 계절마다 대표 톤(트루)과, 이웃 계절 쪽으로 치우친 두 톤을 둔다.
+ * - 봄: 라이트(여름 쪽) / 브라이트(겨울 쪽)    - 여름: 라이트(봄 쪽) / 뮤트(가을 쪽)
+ * - 가을: 뮤트(여름 쪽) / 딥(겨울 쪽)          - 겨울: 딥(가을 쪽) / 브라이트(봄 쪽)
+ * 그래서 봄 뮤트, 여름 브라이트 / 딥, 겨울 라이트 / 뮤트, 가을 라이트 / 브라이트는 없다.
+ * (따뜻하고 탁한 톤은 가을 뮤트, 차갑고 탁한 톤은 여름 뮤트)
+ */
+export type PersonalColorTone =
+  | '봄 웜톤 라이트'
+  | '봄 웜톤 브라이트'
+  | '봄 웜톤 트루'
+  | '여름 쿨톤 라이트'
+  | '여름 쿨톤 뮤트'
+  | '여름 쿨톤 트루'
+  | '가을 웜톤 뮤트'
+  | '가을 웜톤 딥'
+  | '가을 웜톤 트루'
+  | '겨울 쿨톤 딥'
+  | '겨울 쿨톤 브라이트'
+  | '겨울 쿨톤 트루';
+
+/**
+ * 퍼스널 컬러 타입 - 얼굴 분석은 12톤, 스타일 추천은 4계절 또는 12톤
+ * 12톤은 getPersonalColorSeason으로 4계절에 대응된다.
+ */
+export type PersonalColorType = PersonalColorSeason | PersonalColorTone | null;
 
 /**
  * 얼굴 랜드마크 포인트 (MediaPipe Face Mesh - 468개)
@@ -181,20 +215,154 @@ export interface SkinTone {
   g: number;    // Green 값 (0-255)
   b: number;    // Blue 값 (0-255)
   hex: string;  // Hex 색상 코드 (#RRGGBB)
+  lab?: LabColor;                      // CIELAB (D65) - 퍼스널 컬러 판정용
+  whiteBalance?: WhiteBalanceSource;   // 적용한 화이트밸런스 보정
+  sampleCount?: number;                // 평균에 사용한 피부 픽셀 수
+}
+
+/**
+ * CIELAB 색상 (L: 0-100 밝기, a: +빨강/-초록, b: +노랑/-파랑)
+ */
+export interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * 피부톤 화이트밸런스 보정 기준
+ * - sclera: 눈 흰자를 무채색 기준으로 사용
+ * - grey-world: 사진 전체 평균을 무채색으로 가정
+ * - none: 보정 없음 (기준을 찾지 못함)
+ */
+export type WhiteBalanceSource = 'sclera' | 'grey-world' | 'none';
+
+/**
+ * 얼굴형 판정에 쓰인 측정값 (길이는 원본 이미지 픽셀, 비율은 광대 너비 기준)
+ */
+export interface FaceMeasurements {
+  foreheadWidth: number;             // 이마 너비
+  cheekboneWidth: number;            // 광대 너비
+  jawWidth: number;                  // 턱 너비 (턱각 사이)
+  faceLength: number;                // 얼굴 길이 (이마 위 ~ 턱 끝)
+  chinAngle: number;                 // 턱 끝에서 양쪽 턱각을 잇는 각도 (도, 작을수록 뾰족)
+  lengthRatio: number;               // 얼굴 길이 / 광대 너비
+  foreheadRatio: number;             // 이마 너비 / 광대 너비
+  jawRatio: number;                  // 턱 너비 / 광대 너비
+}
+
+/**
+ * 얼굴형별 확률 (합계 1)
+ */
+export type FaceShapeScores = Record<Exclude<FaceShapeType, '알 수 없음'>, number>;
+
+/**
+ * 머리카락 영역 마스크 - 흰색 PNG, 알파 = 머리카락일 확률 (캔버스 합성에 바로 사용)
+ * 원본 사진과 같은 비율로 축소, 메모리에서만 사용
+ */
+export interface HairMask {
+  width: number;
+  height: number;
+  dataUrl: string;
 }
 
 /**
- * 얼굴 분석 결과
+ * 머리카락 분할 결과 (MediaPipe Image Segmenter)
+ */
+export interface HairSegmentation {
+  mask?: HairMask;                      // 분석한 화면에서만 있음 (체험 기록 등에는 저장하지 않음)
+  lengthClass: HairLengthClass | null;  // 현재 기장 (스타일 기장과 같은 분류, 얼굴을 찾지 못하면 null)
+  color: { r: number; g: number; b: number; hex: string } | null;  // 현재 머리색 (머리카락이 거의 없으면 null)
+  coverage: number;                     // 사진에서 머리카락이 차지하는 비율 (0-1)
+}
+
+/**
+ * 얼굴 분석 결과 (저장된 값은 faceAnalysisSchema의 parseFaceAnalysis로 검증/마이그레이션)
  */
 export interface FaceAnalysis {
+  analysisVersion: number;            // 분석 알고리즘 버전 (FACE_ANALYSIS_VERSION)
   detected: boolean;                  // 얼굴 감지 성공 여부
   faceShape: FaceShapeType | null;   // 얼굴형
   personalColor: PersonalColorType;   // 퍼스널 컬러
-  confidence: number;                 // 분석 신뢰도 (0-1)
+  confidence: number;                 // 분석 신뢰도 (0-1, 1위와 2위 얼굴형의 확률 차이)
+  faceShapeScores?: FaceShapeScores;  // 얼굴형별 확률
+  faceMeasurements?: FaceMeasurements; // 얼굴형 판정에 쓰인 측정값
   landmarks?: FaceLandmark[];         // 468개 얼굴 랜드마크
   skinTone?: SkinTone;               // 피부톤 정보
   message?: string;                   // 에러 또는 상태 메시지
   analyzedAt?: string;               // 분석 시각 (ISO timestamp)
+  quality?: PhotoQualityReport;       // 가상체험 전 사진 품질 검사 결과
+  hair?: HairSegmentation;            // 머리카락 영역 / 길이 / 현재 색상
+}
+
+/**
+ * 사진 품질 문제 종류
+ */
+export type PhotoQualityIssueCode =
+  | 'no-face'          // 얼굴 없음
+  | 'multiple-faces'   // 여러 사람
+  | 'face-too-small'   // 얼굴이 너무 작음 (멀리서 찍음)
+  | 'face-too-large'   // 얼굴이 잘림
+  | 'face-turned'      // 고개를 옆으로 돌림 (yaw)
+  | 'face-tilted'      // 고개를 숙이거나 들거나 기울임 (pitch / roll)
+  | 'too-dark'
+  | 'too-bright'
+  | 'low-contrast'
+  | 'blurry';
+
+/**
+ * 사진 품질 문제 (block: 가상체험 불가, warn: 확인 후 진행)
+ */
+export interface PhotoQualityIssue {
+  code: PhotoQualityIssueCode;
+  severity: 'block' | 'warn';
+  i18nKey: string;
+  message: string;                    // 기본 안내 문구 (번역이 없을 때)
+}
+
+/**
+ * 사진 품질 측정값
+ */
+export interface PhotoQualityMetrics {
+  faceCount: number;
+  faceSizeRatio: number;              // 얼굴 영역 / 전체 이미지 (0-1)
+  yaw: number;                        // 좌우 회전 (도)
+  pitch: number;                      // 상하 회전 (도)
+  roll: number;                       // 기울기 (도)
+  brightness: number;                 // 얼굴 영역 평균 밝기 (0-255)
+  contrast: number;                   // 얼굴 영역 밝기 표준편차
+  blurVariance: number;               // 라플라시안 분산 (낮을수록 흐림)
+}
+
+/**
+ * 사진 품질 검사 결과
+ */
+export interface PhotoQualityReport {
+  passed: boolean;                    // block 문제가 없으면 true
+  issues: PhotoQualityIssue[];
+  metrics: PhotoQualityMetrics | null;  // 얼굴이 없으면 null
+  checkedAt: string;
+}
+
+/**
+ * 카메라 촬영 중 안내 (ready가 되면 자동 촬영)
+ */
+export type CameraGuidanceCode =
+  | 'no-face'          // 얼굴이 보이지 않음
+  | 'multiple-faces'   // 여러 사람
+  | 'center-face'      // 가이드 중앙으로
+  | 'move-closer'      // 더 가까이
+  | 'move-back'        // 조금 뒤로
+  | 'face-camera'      // 정면 보기
+  | 'more-light'       // 더 밝은 곳으로
+  | 'less-light'       // 강한 조명 피하기
+  | 'hold-still'       // 흔들림
+  | 'ready';           // 촬영 가능
+
+export interface CameraGuidance {
+  code: CameraGuidanceCode;
+  i18nKey: string;
+  message: string;
 }
 
 /**
@@ -270,6 +438,31 @@ export interface AIRecommendations {
   updatedAt?: string;            // 추천 정보 업데이트 시각
 }
 
+// ===== HAIRSTYLE DESCRIPTOR TYPES =====
+
+export type HairLengthClass = 'buzz' | 'short' | 'bob' | 'medium' | 'long';
+export type HairTexture = 'straight' | 'wavy' | 'curly' | 'coily';
+export type HairFringe = 'none' | 'full' | 'side' | 'curtain' | 'wispy';
+export type HairParting = 'none' | 'center' | 'side';
+export type HairVolume = 'flat' | 'natural' | 'voluminous';
+
+/**
+ * 헤어스타일 구조화 정보 - 스타일 업로드 시 이미지 분석으로 한 번만 생성
+ * 가상체험 요청 설명과 검색에 재사용
+ */
+export interface HairstyleDescriptor {
+  length: HairLengthClass;       // 기장
+  texture: HairTexture;          // 컬 / 질감
+  fringe: HairFringe;            // 앞머리
+  parting: HairParting;          // 가르마
+  volume: HairVolume;            // 볼륨
+  color: {
+    name: string;                // 대표 색상 이름 (영문, 예: "ash brown")
+    hex: string;                 // 대표 색상 HEX
+  };
+  analyzedAt: string;            // 분석 시각 (ISO string)
+}
+
 // ===== HAIRSTYLE & DESIGNER DATA TYPES =====
 
 // Hairstyle data structure - Updated with AI recommendations
@@ -286,6 +479,7 @@ export interface Hairstyle {
   
   // 🆕 AI 추천 시스템
   aiRecommendations?: AIRecommendations;               // AI-based recommendations
+  descriptor?: HairstyleDescriptor;                    // 업로드 시 분석한 스타일 구조화 정보
   
   // LEGACY: Length/style-based categorization (deprecated but maintained for compatibility)
   majorCategory?: FemaleMajorCategory | MaleMajorCategory; // Primary categorization
@@ -295,11 +489,15 @@ export interface Hairstyle {
   tags?: string[];                                     // Optional tags for searching
   uploadedAt?: Date;                                   // When it was uploaded
   uploadedBy?: string;                                 // Who uploaded it (디자이너 ID 추가)
+  order?: number;                                      // 포트폴리오 표시 순서 (작을수록 앞, 새 스타일은 맨 앞)
   createdAt?: string;                                  // ISO date string
   updatedAt?: string;                                  // ISO date string
 }
 
 // Trial result data structure
+// 염색 체험 결과 종류 - generated: AI 생성, fallback: AI 실패 후 로컬 염색, demo: API 키 없이 로컬 염색
+export type ColorTryOnResultKind = 'generated' | 'fallback' | 'demo';
+
 export interface TrialResult {
   styleUrl: string;                                    // 적용한 헤어스타일 URL
   resultUrl: string;                                   // VModel 생성 결과 이미지 URL
@@ -307,6 +505,7 @@ export interface TrialResult {
   styleName?: string;                                  // 헤어스타일 이름 (선택사항)
   type?: 'cut' | 'color';                             // 체험 타입
   faceAnalysis?: FaceAnalysis;                        // 얼굴 분석 정보 (선택사항)
+  resultKind?: ColorTryOnResultKind;                  // 염색 체험 결과 종류
 }
 
 // Analytics data for tracking designer portfolio performance
@@ -315,9 +514,11 @@ export interface DesignerStats {
   styleViews: { [styleUrl: string]: number };         // Views per hairstyle
   bookings: { [styleUrl: string]: number };           // Bookings per hairstyle
   totalTryOns?: number;                               // Total style try-ons
-  conversionRate?: number;                            // Booking conversion rate
+  conversionRate?: number;                            // Booking conversion rate (조회할 때 계산, 저장하지 않음)
   popularStyles?: string[];                           // Top performing style URLs
-  trialResults?: TrialResult[];                       // Recent client try-on results
+  trialResults?: TrialResult[];                       // Recent client try-on results (예전 문서에 저장된 값, 새 결과는 저장소의 체험 결과 목록)
+  totalTrialResults?: number;                         // 기록된 체험 결과 수 (누적)
+  colorTryOnResults?: Partial<Record<ColorTryOnResultKind, number>>; // Color try-on results shown, by kind
   lastUpdated?: string;                               // ISO date string
 }
 
@@ -351,15 +552,24 @@ export interface DesignerSettings {
   allowDirectBooking?: boolean;
   showStats?: boolean;
   theme?: 'light' | 'dark';
+  tryOnCacheEnabled?: boolean;   // 같은 얼굴 + 스타일 가상체험 결과 재사용 여부
+  tryOnCacheVersion?: number;    // 올리면 이전에 저장된 가상체험 결과를 모두 무효화
+  monthlyTryOnBudget?: number;   // 월간 AI 가상체험 크레딧 한도 (0 또는 없으면 무제한)
 }
 
 // Complete designer data structure
 export interface DesignerData {
-  portfolio: Hairstyle[];                              // Designer's hairstyle collection
+  portfolio: Hairstyle[];                              // Designer's hairstyle collection (표시 순서대로)
   reservationUrl?: string;                             // Naver reservation link
   stats?: DesignerStats;                              // Analytics data
   profile?: DesignerProfile;                          // Designer profile
   settings?: DesignerSettings;                        // Designer settings
+  slug?: string;                                      // 공개 링크 주소 (?designer=<slug>, 디자이너마다 고유)
+  legacyNames?: string[];                             // 이름으로 저장되던 예전 문서에서 합쳐진 이름 (예전 링크 호환)
+  ownerUid?: string;                                  // 이름으로 저장된 예전 문서의 소유 계정 UID (관리자가 scripts/assign-legacy-owner.js로 기록, 있어야 이전)
+  analyticsRollupFrom?: string;                       // 이 날짜(YYYY-MM-DD, UTC)부터 일별 집계 완료 (없고 through만 있으면 처음부터)
+  analyticsRollupThrough?: string;                    // 이 날짜(YYYY-MM-DD, UTC)까지 일별 집계 완료
+  analyticsResetAt?: string;                          // 통계를 초기화한 시각 (ISO string) - 이전 이벤트 / 체험 결과는 기간 통계에서도 제외
   createdAt?: string;                                 // ISO date string
   updatedAt?: string;                                 // ISO date string
 }
@@ -376,6 +586,7 @@ export interface UploadStyleFormData {
   
   // 🆕 AI 추천 정보
   aiRecommendations?: AIRecommendations;
+  descriptor?: HairstyleDescriptor;
   
   // LEGACY: For backward compatibility (deprecated)
   majorCategory?: FemaleMajorCategory | MaleMajorCategory;
@@ -396,6 +607,8 @@ export interface HairstyleGalleryProps {
   onAddImage?: () => void;
   showCategories?: boolean;
   allowMultipleSelection?: boolean;
+  selectedUrls?: string[];                          // 여러 장 선택 모드에서 선택된 스타일 URL
+  onToggleSelect?: (hairstyle: Hairstyle) => void;  // 여러 장 선택 모드에서 스타일 선택/해제
   faceAnalysis?: FaceAnalysis | null;  // 🆕 얼굴 분석 기반 필터링용
   // 🆕 DesignerView 전용 props
   onDeleteImage?: (imageUrl: string) => void;
@@ -471,6 +684,186 @@ export interface VModelResponse {
   processingTime?: number;
 }
 
+// ===== TRY-ON PROVIDER TYPES =====
+
+/**
+ * 헤어스타일 가상체험 백엔드 식별자
+ */
+export type TryOnProviderId = 'vmodel' | 'demo' | (string & {});
+
+/**
+ * 진행 중인 가상체험 작업 기록 (새로고침 후 이어서 확인하기 위해 저장)
+ */
+export interface TryOnTaskRecord {
+  taskId: string;                   // 백엔드 작업 ID
+  providerId: TryOnProviderId;      // 작업을 생성한 백엔드
+  scope: string;                    // 작업을 시작한 화면 (디자이너 이름, 고객 ID 등)
+  faceImageUrl: string;             // 업로드된 얼굴 사진 URL (결과 비교용)
+  styleUrl: string;                 // 적용한 헤어스타일 URL
+  styleName?: string;               // 헤어스타일 이름
+  createdAt: string;                // 작업 생성 시각 (ISO string)
+}
+
+/**
+ * 작업 기록에 함께 저장할 화면 정보
+ */
+export type TryOnTaskContext = Pick<TryOnTaskRecord, 'scope' | 'styleUrl' | 'styleName'>;
+
+/**
+ * 가상체험 진행 단계
+ */
+export type TryOnProgressStage =
+  | 'face-upload'     // 얼굴 사진 업로드
+  | 'style-upload'    // 헤어스타일 이미지 업로드
+  | 'task-queued'     // 백엔드 작업 대기열 등록
+  | 'processing'      // 백엔드에서 변환 중
+  | 'saving-result';  // 결과 이미지 영구 저장 (Cloudinary)
+
+/**
+ * 가상체험 진행 이벤트 (각 단계가 시작될 때 발생)
+ */
+export type TryOnProgressEvent =
+  | { stage: 'face-upload' }
+  | { stage: 'style-upload' }
+  | { stage: 'task-queued'; taskId?: string }
+  | {
+      stage: 'processing';
+      taskId?: string;
+      elapsedMs: number;      // 작업 시작 후 경과 시간
+      estimatedMs?: number;   // 예상 처리 시간 (VModel predict_time 기반)
+    }
+  | { stage: 'saving-result' };
+
+/**
+ * 가상체험 요청
+ */
+export interface TryOnRequest {
+  faceFile: File | string;          // 고객 얼굴 사진 (File 또는 이미 업로드된 URL)
+  hairstyleFile: File | string;     // 헤어스타일 이미지 (File 또는 URL)
+  hairstyleDescription: string;     // 헤어스타일 설명
+  signal?: AbortSignal;             // 취소 신호 (결과 창을 닫으면 중단)
+  task?: TryOnTaskContext;          // 있으면 작업을 저장해 새로고침 후에도 이어서 확인
+  onProgress?: (event: TryOnProgressEvent) => void;  // 진행 단계 알림
+  onTaskCreated?: (taskId: string, cost: number) => void;  // 백엔드 작업 생성 (크레딧 차감) 알림
+}
+
+/**
+ * 저장된 작업을 이어서 확인할 때의 옵션
+ */
+export type TryOnResumeOptions = Pick<TryOnRequest, 'signal' | 'onProgress'>;
+
+/**
+ * 가상체험 결과
+ */
+export interface TryOnResult {
+  imageUrl: string;                 // 결과 이미지 URL
+  providerId: TryOnProviderId;      // 결과를 생성한 백엔드
+  isDemo: boolean;                  // 실제 변환 없이 샘플 이미지를 반환했는지 여부
+  taskId?: string;                  // 백엔드 작업 ID (있는 경우)
+  processingTime?: number;          // 처리 시간 (ms)
+  fromCache?: boolean;              // 이전 결과를 캐시에서 가져왔는지 여부
+}
+
+/**
+ * 가상체험 비용 기록 결과
+ */
+export type TryOnLedgerOutcome = 'pending' | 'succeeded' | 'failed' | 'canceled';
+
+/**
+ * 가상체험 비용 기록 (백엔드 작업 1건 = 1건, 문서 ID는 taskId)
+ */
+export interface TryOnLedgerEntry {
+  taskId: string;                   // 백엔드 작업 ID
+  designerName: string;             // 비용을 부담하는 디자이너 ID (Firebase UID)
+  providerId: TryOnProviderId;
+  styleUrl: string;
+  styleName?: string;
+  cost: number;                     // 차감된 크레딧 (VModel task_cost)
+  outcome: TryOnLedgerOutcome;
+  createdAt: string;                // 작업 생성 시각 (ISO string)
+  completedAt?: string;             // 결과 확정 시각 (ISO string)
+}
+
+/**
+ * 비용 기록 / 월간 한도 확인에 필요한 정보
+ */
+export interface TryOnLedgerContext {
+  designerName: string;             // 디자이너 ID (Firebase UID)
+  styleUrl: string;
+  styleName?: string;
+  monthlyBudget?: number;           // DesignerSettings.monthlyTryOnBudget
+}
+
+/**
+ * 가상체험 결과 캐시 범위 (디자이너별로 켜고 끄거나 무효화)
+ */
+export interface TryOnCacheScope {
+  scope: string;                    // 스타일을 올린 디자이너
+  version: number;                  // 디자이너 설정의 tryOnCacheVersion
+}
+
+/**
+ * 가상체험 결과 캐시 조회/저장 정보
+ */
+export interface TryOnCacheContext extends TryOnCacheScope {
+  styleId: string;                  // Hairstyle.id (없으면 URL)
+}
+
+/**
+ * 가상체험 결과 캐시 항목 (얼굴 사진 해시 + 스타일 ID → 결과 URL)
+ */
+export interface TryOnCacheEntry {
+  cacheKey: string;                 // SHA-256(scope:version:faceHash:styleId)
+  faceHash: string;                 // 얼굴 사진 SHA-256
+  styleId: string;
+  scope: string;
+  version: number;
+  imageUrl: string;                 // 저장된 결과 이미지 URL
+  providerId: TryOnProviderId;
+  createdAt: string;
+}
+
+/**
+ * 가상체험 백엔드 인터페이스
+ * 새 백엔드는 이 인터페이스를 구현한 뒤 tryOnService에 등록한다.
+ */
+export interface TryOnProvider {
+  id: TryOnProviderId;
+  name: string;
+  isAvailable: () => boolean;       // 설정(API 키 등)이 갖춰져 있는지
+  applyHairstyle: (request: TryOnRequest) => Promise<TryOnResult>;
+  uploadFace?: (faceFile: File, signal?: AbortSignal) => Promise<string>;  // 여러 스타일 체험 시 얼굴 사진을 한 번만 업로드
+  resumeTask?: (record: TryOnTaskRecord, options?: TryOnResumeOptions) => Promise<TryOnResult>;  // 저장된 작업 이어서 확인
+}
+
+/**
+ * 여러 스타일 한번에 체험 - 스타일별 진행 상태
+ */
+export type TryOnBatchItemState =
+  | { status: 'queued' }                                   // 순서 대기
+  | { status: 'running'; progress?: TryOnProgressEvent }   // 변환 중
+  | { status: 'done'; result: TryOnResult }                // 완료
+  | { status: 'error'; error: string; i18nKey?: string };  // 실패 (다른 스타일은 계속 진행)
+
+/**
+ * 가상체험 오류 원인
+ */
+export type TryOnErrorCode =
+  | 'auth'                  // API 키 오류 / 접근 거부
+  | 'insufficient-credits'  // 백엔드 크레딧 부족
+  | 'budget-exceeded'       // 디자이너 월간 한도 초과
+  | 'safety-blocked'        // 안전성 정책으로 차단된 사진
+  | 'timeout'               // 응답 대기 시간 초과
+  | 'upload-failed'         // 이미지 업로드 실패
+  | 'no-face-detected'      // 사진에서 얼굴을 찾지 못함
+  | 'no-hair-detected'      // 사진에서 머리카락 영역을 찾지 못함 (염색 미리보기 불가)
+  | 'unknown';
+
+/**
+ * 오류 화면에서 안내할 다음 행동
+ */
+export type TryOnErrorAction = 'retry' | 'change-photo' | 'contact-designer';
+
 /**
  * 스타일 추천 정보
  */
@@ -491,6 +884,140 @@ export interface ColorRecommendation {
   description: string;
 }
 
+// ===== ANALYTICS EVENTS =====
+
+/**
+ * 분석 이벤트 종류
+ * visit: 포트폴리오 방문 (세션당 1번), style_view: 스타일 선택, try_on_*: AI 가상체험 시작 / 성공 / 실패,
+ * color_try_on: 염색 결과 표시, booking_click: 예약 버튼, favorite: 찜하기
+ */
+export type AnalyticsEventType =
+  | 'visit'
+  | 'style_view'
+  | 'try_on_started'
+  | 'try_on_succeeded'
+  | 'try_on_failed'
+  | 'color_try_on'
+  | 'booking_click'
+  | 'favorite';
+
+/**
+ * 이벤트가 발생한 화면 - portfolio_link: 공유 링크(?designer=)로 연 포트폴리오, client_home: 로그인한 고객 홈
+ */
+export type AnalyticsEventSource = 'portfolio_link' | 'client_home';
+
+/**
+ * 분석 이벤트 (추가만 하고 수정 / 삭제하지 않음)
+ */
+export interface AnalyticsEvent {
+  id: string;
+  designerId: string;
+  type: AnalyticsEventType;
+  timestamp: string;                // 발생 시각 (ISO string)
+  sessionId: string;                // 브라우저 탭 세션
+  source: AnalyticsEventSource;
+  styleId?: string;                 // 스타일 관련 이벤트 (ID가 없는 예전 스타일은 이미지 URL)
+  resultKind?: ColorTryOnResultKind;  // color_try_on
+}
+
+/**
+ * 디자이너별 하루 집계 (이벤트 로그에서 생성, 날짜는 UTC 기준 - 대시보드를 여는 기기의 시간대와 관계없이 같은 날짜)
+ */
+export interface AnalyticsDailyRollup {
+  designerId: string;
+  date: string;                                                         // YYYY-MM-DD
+  counts: Partial<Record<AnalyticsEventType, number>>;
+  styles: Record<string, Partial<Record<AnalyticsEventType, number>>>;  // 스타일 ID별
+  colorResults: Partial<Record<ColorTryOnResultKind, number>>;
+  sessions: number;                                                     // 고유 세션 수
+}
+
+// ===== DATA REPOSITORIES =====
+
+/**
+ * 데이터 저장소 종류
+ * firestore: Firebase, localStorage: 브라우저 저장소 (Firebase 미설정 시), memory: 메모리 (테스트 / 일회성 데모)
+ */
+export type RepositoryKind = 'firestore' | 'localStorage' | 'memory';
+
+/**
+ * 저장소의 디자이너 문서 - 스타일은 문서 밖(designers/{uid}/styles/{styleId})에 한 건씩 저장
+ * portfolio는 이전 버전이 문서 안에 저장하던 배열로, 스타일 컬렉션으로 옮기기 전에만 남아 있다.
+ */
+export type DesignerDocument = Omit<DesignerData, 'portfolio'> & { portfolio?: Hairstyle[] };
+
+/**
+ * 디자이너 통계 갱신
+ * set은 값을 덮어쓰고 increment는 읽지 않고 저장소에서 현재 값에 더한다 (동시에 여러 고객이 올려도 누락 없음).
+ * increment 경로는 stats 아래 키 목록 - ['styleViews', styleUrl]처럼 키에 '.'이나 '/'가 있어도 된다.
+ */
+export interface DesignerStatsUpdate {
+  set?: Partial<DesignerStats>;
+  increment?: Array<{ path: string[]; amount: number }>;
+}
+
+/**
+ * 디자이너 데이터 저장소 인터페이스
+ * 구현체는 실패하면 예외를 던지고, 기본값 채우기와 오류 처리는 firebaseService에서 한다.
+ */
+export interface DesignerRepository {
+  getDesigner: (designerId: string) => Promise<DesignerDocument | null>;
+  listDesigners: () => Promise<Array<{ designerId: string; data: DesignerDocument }>>;
+  listDesignersByOwner: (ownerUid: string) => Promise<Array<{ designerId: string; data: DesignerDocument }>>;  // ownerUid가 기록된 예전 문서
+  saveDesigner: (designerId: string, data: DesignerDocument) => Promise<void>;
+  updateDesigner: (designerId: string, fields: Partial<DesignerDocument>) => Promise<void>;  // 주어진 항목만 교체 (나머지, 특히 통계는 유지)
+  deleteDesigner: (designerId: string) => Promise<void>;                             // 스타일은 함께 지우지 않음
+  listStyles: (designerId: string) => Promise<Hairstyle[]>;                          // 순서 없음 (정렬은 호출 측)
+  listAllStyles: () => Promise<Array<{ designerId: string; style: Hairstyle }>>;
+  saveStyle: (designerId: string, style: Hairstyle & { id: string }) => Promise<void>;  // 같은 ID가 있으면 덮어씀
+  updateStyle: (designerId: string, styleId: string, updates: Partial<Hairstyle>) => Promise<boolean>;  // 스타일이 없으면 false
+  deleteStyle: (designerId: string, styleId: string) => Promise<void>;
+  moveEmbeddedPortfolio: (designerId: string, styles: Array<Hairstyle & { id: string }>) => Promise<void>;  // 스타일 저장과 문서의 portfolio 배열 삭제를 함께 (문서의 다른 항목은 유지)
+  updateStats: (designerId: string, update: DesignerStatsUpdate) => Promise<void>;  // 디자이너가 없으면 예외
+  addTrialResult: (designerId: string, result: TrialResult) => Promise<void>;        // 기존 결과를 읽지 않고 추가만 함
+  listTrialResults: (designerId: string, limitCount: number) => Promise<TrialResult[]>;  // 최신순
+  getTryOnCacheEntry: (cacheKey: string) => Promise<TryOnCacheEntry | null>;
+  saveTryOnCacheEntry: (entry: TryOnCacheEntry) => Promise<boolean>;                // 공유 캐시를 두지 않는 저장소는 false
+  saveTryOnLedgerEntry: (entry: TryOnLedgerEntry) => Promise<void>;
+  updateTryOnLedgerEntry: (taskId: string, updates: Pick<TryOnLedgerEntry, 'outcome' | 'completedAt'>) => Promise<boolean>;  // 기록이 없으면 false
+  getTryOnLedger: (designerId: string, sinceIso: string) => Promise<TryOnLedgerEntry[]>;    // 최신순
+  getDesignerIdBySlug: (slug: string) => Promise<string | null>;
+  claimSlug: (slug: string, designerId: string) => Promise<boolean>;  // 다른 디자이너가 쓰고 있으면 false
+  releaseSlug: (slug: string, designerId: string) => Promise<void>;   // 해당 디자이너의 주소일 때만 해제
+}
+
+/**
+ * 분석 이벤트 / 일별 집계 저장소 인터페이스
+ */
+export interface AnalyticsRepository {
+  addEvent: (event: AnalyticsEvent) => Promise<void>;
+  listEvents: (designerId: string, startIso: string, endIso: string) => Promise<AnalyticsEvent[]>;  // start 이상 end 미만, 오래된 순
+  listDailyRollups: (designerId: string, startDate: string, endDate: string) => Promise<AnalyticsDailyRollup[]>;  // 양 끝 날짜 포함
+  saveDailyRollups: (rollups: AnalyticsDailyRollup[]) => Promise<void>;
+}
+
+/**
+ * 사용자 / 고객 데이터 저장소 인터페이스
+ */
+export interface ClientRepository {
+  getUser: (userId: string) => Promise<User | null>;
+  saveUser: (user: User) => Promise<void>;
+  getClientProfile: (userId: string) => Promise<ClientProfile | null>;
+  saveClientProfile: (profile: ClientProfile) => Promise<void>;
+  addFavorite: (favorite: Favorite) => Promise<void>;
+  getFavorites: (userId: string) => Promise<Favorite[]>;  // 최신순
+  removeFavorite: (favoriteId: string, userId: string) => Promise<void>;
+  addTryOnHistory: (history: TryOnHistory) => Promise<void>;
+  getTryOnHistory: (userId: string, limitCount: number) => Promise<TryOnHistory[]>;  // 최신순
+}
+
+export interface Repositories {
+  kind: RepositoryKind;
+  designers: DesignerRepository;
+  clients: ClientRepository;
+  analytics: AnalyticsRepository;
+}
+
 // ===== CONSTANTS =====
 
 // ===== NEW SERVICE CATEGORY CONSTANTS =====
@@ -580,15 +1107,44 @@ export const FACE_SHAPES: FaceShapeType[] = [
 ];
 
 /**
- * 퍼스널 컬러 목록
+ * 퍼스널 컬러 목록 (스타일 등록 시 선택 - 4계절, 12톤 분석 결과는 계절로 대응해 매칭)
  */
-export const PERSONAL_COLORS: Exclude<PersonalColorType, null>[] = [
+export const PERSONAL_COLORS: PersonalColorSeason[] = [
   '봄 웜톤',
   '여름 쿨톤',
   '가을 웜톤',
   '겨울 쿨톤'
 ];
 
+/**
+ * 12톤 → 계절 / 세부 톤
+ */
+export const PERSONAL_COLOR_TONES: Record<PersonalColorTone, { season: PersonalColorSeason; variant: PersonalColorVariant }> = {
+  '봄 웜톤 라이트': { season: '봄 웜톤', variant: 'light' },
+  '봄 웜톤 브라이트': { season: '봄 웜톤', variant: 'bright' },
+  '봄 웜톤 트루': { season: '봄 웜톤', variant: 'true' },
+  '여름 쿨톤 라이트': { season: '여름 쿨톤', variant: 'light' },
+  '여름 쿨톤 뮤트': { season: '여름 쿨톤', variant: 'muted' },
+  '여름 쿨톤 트루': { season: '여름 쿨톤', variant: 'true' },
+  '가을 웜톤 뮤트': { season: '가을 웜톤', variant: 'muted' },
+  '가을 웜톤 딥': { season: '가을 웜톤', variant: 'deep' },
+  '가을 웜톤 트루': { season: '가을 웜톤', variant: 'true' },
+  '겨울 쿨톤 딥': { season: '겨울 쿨톤', variant: 'deep' },
+  '겨울 쿨톤 브라이트': { season: '겨울 쿨톤', variant: 'bright' },
+  '겨울 쿨톤 트루': { season: '겨울 쿨톤', variant: 'true' }
+};
+
+/**
+ * 이전 버전 분석기가 저장한 퍼스널 컬러 문자열 → 12톤
+ * 12톤에 없는 조합은 세부 톤(뮤트 등)이 같은 가장 가까운 톤으로 (봄 뮤트 → 따뜻하고 탁한 가을 뮤트)
+ */
+export const LEGACY_PERSONAL_COLORS: Record<string, PersonalColorTone> = {
+  '봄 웜톤 (뮤트)': '가을 웜톤 뮤트',
+  '가을 웜톤 (딥)': '가을 웜톤 딥',
+  '여름 쿨톤 (라이트)': '여름 쿨톤 라이트',
+  '겨울 쿨톤 (브라이트)': '겨울 쿨톤 브라이트'
+};
+
 /**
  * 얼굴형별 추천 정보
  */
@@ -640,7 +1196,7 @@ export const FACE_SHAPE_RECOMMENDATIONS: Record<string, StyleRecommendation> = {
 /**
  * 퍼스널 컬러별 추천 정보
  */
-export const PERSONAL_COLOR_RECOMMENDATIONS: Record<string, ColorRecommendation> = {
+export const PERSONAL_COLOR_RECOMMENDATIONS: Record<Exclude<PersonalColorType, null>, ColorRecommendation> = {
   '봄 웜톤': {
     personalColor: '봄 웜톤',
     recommendedColors: ['코랄', '피치', '카라멜 브라운', '골드 블론드', '밝은 오렌지'],
@@ -664,6 +1220,78 @@ export const PERSONAL_COLOR_RECOMMENDATIONS: Record<string, ColorRecommendation>
     recommendedColors: ['젯 블랙', '플래티넘 블론드', '와인 레드', '블루 블랙', '실버'],
     avoidColors: ['오렌지', '골드', '따뜻한 브라운', '피치'],
     description: '젯 블랙, 플래티넘 블론드, 와인 레드, 블루 블랙 등 선명한 색상을 추천합니다.'
+  },
+  '봄 웜톤 라이트': {
+    personalColor: '봄 웜톤 라이트',
+    recommendedColors: ['밀크 브라운', '피치 베이지', '허니 블론드', '라이트 카라멜'],
+    avoidColors: ['블루 블랙', '딥 버건디', '애쉬 그레이'],
+    description: '밀크 브라운, 피치 베이지, 허니 블론드 등 밝고 부드러운 따뜻한 색상이 잘 어울립니다.'
+  },
+  '봄 웜톤 브라이트': {
+    personalColor: '봄 웜톤 브라이트',
+    recommendedColors: ['코퍼 오렌지', '골드 브라운', '선명한 코랄', '스트로베리 블론드'],
+    avoidColors: ['탁한 카키', '애쉬 브라운', '차가운 블랙'],
+    description: '코퍼 오렌지, 골드 브라운 등 맑고 선명한 따뜻한 색상으로 생기를 살려보세요.'
+  },
+  '봄 웜톤 트루': {
+    personalColor: '봄 웜톤 트루',
+    recommendedColors: ['카라멜 브라운', '골드 블론드', '코랄', '피치'],
+    avoidColors: ['애쉬 그레이', '실버', '블루 블랙'],
+    description: '카라멜 브라운, 골드 블론드, 코랄 등 밝고 따뜻한 봄 대표 색상이 잘 어울립니다.'
+  },
+  '여름 쿨톤 라이트': {
+    personalColor: '여름 쿨톤 라이트',
+    recommendedColors: ['라벤더', '핑크 베이지', '라이트 애쉬 블론드', '로즈 브라운'],
+    avoidColors: ['오렌지', '딥 브라운', '구리빛'],
+    description: '라벤더, 핑크 베이지, 연한 애쉬 블론드 등 밝은 쿨톤을 추천합니다.'
+  },
+  '여름 쿨톤 뮤트': {
+    personalColor: '여름 쿨톤 뮤트',
+    recommendedColors: ['애쉬 브라운', '그레이지', '모카 애쉬', '스모키 로즈'],
+    avoidColors: ['비비드 레드', '오렌지', '젯 블랙'],
+    description: '애쉬 브라운, 그레이지처럼 회색빛이 도는 차분한 쿨톤이 피부를 맑게 보이게 합니다.'
+  },
+  '여름 쿨톤 트루': {
+    personalColor: '여름 쿨톤 트루',
+    recommendedColors: ['애쉬 브라운', '로즈 골드', '실버 그레이', '소프트 블랙'],
+    avoidColors: ['오렌지', '골드', '구리빛'],
+    description: '애쉬 브라운, 로즈 골드, 실버 그레이 등 부드러운 쿨톤이 어울립니다.'
+  },
+  '가을 웜톤 뮤트': {
+    personalColor: '가을 웜톤 뮤트',
+    recommendedColors: ['베이지 브라운', '카키 브라운', '올리브 애쉬', '모카'],
+    avoidColors: ['비비드 레드', '블루 블랙', '플래티넘'],
+    description: '베이지 브라운, 카키 브라운 등 채도를 낮춘 차분한 따뜻한 색상이 자연스럽습니다.'
+  },
+  '가을 웜톤 딥': {
+    personalColor: '가을 웜톤 딥',
+    recommendedColors: ['초콜릿 브라운', '딥 레드', '다크 코퍼', '마호가니'],
+    avoidColors: ['파스텔 톤', '플래티넘', '애쉬 블론드'],
+    description: '초콜릿 브라운, 딥 레드, 진한 구리빛 등 깊고 풍부한 색상이 어울립니다.'
+  },
+  '가을 웜톤 트루': {
+    personalColor: '가을 웜톤 트루',
+    recommendedColors: ['오렌지 브라운', '구리빛', '올리브', '따뜻한 레드'],
+    avoidColors: ['애쉬 톤', '실버', '차가운 블랙'],
+    description: '오렌지 브라운, 구리빛, 올리브, 따뜻한 레드 계열이 피부톤과 조화롭습니다.'
+  },
+  '겨울 쿨톤 딥': {
+    personalColor: '겨울 쿨톤 딥',
+    recommendedColors: ['블루 블랙', '다크 버건디', '에스프레소', '딥 플럼'],
+    avoidColors: ['골드 블론드', '오렌지', '피치'],
+    description: '블루 블랙, 다크 버건디 등 어둡고 깊은 차가운 색상으로 대비를 살려보세요.'
+  },
+  '겨울 쿨톤 브라이트': {
+    personalColor: '겨울 쿨톤 브라이트',
+    recommendedColors: ['플래티넘 블론드', '비비드 레드', '푸시아 핑크', '실버'],
+    avoidColors: ['탁한 브라운', '카키', '골드'],
+    description: '플래티넘 블론드, 실버, 비비드 레드 등 강렬한 색상이 잘 어울립니다.'
+  },
+  '겨울 쿨톤 트루': {
+    personalColor: '겨울 쿨톤 트루',
+    recommendedColors: ['젯 블랙', '와인 레드', '블루 블랙', '실버'],
+    avoidColors: ['오렌지', '골드', '따뜻한 브라운'],
+    description: '젯 블랙, 와인 레드, 블루 블랙 등 선명한 색상을 추천합니다.'
   }
 };
 
@@ -730,6 +1358,46 @@ export const isSuitableForFaceShape = (
   return recIndex >= minIndex;
 };
 
+/**
+ * 12톤이면 해당 계절, 4계절이면 그대로 (이전 분석기 문자열도 처리)
+ */
+export const getPersonalColorSeason = (personalColor: PersonalColorType | string | undefined): PersonalColorSeason | null => {
+  const normalized = normalizePersonalColor(personalColor);
+  if (!normalized) return null;
+  return Object.hasOwn(PERSONAL_COLOR_TONES, normalized)
+    ? PERSONAL_COLOR_TONES[normalized as PersonalColorTone].season
+    : normalized as PersonalColorSeason;
+};
+
+/**
+ * 저장된 퍼스널 컬러 문자열을 현재 타입으로 변환 (알 수 없는 값은 null)
+ */
+export const normalizePersonalColor = (value: PersonalColorType | string | undefined): PersonalColorType => {
+  if (!value) return null;
+  if (Object.hasOwn(LEGACY_PERSONAL_COLORS, value)) return LEGACY_PERSONAL_COLORS[value];
+  if (Object.hasOwn(PERSONAL_COLOR_TONES, value) || (PERSONAL_COLORS as string[]).includes(value)) {
+    return value as PersonalColorType;
+  }
+  return null;
+};
+
+/**
+ * 스타일에 등록된 퍼스널 컬러 추천 중 사용자에게 해당하는 항목
+ * 같은 12톤이 있으면 우선, 없으면 같은 계절로 등록된 항목
+ */
+export const findPersonalColorRecommendation = (
+  hairstyle: Hairstyle,
+  personalColor: PersonalColorType
+): ColorRecommendations['personalColors'][number] | undefined => {
+  const recommendations = hairstyle.aiRecommendations?.color?.personalColors;
+  const normalized = normalizePersonalColor(personalColor);
+  const season = getPersonalColorSeason(normalized);
+  if (!recommendations || !normalized || !season) return undefined;
+
+  return recommendations.find(pc => normalizePersonalColor(pc.color) === normalized)
+    || recommendations.find(pc => getPersonalColorSeason(pc.color) === season);
+};
+
 /**
  * 퍼스널 컬러에 맞는 염색 스타일인지 확인
  */
@@ -740,9 +1408,7 @@ export const isSuitableForPersonalColor = (
 ): boolean => {
   if (!personalColor || !hairstyle.aiRecommendations?.color) return false;
   
-  const recommendation = hairstyle.aiRecommendations.color.personalColors.find(
-    pc => pc.color === personalColor
-  );
+  const recommendation = findPersonalColorRecommendation(hairstyle, personalColor);
   
   if (!recommendation) return false;
   
@@ -780,9 +1446,7 @@ export const getRecommendationScore = (
   
   // 염색 스타일 점수
   if (hairstyle.serviceCategory === 'color' && faceAnalysis.personalColor) {
-    const colorRec = hairstyle.aiRecommendations?.color?.personalColors.find(
-      pc => pc.color === faceAnalysis.personalColor
-    );
+    const colorRec = findPersonalColorRecommendation(hairstyle, faceAnalysis.personalColor);
     if (colorRec) {
       switch (colorRec.suitability) {
         case 'excellent': score += 3; break;
@@ -848,7 +1512,6 @@ export const DEFAULT_STATS: DesignerStats = {
   styleViews: {},
   bookings: {},
   totalTryOns: 0,
-  conversionRate: 0,
   popularStyles: [],
   trialResults: [],
   lastUpdated: new Date().toISOString()
@@ -857,7 +1520,9 @@ export const DEFAULT_STATS: DesignerStats = {
 export const DEFAULT_SETTINGS: DesignerSettings = {
   allowDirectBooking: true,
   showStats: true,
-  theme: 'light'
+  theme: 'light',
+  tryOnCacheEnabled: true,
+  tryOnCacheVersion: 0
 };
 
 // Local storage keys (for type safety)
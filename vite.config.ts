@@ -15,6 +15,8 @@ export default defineConfig(({ mode }) => {
     resolve: {
       alias: {
         '@': path.resolve(__dirname, './src'),
+        // MediaPipe Tasks 번들 / wasm 파일 (패키지 exports에 없어서 별칭으로 ?url import)
+        '@mediapipe-tasks-vision-dist': path.resolve(__dirname, './node_modules/@mediapipe/tasks-vision'),
       },
     },
     define: {
@@ -27,9 +29,15 @@ export default defineConfig(({ mode }) => {
       'import.meta.env.VITE_FIREBASE_APP_ID': JSON.stringify(env.VITE_FIREBASE_APP_ID || ''),
       'import.meta.env.VITE_FIREBASE_MEASUREMENT_ID': JSON.stringify(env.VITE_FIREBASE_MEASUREMENT_ID || ''),
       
+      // 데이터 저장소 선택 (auto | firestore | localStorage | memory)
+      'import.meta.env.VITE_STORAGE_BACKEND': JSON.stringify(env.VITE_STORAGE_BACKEND || 'auto'),
+      
       // VModel AI API Token
       'import.meta.env.VITE_VMODEL_API_TOKEN': JSON.stringify(env.VITE_VMODEL_API_TOKEN || ''),
       
+      // 가상체험 백엔드 선택 (auto | vmodel | demo)
+      'import.meta.env.VITE_TRYON_PROVIDER': JSON.stringify(env.VITE_TRYON_PROVIDER || 'auto'),
+      
       // Gemini AI API Token (추가)
       'import.meta.env.VITE_GEMINI_API_KEY': JSON.stringify(env.VITE_GEMINI_API_KEY || ''),
       
@@ -37,6 +45,15 @@ export default defineConfig(({ mode }) => {
       'import.meta.env.VITE_CLOUDINARY_CLOUD_NAME': JSON.stringify(env.VITE_CLOUDINARY_CLOUD_NAME || ''),
       'import.meta.env.VITE_CLOUDINARY_UPLOAD_PRESET': JSON.stringify(env.VITE_CLOUDINARY_UPLOAD_PRESET || ''),
       
+      // 외부 API 기본 주소 (비우면 실제 서비스, 로컬 목 서버는 http://localhost:4010)
+      'import.meta.env.VITE_VMODEL_API_BASE_URL': JSON.stringify(env.VITE_VMODEL_API_BASE_URL || ''),
+      'import.meta.env.VITE_CLOUDINARY_API_BASE_URL': JSON.stringify(env.VITE_CLOUDINARY_API_BASE_URL || ''),
+      'import.meta.env.VITE_GEMINI_API_BASE_URL': JSON.stringify(env.VITE_GEMINI_API_BASE_URL || ''),
+      'import.meta.env.VITE_QR_API_BASE_URL': JSON.stringify(env.VITE_QR_API_BASE_URL || ''),
+      
+      // 머리카락 분할 모델 주소 (비우면 /models/hair_segmenter.tflite - npm run models:fetch 로 받은 파일)
+      'import.meta.env.VITE_HAIR_SEGMENTER_MODEL_URL': JSON.stringify(env.VITE_HAIR_SEGMENTER_MODEL_URL || ''),
+      
       // 기타 환경변수
       'import.meta.env.NODE_ENV': JSON.stringify(mode),
     },
@@ -50,6 +67,8 @@ export default defineConfig(({ mode }) => {
       sourcemap: false,
       minify: 'esbuild',
       target: 'es2020',
+      // MediaPipe 모델/wasm 파일은 locateFile로 주소를 넘기므로 작은 파일도 data URL로 인라인하지 않음
+      assetsInlineLimit: (filePath) => (filePath.includes('@mediapipe') ? false : undefined),
       rollupOptions: {
         output: {
           manualChunks: {